@@ -0,0 +1,184 @@
+import { createSocket } from "node:dgram";
+import { appendFile, mkdir, readFile, rename, rm, stat } from "node:fs/promises";
+import { hostname } from "node:os";
+import { dirname } from "node:path";
+import axios from "axios";
+import { logger } from "./logger.js";
+
+// Structured audit trail of every tool call. Entries are kept in memory for the
+// `recent-activity` resource and forwarded to any configured sinks: a rotating
+// JSON Lines file, syslog (RFC 5424 over UDP) or an HTTP collector. A failing
+// sink is reported on stderr but never fails the tool call.
+
+export type AuditOutcome = "success" | "failure" | "denied";
+
+export interface AuditEntry {
+  timestamp: string;
+  clientId: string;
+  tool: string;
+  params: Record<string, unknown>;
+  /** Connection profile the call ran against. */
+  profile?: string;
+  database?: string;
+  /** Tables read by the call, `table` or `database:table`. */
+  tables?: string[];
+  rowCount?: number;
+  durationMs: number;
+  connectionId?: string | number | null;
+  /** True when the result was served from the metadata cache. */
+  cached?: boolean;
+  outcome: AuditOutcome;
+  /** Error class from the bridge taxonomy, or policy-denied, invalid-params, ... */
+  errorClass?: string;
+  /** Correlation ID of the call, as logged and sent to the bridge in `X-Request-ID`. */
+  requestId?: string;
+}
+
+export interface AuditSink {
+  readonly name: string;
+  write(entry: AuditEntry): Promise<void>;
+}
+
+export interface RotatingFileSinkOptions {
+  path: string;
+  /** Rotate once the current file exceeds this size (defaults to 10 MB). */
+  maxBytes?: number;
+  /** Rotated files kept as path.1 ... path.N (defaults to 5). */
+  maxFiles?: number;
+}
+
+/** Append entries as JSON Lines, rotating `path` to `path.1`, `path.2`, ... */
+export function createRotatingFileSink({ path, maxBytes = 10 * 1024 * 1024, maxFiles = 5 }: RotatingFileSinkOptions): AuditSink {
+  let size: number | undefined;
+  // Serialise writes so rotation never races an append
+  let queue = Promise.resolve();
+
+  async function rotate() {
+    await rm(`${path}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await rename(`${path}.${index}`, `${path}.${index + 1}`).catch(() => undefined);
+    }
+    await rename(path, `${path}.1`).catch(() => undefined);
+    size = 0;
+  }
+
+  async function append(line: string) {
+    if (size === undefined) {
+      await mkdir(dirname(path), { recursive: true });
+      size = await stat(path).then((info) => info.size, () => 0);
+    }
+    if (size > 0 && size + Buffer.byteLength(line) > maxBytes) {
+      await rotate();
+    }
+    await appendFile(path, line, "utf8");
+    size += Buffer.byteLength(line);
+  }
+
+  return {
+    name: `file:${path}`,
+    write(entry) {
+      queue = queue.then(() => append(JSON.stringify(entry) + "\n"));
+      return queue;
+    }
+  };
+}
+
+/** Read back the last `limit` entries written by a file sink (current file only). */
+export async function readAuditFile(path: string, limit: number): Promise<AuditEntry[]> {
+  const text = await readFile(path, "utf8").catch(() => "");
+  return text
+    .split("\n")
+    .filter(Boolean)
+    .slice(-limit)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Send entries to a syslog server over UDP, e.g. `udp://logs.internal:514`.
+ * Facility 13 (log audit); failures get severity 4 (warning), others 6 (info).
+ */
+export function createSyslogSink(target: string, appName = "informix-mcp"): AuditSink {
+  const url = new URL(target);
+  if (url.protocol !== "udp:") {
+    throw new Error(`Unsupported syslog target '${target}': only udp:// is supported`);
+  }
+  const port = Number(url.port) || 514;
+  const host = hostname();
+  const socket = createSocket(url.hostname.includes(":") ? "udp6" : "udp4");
+  socket.unref();
+
+  return {
+    name: `syslog:${url.host}`,
+    write(entry) {
+      const severity = entry.outcome === "success" ? 6 : 4;
+      const message = `<${13 * 8 + severity}>1 ${entry.timestamp} ${host} ${appName} ${process.pid} audit - ${JSON.stringify(entry)}`;
+      return new Promise((resolve, reject) => {
+        socket.send(message, port, url.hostname, (error) => error ? reject(error) : resolve());
+      });
+    }
+  };
+}
+
+/** POST each entry as JSON to an HTTP collector. */
+export function createHttpSink(url: string, token?: string): AuditSink {
+  const http = axios.create({
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    timeout: 5000
+  });
+
+  return {
+    name: `http:${new URL(url).host}`,
+    async write(entry) {
+      await http.post(url, entry);
+    }
+  };
+}
+
+export interface AuditLog {
+  readonly sinks: readonly AuditSink[];
+  record(entry: AuditEntry): void;
+  /** Most recent entries first, optionally filtered. */
+  recent(filter?: { clientId?: string; tool?: string; limit?: number }): AuditEntry[];
+}
+
+export interface AuditLogOptions {
+  sinks: AuditSink[];
+  /** Entries kept in memory for `recent()` (defaults to 500). */
+  capacity?: number;
+  /** Entries to start with, e.g. read back from the audit file. */
+  initial?: AuditEntry[];
+}
+
+export function createAuditLog({ sinks, capacity = 500, initial = [] }: AuditLogOptions): AuditLog {
+  const entries: AuditEntry[] = initial.slice(-capacity);
+
+  return {
+    sinks,
+    record(entry) {
+      entries.push(entry);
+      if (entries.length > capacity) {
+        entries.shift();
+      }
+      for (const sink of sinks) {
+        sink.write(entry).catch((error) => {
+          logger.warn("Audit sink failed", { sink: sink.name, error });
+        });
+      }
+    },
+    recent({ clientId, tool, limit = 50 } = {}) {
+      return entries
+        .filter((entry) => (!clientId || entry.clientId === clientId) && (!tool || entry.tool === tool))
+        .slice(-limit)
+        .reverse();
+    }
+  };
+}
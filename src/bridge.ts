@@ -0,0 +1,438 @@
+import axios from "axios";
+import { z } from "zod";
+import {
+  CircuitBreakerOptions, CircuitStatus, ConcurrencyLimiterOptions, DEFAULT_CIRCUIT_BREAKER, DEFAULT_CONCURRENCY, DEFAULT_RETRY,
+  QueueFullError, RetryOptions, createCircuitBreaker, createConcurrencyLimiter, withRetry
+} from "./resilience.js";
+
+// Row shapes returned by the PHP API bridge for each predefined query.
+// Queries whose handlers read fields out of `results[0]` declare them here so a
+// malformed response is rejected before any tool tries to format it.
+const testConnectionRow = z.object({
+  current_time: z.unknown().optional(),
+  test_result: z.unknown().optional()
+}).passthrough();
+
+const databaseCountRow = z.object({
+  database_count: z.coerce.number()
+}).passthrough();
+
+const listDatabasesRow = z.object({
+  database_count: z.coerce.number(),
+  databases: z.array(z.object({ name: z.string() }).passthrough())
+}).passthrough();
+
+const listTablesRow = z.object({
+  table_count: z.coerce.number(),
+  tables: z.array(z.string())
+}).passthrough();
+
+// `coltype`/`collength` are the raw syscolumns values; when the bridge sends
+// them the server decodes the full declaration (see informix-types.ts).
+// `extended_id`/`extended_type` identify opaque and user-defined types.
+const tableColumn = z.object({
+  column_name: z.string(),
+  type_name: z.string(),
+  column_length: z.union([z.number(), z.string()]).nullable().optional(),
+  is_nullable: z.string(),
+  coltype: z.coerce.number().int().optional(),
+  collength: z.coerce.number().int().optional(),
+  extended_id: z.coerce.number().int().nullable().optional(),
+  extended_type: z.string().nullable().optional()
+}).passthrough();
+
+const tableSchemaRow = z.object({
+  columns: z.array(tableColumn)
+}).passthrough();
+
+const topRecordsRow = z.object({
+  records: z.array(z.record(z.unknown()))
+}).passthrough();
+
+// Constraint, index and foreign key rows come from sysconstraints, sysindexes
+// and sysreferences. Column lists are resolved to names by the bridge.
+const constraintRow = z.object({
+  constraint_name: z.string(),
+  /** P primary key, U unique, R foreign key, C check, N not null */
+  constraint_type: z.string(),
+  columns: z.array(z.string()).default([]),
+  referenced_table: z.string().nullable().optional(),
+  referenced_columns: z.array(z.string()).nullable().optional(),
+  check_text: z.string().nullable().optional()
+}).passthrough();
+
+const indexRow = z.object({
+  index_name: z.string(),
+  /** U unique, D duplicates allowed */
+  index_type: z.string(),
+  clustered: z.boolean().optional(),
+  columns: z.array(z.string())
+}).passthrough();
+
+const foreignKeyRow = z.object({
+  constraint_name: z.string(),
+  table: z.string(),
+  columns: z.array(z.string()),
+  referenced_table: z.string(),
+  referenced_columns: z.array(z.string()),
+  /** C cascade, R restrict */
+  delete_rule: z.string().nullable().optional()
+}).passthrough();
+
+// SET EXPLAIN output for a statement the bridge prepared but did not run
+const explainSelectRow = z.object({
+  plan: z.string()
+}).passthrough();
+
+const genericRow = z.record(z.unknown());
+
+/**
+ * Result schemas keyed by `queryName`. Summary queries return a single row in
+ * `results`, so they require at least one element.
+ */
+export const bridgeResultSchemas = {
+  "test-connection": z.array(testConnectionRow).nonempty(),
+  "get-database-count": z.array(databaseCountRow).nonempty(),
+  "list-databases": z.array(listDatabasesRow).nonempty(),
+  "list-tables": z.array(listTablesRow).nonempty(),
+  "get-table-schema": z.array(tableSchemaRow).nonempty(),
+  "get-top-records": z.array(topRecordsRow).nonempty(),
+  "get-object-type": z.array(genericRow),
+  "get-view-schema": z.array(genericRow),
+  "get-table-constraints": z.array(constraintRow),
+  "get-table-indexes": z.array(indexRow),
+  "get-foreign-keys": z.array(foreignKeyRow),
+  "run-select": z.array(genericRow),
+  "explain-select": z.array(explainSelectRow).nonempty()
+} as const;
+
+export type BridgeQueryName = keyof typeof bridgeResultSchemas;
+
+export type SqlParam = string | number | boolean | null;
+
+/** Parameters accepted by each predefined query on the PHP side. */
+export interface BridgeQueryParams {
+  "test-connection": Record<string, never>;
+  "get-database-count": Record<string, never>;
+  "list-databases": Record<string, never>;
+  "list-tables": { database?: string };
+  "get-table-schema": { tableName: string; database?: string };
+  /** `offset` rows are skipped (Informix SKIP) before the first record. */
+  "get-top-records": { tableName: string; database?: string; limit?: number; offset?: number };
+  "get-object-type": { objectName: string; database?: string };
+  "get-view-schema": { viewName: string; database?: string };
+  "get-table-constraints": { tableName: string; database?: string };
+  "get-table-indexes": { tableName: string; database?: string };
+  /** Foreign keys declared on `tableName` and those referencing it. */
+  "get-foreign-keys": { tableName: string; database?: string };
+  "run-select": { sql: string; params: SqlParam[]; database?: string };
+  /** Optimizer plan of `sql` (SET EXPLAIN ON AVOID_EXECUTE), without running it. */
+  "explain-select": { sql: string; params: SqlParam[]; database?: string };
+}
+
+export type TableColumn = z.infer<typeof tableColumn>;
+export type TableConstraint = z.infer<typeof constraintRow>;
+export type TableIndex = z.infer<typeof indexRow>;
+export type ForeignKey = z.infer<typeof foreignKeyRow>;
+
+export type BridgeResults<Q extends BridgeQueryName> = z.infer<(typeof bridgeResultSchemas)[Q]>;
+
+/** Successful response envelope, normalised to camelCase. */
+export interface BridgeResponse<Q extends BridgeQueryName> {
+  queryName: Q;
+  params: Record<string, unknown>;
+  results: BridgeResults<Q>;
+  executionTime: number | string | null;
+  connectionId: string | number | null;
+}
+
+const envelopeSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("success"),
+    data: z.object({
+      queryName: z.string().optional(),
+      params: z.unknown().optional(),
+      results: z.unknown(),
+      execution_time: z.union([z.number(), z.string()]).nullable().optional(),
+      connection_id: z.union([z.string(), z.number()]).nullable().optional()
+    })
+  }),
+  z.object({
+    status: z.literal("error"),
+    message: z.string().optional()
+  }).passthrough()
+]);
+
+/**
+ * Every failure talking to the bridge is reported as one of these kinds, so all
+ * tools describe the same problem with the same words.
+ */
+export type BridgeErrorKind =
+  | "auth"
+  | "forbidden"
+  | "bad-request"
+  | "server"
+  | "http"
+  | "connection-refused"
+  | "timeout"
+  | "network"
+  | "query-failed"
+  | "malformed-response"
+  | "circuit-open"
+  | "overloaded";
+
+export class BridgeError extends Error {
+  readonly kind: BridgeErrorKind;
+  readonly queryName: string;
+  readonly httpStatus?: number;
+
+  constructor(kind: BridgeErrorKind, message: string, queryName: string, httpStatus?: number) {
+    super(message);
+    this.name = "BridgeError";
+    this.kind = kind;
+    this.queryName = queryName;
+    this.httpStatus = httpStatus;
+  }
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+function toBridgeError(error: any, queryName: string): BridgeError {
+  if (error instanceof BridgeError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      // Server responded with error status
+      const status = error.response.status;
+      const data: any = error.response.data;
+
+      if (status === 401) {
+        return new BridgeError("auth", "Authentication failed - invalid API key", queryName, status);
+      } else if (status === 403) {
+        return new BridgeError("forbidden", "Access forbidden - check API key permissions", queryName, status);
+      } else if (status === 400) {
+        return new BridgeError("bad-request", `Bad request: ${data?.message || 'Invalid query or parameters'}`, queryName, status);
+      } else if (status >= 500) {
+        return new BridgeError("server", `Server error: ${data?.message || 'Internal server error'}`, queryName, status);
+      }
+      return new BridgeError("http", `HTTP ${status}: ${data?.message || 'Unknown error'}`, queryName, status);
+    } else if (error.code === 'ECONNREFUSED') {
+      return new BridgeError("connection-refused", "Connection refused - PHP API server is not running or not accessible", queryName);
+    } else if (error.code === 'ETIMEDOUT' || error.code === 'ECONNABORTED') {
+      return new BridgeError("timeout", "Request timed out - PHP API server took too long to respond", queryName);
+    }
+  }
+
+  return new BridgeError("network", `Network error: ${error?.message ?? String(error)}`, queryName);
+}
+
+// Failures that mean the bridge (or Informix behind it) is unavailable: they
+// count towards the circuit breaker, and the transient ones are retried
+const UNAVAILABLE_KINDS = new Set<BridgeErrorKind>(["connection-refused", "timeout", "server", "network"]);
+const RETRYABLE_KINDS = new Set<BridgeErrorKind>(["connection-refused", "timeout", "server"]);
+
+export interface BridgeClientOptions {
+  url: string;
+  apiKey: string;
+  /** Default request timeout in milliseconds (defaults to 30s). */
+  timeoutMs?: number;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreakerOptions;
+  concurrency?: ConcurrencyLimiterOptions;
+  /** Extra headers for each request, e.g. `X-Request-ID`; undefined values are left out. */
+  headers?: () => Record<string, string | undefined>;
+  /** Called when a request finishes, successfully or not, e.g. to record metrics. */
+  onRequest?: (event: BridgeRequestEvent) => void;
+}
+
+/** Outcome of one `query` or `queryAny` call, retries included. */
+export interface BridgeRequestEvent {
+  queryName: string;
+  /** From the call until the response was validated, queueing and backoff included. */
+  durationMs: number;
+  /** HTTP attempts made; 0 when failing fast (open circuit, full queue). */
+  attempts: number;
+  error?: BridgeError;
+}
+
+export interface BridgeRequestOptions {
+  timeoutMs?: number;
+  /**
+   * Retry transient failures with backoff. Defaults to true for the typed
+   * queries, which all only read; `queryAny` callers decide per query.
+   */
+  retry?: boolean;
+}
+
+/** Circuit breaker and concurrency state of a bridge client. */
+export interface BridgeHealth {
+  circuit: CircuitStatus;
+  inFlight: number;
+  queued: number;
+  maxInFlight: number;
+}
+
+export interface BridgeClient {
+  readonly url: string;
+  health(): BridgeHealth;
+  query<Q extends BridgeQueryName>(
+    queryName: Q,
+    params: BridgeQueryParams[Q],
+    options?: BridgeRequestOptions
+  ): Promise<BridgeResponse<Q>>;
+  /**
+   * Run a query known only at runtime (e.g. from the query catalog). Results
+   * are validated against `bridgeResultSchemas` when the name is known there,
+   * otherwise only as an array of rows.
+   */
+  queryAny(
+    queryName: string,
+    params: Record<string, unknown>,
+    options?: BridgeRequestOptions
+  ): Promise<BridgeResponse<BridgeQueryName> | UntypedBridgeResponse>;
+}
+
+/** Response for a query that has no typed result schema. */
+export interface UntypedBridgeResponse extends Omit<BridgeResponse<BridgeQueryName>, "queryName" | "results"> {
+  queryName: string;
+  results: Record<string, unknown>[];
+}
+
+function isBridgeQueryName(queryName: string): queryName is BridgeQueryName {
+  return Object.prototype.hasOwnProperty.call(bridgeResultSchemas, queryName);
+}
+
+/**
+ * Create the client used by every tool and resource to call one PHP API
+ * bridge. Requests wait for a free slot, fail fast while the circuit is open
+ * and retry transient failures. Responses are validated against
+ * `bridgeResultSchemas`; any failure is thrown as a `BridgeError`.
+ */
+export function createBridgeClient({
+  url,
+  apiKey,
+  timeoutMs = 30000,
+  retry = DEFAULT_RETRY,
+  circuitBreaker = DEFAULT_CIRCUIT_BREAKER,
+  concurrency = DEFAULT_CONCURRENCY,
+  headers,
+  onRequest
+}: BridgeClientOptions): BridgeClient {
+  const http = axios.create({
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-KEY': apiKey
+    },
+    timeout: timeoutMs
+  });
+
+  const breaker = createCircuitBreaker(circuitBreaker);
+  const limiter = createConcurrencyLimiter(concurrency);
+
+  const circuitOpen = (queryName: string) => new BridgeError("circuit-open",
+    `Circuit open - the PHP API bridge failed ${breaker.status().consecutiveFailures} times in a row; ` +
+    `failing fast until ${breaker.status().retryAt}`, queryName);
+
+  // One HTTP attempt, counted by the circuit breaker
+  async function post(queryName: string, params: object, options: BridgeRequestOptions, attempted: () => void): Promise<unknown> {
+    if (breaker.status().state === "open") {
+      throw circuitOpen(queryName);
+    }
+    try {
+      return await limiter.run(async () => {
+        if (!breaker.allow()) {
+          throw circuitOpen(queryName);
+        }
+        attempted();
+        try {
+          const extra = Object.entries(headers?.() ?? {}).filter((entry): entry is [string, string] => entry[1] !== undefined);
+          const response = await http.post(url, { queryName, params }, {
+            timeout: options.timeoutMs ?? timeoutMs,
+            headers: Object.fromEntries(extra)
+          });
+          breaker.success();
+          return response.data;
+        } catch (error) {
+          const bridgeError = toBridgeError(error, queryName);
+          // Rejected requests say nothing about whether the bridge is healthy
+          if (UNAVAILABLE_KINDS.has(bridgeError.kind)) {
+            breaker.failure();
+          } else {
+            breaker.release();
+          }
+          throw bridgeError;
+        }
+      });
+    } catch (error) {
+      if (error instanceof QueueFullError) {
+        throw new BridgeError("overloaded", `Too many concurrent requests to the PHP API bridge (${error.message})`, queryName);
+      }
+      throw error;
+    }
+  }
+
+  async function request(queryName: string, params: object, options: BridgeRequestOptions) {
+    const startedAt = Date.now();
+    let attempts = 0;
+    try {
+      const response = await validated(queryName, params, options, () => attempts++);
+      onRequest?.({ queryName, durationMs: Date.now() - startedAt, attempts });
+      return response;
+    } catch (error) {
+      const bridgeError = toBridgeError(error, queryName);
+      onRequest?.({ queryName, durationMs: Date.now() - startedAt, attempts, error: bridgeError });
+      throw bridgeError;
+    }
+  }
+
+  // Send with retries, then check the envelope and the rows
+  async function validated(queryName: string, params: object, options: BridgeRequestOptions, attempted: () => void) {
+    const body = await withRetry(
+      () => post(queryName, params, options, attempted),
+      (options.retry ?? isBridgeQueryName(queryName)) ? retry : { ...retry, retries: 0 },
+      (error) => error instanceof BridgeError && RETRYABLE_KINDS.has(error.kind)
+    );
+
+    const envelope = envelopeSchema.safeParse(body);
+    if (!envelope.success) {
+      throw new BridgeError("malformed-response", `Malformed bridge response: ${describeIssues(envelope.error)}`, queryName);
+    }
+    if (envelope.data.status === "error") {
+      throw new BridgeError("query-failed", `Query failed: ${envelope.data.message || 'Unknown error'}`, queryName);
+    }
+
+    const data = envelope.data.data;
+    const schema = isBridgeQueryName(queryName) ? bridgeResultSchemas[queryName] : z.array(genericRow);
+    const results = schema.safeParse(data.results);
+    if (!results.success) {
+      throw new BridgeError("malformed-response", `Malformed bridge response for '${queryName}': ${describeIssues(results.error)}`, queryName);
+    }
+
+    return {
+      queryName,
+      params: (data.params && typeof data.params === "object" ? data.params : params) as Record<string, unknown>,
+      results: results.data,
+      executionTime: data.execution_time ?? null,
+      connectionId: data.connection_id ?? null
+    };
+  }
+
+  return {
+    url,
+    health() {
+      return { circuit: breaker.status(), inFlight: limiter.inFlight(), queued: limiter.queued(), maxInFlight: limiter.maxInFlight };
+    },
+    async query(queryName, params, options = {}) {
+      return await request(queryName, params, options) as BridgeResponse<typeof queryName>;
+    },
+    async queryAny(queryName, params, options = {}) {
+      return await request(queryName, params, options) as UntypedBridgeResponse;
+    }
+  };
+}
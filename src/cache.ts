@@ -0,0 +1,216 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { logger } from "./logger.js";
+
+// Cache for near-static catalog metadata (database and table lists, schemas,
+// object types, keys and indexes) and for table profiles. Entries are keyed on query name, connection
+// profile, database and object name and expire after a per-query TTL. With a
+// cache file, entries survive restarts: the file is read once at startup and
+// rewritten after every change.
+//
+// Results are cached as the bridge returned them; policy filtering and
+// formatting happen per call on top of the cached value. Table profiles are
+// the exception: they are cached after redaction, so no raw values are kept.
+
+/** Default time-to-live in seconds per cacheable bridge query. */
+export const DEFAULT_CACHE_TTLS: Readonly<Record<string, number>> = {
+  "list-databases": 3600,
+  "list-tables": 600,
+  "get-table-schema": 1800,
+  "get-object-type": 1800,
+  "get-view-schema": 1800,
+  "get-table-constraints": 1800,
+  "get-table-indexes": 1800,
+  "get-foreign-keys": 1800,
+  "profile-table": 600
+};
+
+export interface CacheKey {
+  queryName: string;
+  profile?: string;
+  database?: string;
+  /** Table, view or other object the query describes. */
+  object?: string;
+}
+
+export interface CacheStatus {
+  hit: boolean;
+  /** Seconds since the entry was loaded from the bridge. */
+  ageSeconds: number;
+  ttlSeconds: number;
+}
+
+/** Entries to drop: every given field must match. */
+export interface CacheFilter extends Partial<CacheKey> {
+  /** Only entries of one of these databases, or of no database (such as the database list). */
+  databases?: string[];
+}
+
+interface CacheEntry extends CacheKey {
+  storedAt: number;
+  value: unknown;
+}
+
+interface PendingLoad {
+  promise: Promise<unknown>;
+  /** Invalidations before the load started; a later one discards its result. */
+  generation: number;
+}
+
+export interface MetadataCache {
+  /** Cache file path, or undefined when the cache is memory-only. */
+  readonly file?: string;
+  readonly ttls: Readonly<Record<string, number>>;
+  isCacheable(queryName: string): boolean;
+  /** Return the cached value for `key`, or call `load` and cache its result. */
+  get<T>(key: CacheKey, load: () => Promise<T>): Promise<{ value: T; cache: CacheStatus }>;
+  /**
+   * Drop every entry matching `filter`; returns how many were dropped. Loads
+   * already running when this is called are not cached.
+   */
+  invalidate(filter?: CacheFilter): number;
+  stats(): { entries: number; hits: number; misses: number };
+}
+
+/**
+ * Parse `METADATA_CACHE_TTLS`: comma-separated `queryName=seconds` pairs that
+ * override the defaults. A TTL of 0 disables caching for that query.
+ */
+export function parseCacheTtls(value: string | undefined): Record<string, number> {
+  const ttls = { ...DEFAULT_CACHE_TTLS };
+  for (const entry of (value ?? "").split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [queryName, seconds] = entry.split("=", 2).map((part) => part.trim());
+    if (!(queryName in DEFAULT_CACHE_TTLS)) {
+      throw new Error(`Unknown cacheable query '${queryName}' (expected one of: ${Object.keys(DEFAULT_CACHE_TTLS).join(", ")})`);
+    }
+    if (!/^\d+$/.test(seconds ?? "")) {
+      throw new Error(`Invalid TTL for '${queryName}': expected a whole number of seconds`);
+    }
+    ttls[queryName] = Number(seconds);
+  }
+  return ttls;
+}
+
+function normalize(name: string | undefined): string {
+  return (name ?? "").toLowerCase();
+}
+
+function keyOf({ queryName, profile, database, object }: CacheKey): string {
+  return [queryName, normalize(profile), normalize(database), normalize(object)].join("|");
+}
+
+export interface MetadataCacheOptions {
+  ttls?: Record<string, number>;
+  file?: string;
+}
+
+/**
+ * Create the metadata cache, restoring unexpired entries from `file` when it
+ * exists.
+ */
+export async function createMetadataCache({ ttls = { ...DEFAULT_CACHE_TTLS }, file }: MetadataCacheOptions = {}): Promise<MetadataCache> {
+  const entries = new Map<string, CacheEntry>();
+  const pending = new Map<string, PendingLoad>();
+  let generation = 0;
+  let hits = 0;
+  let misses = 0;
+
+  const ttlOf = (queryName: string) => ttls[queryName] ?? 0;
+  const isFresh = (entry: CacheEntry) => Date.now() - entry.storedAt < ttlOf(entry.queryName) * 1000;
+
+  if (file) {
+    const text = await readFile(file, "utf8").catch((error) => {
+      if (error.code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    });
+    const saved: CacheEntry[] = text ? JSON.parse(text).entries ?? [] : [];
+    for (const entry of saved) {
+      if (isFresh(entry)) {
+        entries.set(keyOf(entry), entry);
+      }
+    }
+  }
+
+  // Rewrite the whole file after each change; writes are serialised and go
+  // through a temporary file so a crash never leaves a truncated cache.
+  let persisting = Promise.resolve();
+  function persist() {
+    if (!file) {
+      return;
+    }
+    const snapshot = JSON.stringify({ version: 1, entries: [...entries.values()] });
+    persisting = persisting
+      .then(async () => {
+        await mkdir(dirname(file), { recursive: true });
+        await writeFile(`${file}.tmp`, snapshot, "utf8");
+        await rename(`${file}.tmp`, file);
+      })
+      .catch((error) => {
+        logger.warn("Failed to write metadata cache", { file, error });
+      });
+  }
+
+  return {
+    file,
+    ttls,
+    isCacheable(queryName) {
+      return ttlOf(queryName) > 0;
+    },
+    async get<T>(key: CacheKey, load: () => Promise<T>) {
+      const ttlSeconds = ttlOf(key.queryName);
+      const id = keyOf(key);
+      const entry = entries.get(id);
+      if (entry && isFresh(entry)) {
+        hits++;
+        return {
+          value: entry.value as T,
+          cache: { hit: true, ageSeconds: Math.floor((Date.now() - entry.storedAt) / 1000), ttlSeconds }
+        };
+      }
+
+      misses++;
+      // Concurrent misses for the same key share one bridge call, unless the
+      // cache was invalidated after that call started
+      let loading = pending.get(id);
+      if (!loading || loading.generation !== generation) {
+        loading = { promise: load(), generation };
+        pending.set(id, loading);
+      }
+      try {
+        const value = await loading.promise as T;
+        if (ttlSeconds > 0 && pending.get(id) === loading && loading.generation === generation) {
+          entries.set(id, { ...key, storedAt: Date.now(), value });
+          persist();
+        }
+        return { value, cache: { hit: false, ageSeconds: 0, ttlSeconds } };
+      } finally {
+        if (pending.get(id) === loading) {
+          pending.delete(id);
+        }
+      }
+    },
+    invalidate(filter = {}) {
+      generation++;
+      let dropped = 0;
+      for (const [id, entry] of entries) {
+        if ((!filter.queryName || entry.queryName === filter.queryName) &&
+            (!filter.profile || normalize(entry.profile) === normalize(filter.profile)) &&
+            (!filter.database || normalize(entry.database) === normalize(filter.database)) &&
+            (!filter.databases || !entry.database || filter.databases.some((database) => normalize(database) === normalize(entry.database))) &&
+            (!filter.object || normalize(entry.object) === normalize(filter.object))) {
+          entries.delete(id);
+          dropped++;
+        }
+      }
+      if (dropped > 0) {
+        persist();
+      }
+      return dropped;
+    },
+    stats() {
+      return { entries: entries.size, hits, misses };
+    }
+  };
+}
@@ -0,0 +1,221 @@
+import { z } from "zod";
+import type { BridgeClient } from "./bridge.js";
+import { parseConfig, readConfigFile } from "./config-file.js";
+import { logger } from "./logger.js";
+
+// The query catalog is the single source of truth for which predefined queries
+// `query-informix` accepts, how their parameters look and how they are
+// documented in `info://queries`. It is loaded once at startup.
+
+const parameterSpecSchema = z.object({
+  type: z.enum(["string", "integer", "number", "boolean"]),
+  required: z.boolean().default(false),
+  description: z.string().optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  // "identifier" enforces Informix naming rules; "database" restricts the value
+  // to the configured database list.
+  format: z.enum(["identifier", "database"]).optional(),
+  enum: z.array(z.string()).optional(),
+  maxLength: z.number().int().positive().optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional()
+});
+
+const catalogQuerySchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9-]*$/, "Query names must be lower-case kebab-case"),
+  description: z.string(),
+  parameters: z.record(parameterSpecSchema).default({}),
+  example: z.record(z.unknown()).optional(),
+  useCase: z.string().optional(),
+  // Queries that change data must set this to false; read-only profiles
+  // refuse them.
+  readOnly: z.boolean().optional()
+});
+
+const catalogFileSchema = z.object({
+  queries: z.array(catalogQuerySchema).min(1)
+});
+
+export type ParameterSpec = z.infer<typeof parameterSpecSchema>;
+export type CatalogQuery = z.infer<typeof catalogQuerySchema>;
+
+export interface QueryCatalog {
+  /** Where the catalog came from: a file path, "bridge" or "built-in". */
+  source: string;
+  queries: CatalogQuery[];
+}
+
+// Query names that must never be reachable through `query-informix`.
+const RESERVED_QUERY_NAMES = new Set(["run-select", "explain-select", "list-queries"]);
+
+const databaseParameter: ParameterSpec = {
+  type: "string",
+  required: false,
+  description: "Database name",
+  default: "eadmin",
+  format: "database"
+};
+
+/** Catalog used when neither a catalog file nor the bridge provides one. */
+export const DEFAULT_QUERY_CATALOG: CatalogQuery[] = [
+  {
+    name: "test-connection",
+    description: "Test database connection and verify server is responding",
+    parameters: {},
+    example: {},
+    useCase: "Verify the MCP server can connect to the database"
+  },
+  {
+    name: "list-databases",
+    description: "Get a list of all user databases in the Informix instance",
+    parameters: {},
+    example: {},
+    useCase: "Discover available databases before querying specific ones"
+  },
+  {
+    name: "get-database-count",
+    description: "Get the count of user databases (excluding system databases)",
+    parameters: {},
+    example: {},
+    useCase: "Quick overview of how many databases are available"
+  },
+  {
+    name: "list-tables",
+    description: "Get a list of all tables in a specific database",
+    parameters: { database: databaseParameter },
+    example: { database: "eadmin" },
+    useCase: "Discover available tables before querying their schema or data"
+  },
+  {
+    name: "get-table-schema",
+    description: "Get detailed column information for a specific table",
+    parameters: {
+      tableName: { type: "string", required: true, description: "Table name", format: "identifier" },
+      database: databaseParameter
+    },
+    example: { tableName: "users", database: "eadmin" },
+    useCase: "Understand table structure before writing queries or analyzing data"
+  },
+  {
+    name: "get-top-records",
+    description: "Get sample records from a specific table",
+    parameters: {
+      tableName: { type: "string", required: true, description: "Table name", format: "identifier" },
+      database: databaseParameter,
+      limit: { type: "integer", required: false, description: "Number of records to return", default: 10, minimum: 1, maximum: 1000 },
+      offset: { type: "integer", required: false, description: "Number of records to skip (Informix SKIP) before the first one returned", minimum: 0 }
+    },
+    example: { tableName: "users", database: "eadmin", limit: 5 },
+    useCase: "Examine sample data to understand content and structure"
+  },
+  {
+    name: "get-object-type",
+    description: "Get the type of a database object (table, view, synonym, etc.)",
+    parameters: {
+      objectName: { type: "string", required: true, description: "Object name", format: "identifier" },
+      database: databaseParameter
+    },
+    example: { objectName: "users", database: "eadmin" },
+    useCase: "Determine what type of object you're working with"
+  },
+  {
+    name: "get-view-schema",
+    description: "Get the definition of a database view",
+    parameters: {
+      viewName: { type: "string", required: true, description: "View name", format: "identifier" },
+      database: databaseParameter
+    },
+    example: { viewName: "user_summary", database: "eadmin" },
+    useCase: "Understand how a view is constructed and what data it contains"
+  },
+  {
+    name: "get-table-constraints",
+    description: "Get the primary key, unique, foreign key and check constraints of a table",
+    parameters: {
+      tableName: { type: "string", required: true, description: "Table name", format: "identifier" },
+      database: databaseParameter
+    },
+    example: { tableName: "users", database: "eadmin" },
+    useCase: "Find key columns and the rules a table's data must satisfy"
+  },
+  {
+    name: "get-table-indexes",
+    description: "Get the indexes of a table with their columns and uniqueness",
+    parameters: {
+      tableName: { type: "string", required: true, description: "Table name", format: "identifier" },
+      database: databaseParameter
+    },
+    example: { tableName: "users", database: "eadmin" },
+    useCase: "Choose filter and join columns that can use an index"
+  },
+  {
+    name: "get-foreign-keys",
+    description: "Get the foreign keys declared on a table and the foreign keys that reference it",
+    parameters: {
+      tableName: { type: "string", required: true, description: "Table name", format: "identifier" },
+      database: databaseParameter
+    },
+    example: { tableName: "users", database: "eadmin" },
+    useCase: "Discover join columns between related tables"
+  }
+];
+
+function buildCatalog(source: string, input: z.output<typeof catalogFileSchema>): QueryCatalog {
+  const seen = new Set<string>();
+  const queries = input.queries.filter((query) => {
+    if (RESERVED_QUERY_NAMES.has(query.name)) {
+      logger.warn("Ignoring reserved query name in catalog", { queryName: query.name, source });
+      return false;
+    }
+    if (seen.has(query.name)) {
+      throw new Error(`Invalid query catalog from ${source}: duplicate query '${query.name}'`);
+    }
+    seen.add(query.name);
+    return true;
+  });
+
+  return { source, queries };
+}
+
+export interface LoadQueryCatalogOptions {
+  /** Path to a local JSON or YAML catalog; takes precedence over the bridge. */
+  file?: string;
+  bridge: BridgeClient;
+}
+
+/**
+ * Load the query catalog from `file` if given, otherwise from the bridge's
+ * `list-queries` query. If the bridge cannot provide one, fall back to
+ * `DEFAULT_QUERY_CATALOG` so the server still starts.
+ */
+export async function loadQueryCatalog({ file, bridge }: LoadQueryCatalogOptions): Promise<QueryCatalog> {
+  if (file) {
+    return buildCatalog(file, await readConfigFile(file, catalogFileSchema, "query catalog"));
+  }
+
+  try {
+    const response = await bridge.queryAny("list-queries", {});
+    return buildCatalog("bridge", parseConfig({ queries: response.results }, catalogFileSchema, "query catalog from bridge"));
+  } catch (error: any) {
+    logger.warn("Could not load query catalog from bridge; using built-in catalog", { error });
+    return buildCatalog("built-in", { queries: DEFAULT_QUERY_CATALOG });
+  }
+}
+
+/** Human-readable parameter description used in `info://queries`. */
+export function describeParameter(spec: ParameterSpec): string {
+  const qualifiers = [spec.required ? "required" : "optional"];
+  if (spec.format) {
+    qualifiers.push(spec.format === "database" ? "configured database name" : "Informix identifier");
+  }
+  if (spec.minimum !== undefined || spec.maximum !== undefined) {
+    qualifiers.push(`${spec.minimum ?? "-∞"}..${spec.maximum ?? "∞"}`);
+  }
+  if (spec.enum) {
+    qualifiers.push(`one of ${spec.enum.join("|")}`);
+  }
+  if (spec.default !== undefined) {
+    qualifiers.push(`defaults to ${JSON.stringify(spec.default)}`);
+  }
+  return `${spec.type} (${qualifiers.join(", ")})${spec.description ? ` - ${spec.description}` : ""}`;
+}
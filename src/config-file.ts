@@ -0,0 +1,27 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+/**
+ * Read a JSON or YAML configuration file (chosen by extension) and validate it
+ * against `schema`. Throws an Error naming the file and every invalid field.
+ */
+export async function readConfigFile<T extends z.ZodTypeAny>(path: string, schema: T, label: string): Promise<z.output<T>> {
+  const text = await readFile(path, "utf8");
+  const extension = extname(path).toLowerCase();
+  const input = extension === ".yaml" || extension === ".yml" ? parseYaml(text) : JSON.parse(text);
+  return parseConfig(input, schema, `${label} in ${path}`);
+}
+
+/** Validate already-parsed configuration, e.g. a catalog returned by the bridge. */
+export function parseConfig<T extends z.ZodTypeAny>(input: unknown, schema: T, label: string): z.output<T> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid ${label}: ${issues}`);
+  }
+  return parsed.data;
+}
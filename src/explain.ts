@@ -0,0 +1,205 @@
+// Parser for the optimizer plans Informix writes with SET EXPLAIN, as returned
+// by the bridge's `explain-select` query, and the warnings `explain-query`
+// derives from them. A plan looks like:
+//
+//   Estimated Cost: 52
+//   Estimated # of Rows Returned: 10
+//   Temporary Files Required For: Order By
+//
+//     1) informix.e: SEQUENTIAL SCAN
+//
+//           Filters: informix.e.active = 'Y'
+//
+//     2) informix.d: INDEX PATH
+//
+//       (1) Index Name: informix.ix_department_pk
+//           Index Keys: id   (Serial, fragments: ALL)
+//           Lower Index Filter: informix.d.id = informix.e.dept_id
+//   NESTED LOOP JOIN
+//
+// Subquery sections are indented below the step that uses them.
+
+export interface PlanJoin {
+  /** As printed, e.g. `NESTED LOOP JOIN` or `DYNAMIC HASH JOIN (Build Outer)`. */
+  method: string;
+  /** Hash or merge join conditions. */
+  filters: string[];
+}
+
+export interface PlanStep {
+  /** Position in the join order, from 1. */
+  step: number;
+  /** Table or alias the plan names, without the owner. */
+  table: string;
+  owner?: string;
+  /** As printed, e.g. `SEQUENTIAL SCAN`, `INDEX PATH`, `AUTOINDEX PATH` or `REMOTE PATH`. */
+  accessPath: string;
+  index?: string;
+  indexKeys: string[];
+  /** Whether the index alone answers the query, without reading rows. */
+  keyOnly: boolean;
+  /** Lower and upper index filters, i.e. the conditions the index is searched with. */
+  indexFilters: string[];
+  /** Conditions checked on each row read. */
+  filters: string[];
+  /** How the table is joined to the steps before it. */
+  join?: PlanJoin;
+}
+
+export interface SubqueryPlan {
+  estimatedCost?: number;
+  estimatedRows?: number;
+  temporaryFiles: string[];
+  steps: PlanStep[];
+}
+
+export interface QueryPlan extends SubqueryPlan {
+  /** Every subquery, nested ones included, in the order they appear. */
+  subqueries: SubqueryPlan[];
+}
+
+const STEP = /^\s*(\d+)\)\s+(?:([\w$]+)\.)?([\w$]+):\s+([A-Z][A-Z -]*[A-Z])/;
+const JOIN = /^\s*((?:NESTED LOOP|DYNAMIC HASH|SORT MERGE|MERGE) JOIN.*?)\s*$/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const withoutOwner = (name: string) => name.slice(name.lastIndexOf(".") + 1);
+
+// Parse the lines of one plan or subquery from `start` until a line indented
+// less than `indent`; returns the index of the first line not consumed
+function parseSection(lines: string[], start: number, indent: number, subqueries: SubqueryPlan[]): [SubqueryPlan, number] {
+  const plan: SubqueryPlan = { temporaryFiles: [], steps: [] };
+  // List a wrapped filter continues on the next line
+  let continued: string[] | undefined;
+  let i = start;
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    const text = line.trim();
+    if (text === "") {
+      continued = undefined;
+      continue;
+    }
+    if (indentOf(line) < indent || /^Query statistics:/i.test(text)) {
+      break;
+    }
+    const step = plan.steps[plan.steps.length - 1];
+    let match: RegExpExecArray | null;
+
+    if (/^QUERY:/.test(text)) {
+      // The statement follows, up to the next blank line
+      while (i + 1 < lines.length && lines[i + 1].trim() !== "") {
+        i++;
+      }
+    } else if (/^Subquery:$/.test(text)) {
+      const next = i + 1 < lines.length && /^-+$/.test(lines[i + 1].trim()) ? i + 2 : i + 1;
+      // Keep the slot before parsing, so nested subqueries come after this one
+      const slot = subqueries.push({ temporaryFiles: [], steps: [] }) - 1;
+      const [subquery, end] = parseSection(lines, next, indentOf(line), subqueries);
+      subqueries[slot] = subquery;
+      i = end - 1;
+      continued = undefined;
+    } else if ((match = /^Estimated Cost:\s*(\d+)/.exec(text))) {
+      plan.estimatedCost = Number(match[1]);
+    } else if ((match = /^Estimated # of Rows Returned:\s*(\d+)/.exec(text))) {
+      plan.estimatedRows = Number(match[1]);
+    } else if ((match = /^Temporary Files Required For:\s*(.+)$/.exec(text))) {
+      plan.temporaryFiles = match[1].split(/\s{2,}|,\s*/).map((item) => item.trim()).filter(Boolean);
+    } else if ((match = STEP.exec(line))) {
+      plan.steps.push({
+        step: Number(match[1]),
+        table: match[3],
+        ...(match[2] && { owner: match[2] }),
+        accessPath: match[4],
+        indexKeys: [],
+        keyOnly: false,
+        indexFilters: [],
+        filters: []
+      });
+      continued = undefined;
+    } else if ((match = JOIN.exec(line)) && step) {
+      step.join = { method: match[1], filters: [] };
+      continued = undefined;
+    } else if ((match = /^\(\d+\)\s+Index Name:\s*(\S+)/.exec(text)) && step) {
+      step.index = withoutOwner(match[1]);
+      continued = undefined;
+    } else if ((match = /^Index Keys:\s*(.+)$/.exec(text)) && step) {
+      step.indexKeys = match[1].split("(")[0].trim().split(/\s+/).filter(Boolean);
+      step.keyOnly = /\(Key-Only\)/i.test(match[1]);
+      continued = undefined;
+    } else if ((match = /^(?:Lower|Upper) Index Filter:\s*(.+)$/.exec(text)) && step) {
+      step.indexFilters.push(match[1]);
+      continued = step.indexFilters;
+    } else if ((match = /^(?:Dynamic Hash|Merge) Filters:\s*(.+)$/.exec(text)) && step?.join) {
+      step.join.filters.push(match[1]);
+      continued = step.join.filters;
+    } else if ((match = /^Filters:\s*(.+)$/.exec(text)) && step) {
+      step.filters.push(match[1]);
+      continued = step.filters;
+    } else if (continued && continued.length > 0) {
+      continued[continued.length - 1] += ` ${text}`;
+    }
+  }
+
+  return [plan, i];
+}
+
+/**
+ * Parse SET EXPLAIN output. Only the first QUERY section is read; the query
+ * statistics Informix appends after running a statement are ignored.
+ */
+export function parseExplain(text: string): QueryPlan {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const subqueries: SubqueryPlan[] = [];
+  const queries = lines.flatMap((line, index) => /^\s*QUERY:/.test(line) ? [index] : []);
+  const end = queries[1] ?? lines.length;
+  const [plan] = parseSection(lines.slice(0, end), 0, 0, subqueries);
+  return { ...plan, subqueries };
+}
+
+/** A table of the statement, for a step naming it or its alias. */
+export interface PlanTable {
+  /** Name to show, e.g. `employee` or `auditdb:employee_audit`. */
+  name: string;
+  /** Row count from the table statistics (systables.nrows), when known. */
+  rows?: number;
+}
+
+export interface PlanWarningOptions {
+  /** Table for the name a step uses; undefined when not known. */
+  tableOf(name: string): PlanTable | undefined;
+  /** Tables of at least this many rows count as large. */
+  largeTableRows: number;
+  /** Estimated cost above which `run-select` refuses a statement, if set. */
+  maxCost?: number;
+}
+
+/**
+ * Warnings about a plan: sequential scans of large tables, temporary indexes,
+ * large sorts in temporary files and a cost above the configured maximum.
+ */
+export function planWarnings(plan: QueryPlan, { tableOf, largeTableRows, maxCost }: PlanWarningOptions): string[] {
+  const warnings: string[] = [];
+  if (maxCost !== undefined && plan.estimatedCost !== undefined && plan.estimatedCost > maxCost) {
+    warnings.push(`Estimated cost ${plan.estimatedCost} is above the configured maximum of ${maxCost}; 'run-select' refuses this statement`);
+  }
+
+  for (const [index, section] of [plan, ...plan.subqueries].entries()) {
+    const where = index === 0 ? "" : ` in subquery ${index}`;
+    for (const step of section.steps) {
+      const table = tableOf(step.table);
+      const name = table?.name ?? step.table;
+      if (step.accessPath.startsWith("SEQUENTIAL SCAN") && table?.rows !== undefined && table.rows >= largeTableRows) {
+        warnings.push(`Sequential scan on large table '${name}' (${table.rows} rows)${where}` +
+          (step.filters.length ? `; an index on the filtered columns may help: ${step.filters.join(" AND ")}` : "; no filter limits the rows read"));
+      }
+      if (step.accessPath.startsWith("AUTOINDEX PATH")) {
+        warnings.push(`Informix builds a temporary index on '${name}' for every run${where}; a permanent index on its join columns avoids this`);
+      }
+    }
+    if (section.temporaryFiles.length > 0 && (section.estimatedRows ?? 0) >= largeTableRows) {
+      warnings.push(`About ${section.estimatedRows} rows are sorted in temporary files for ${section.temporaryFiles.join(", ")}${where}`);
+    }
+  }
+  return warnings;
+}
@@ -0,0 +1,194 @@
+import { open, rename, stat, unlink } from "node:fs/promises";
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from "hyparquet-writer";
+import { csvRecord } from "./output.js";
+import { columnKind } from "./profiling.js";
+
+// Export files for `export-table`: rows are appended page by page to
+// `<name>.partial` and the file is renamed into place once the last page is
+// written, so a file in the export directory is always complete. A failed or
+// cancelled export leaves nothing behind.
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "parquet"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Names of finished export files, as served by the `export://{file}` resource. */
+export const EXPORT_FILE_NAME = /^[\w.-]+\.(csv|ndjson|parquet)$/;
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+  parquet: "application/vnd.apache.parquet"
+};
+
+export interface ExportColumn {
+  name: string;
+  /** Declaration, e.g. `DECIMAL(12,2)`; decides the Parquet column type. */
+  type: string;
+  /** Masked, hashed or bucketed values are strings whatever the declaration. */
+  redacted?: boolean;
+}
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+export interface ExportFile {
+  /** Rows written so far. */
+  readonly rows: number;
+  write(rows: Record<string, unknown>[]): Promise<void>;
+  /** Write what is buffered, close the file and move it into place; returns its size in bytes. */
+  finish(): Promise<number>;
+  /** Close and delete the partial file. */
+  abort(): Promise<void>;
+}
+
+type ParquetType = "INT64" | "DOUBLE" | "BOOLEAN" | "STRING";
+
+const INTEGER_TYPE = /^(SMALLINT|INTEGER|INT|SERIAL|INT8|SERIAL8|BIGINT|BIGSERIAL)\b/i;
+
+// Rows buffered into one Parquet row group
+const PARQUET_ROW_GROUP = 10000;
+
+/**
+ * Parquet type for an Informix declaration: integers as INT64, other numbers
+ * as DOUBLE, BOOLEAN as BOOLEAN and everything else, including dates, as
+ * strings in the form the bridge sends them.
+ */
+export function parquetType(type: string): ParquetType {
+  if (INTEGER_TYPE.test(type.trim())) {
+    return "INT64";
+  }
+  switch (columnKind(type)) {
+    case "numeric":
+      return "DOUBLE";
+    case "boolean":
+      return "BOOLEAN";
+    default:
+      return "STRING";
+  }
+}
+
+function parquetValue(type: ParquetType, column: string, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const invalid = () => new ExportError(`Column '${column}': ${JSON.stringify(value)} is not a valid ${type} value`);
+  switch (type) {
+    case "INT64":
+      try {
+        return typeof value === "bigint" ? value : BigInt(typeof value === "number" ? value : String(value).trim());
+      } catch {
+        throw invalid();
+      }
+    case "DOUBLE": {
+      const number = typeof value === "number" ? value : Number(String(value).trim());
+      if (String(value).trim() === "" || !Number.isFinite(number)) {
+        throw invalid();
+      }
+      return number;
+    }
+    case "BOOLEAN":
+      if (value === true || /^(t|true|1)$/i.test(String(value))) {
+        return true;
+      }
+      if (value === false || /^(f|false|0)$/i.test(String(value))) {
+        return false;
+      }
+      throw invalid();
+    case "STRING":
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Open `path` for an export of `columns` in `format`. Rows are read by column
+ * name; other fields are ignored.
+ */
+export async function createExportFile(path: string, format: ExportFormat, columns: ExportColumn[]): Promise<ExportFile> {
+  const partial = `${path}.partial`;
+  const handle = await open(partial, "w");
+  let rows = 0;
+
+  if (format === "parquet") {
+    // Each row group is appended to the file once encoded, not kept in memory
+    const bytes = new ByteWriter();
+    const drain = async () => {
+      await handle.write(bytes.getBytes());
+      bytes.index = 0;
+    };
+    const types = columns.map((column) => column.redacted ? "STRING" : parquetType(column.type));
+    const sources = columns.map((column, index) => ({ name: column.name, type: types[index], nullable: true }));
+    const writer = new ParquetWriter({
+      writer: Object.assign(bytes, { flush: drain }),
+      schema: schemaFromColumnData({ columnData: sources.map((source) => ({ ...source, data: [] })) })
+    });
+    let buffered: Record<string, unknown>[] = [];
+    const flush = async () => {
+      if (buffered.length === 0) {
+        return;
+      }
+      const columnData = sources.map((source, index) => ({
+        ...source,
+        data: buffered.map((row) => parquetValue(types[index], source.name, row[source.name]))
+      }));
+      buffered = [];
+      await writer.write({ columnData, rowGroupSize: PARQUET_ROW_GROUP });
+    };
+    return {
+      get rows() {
+        return rows;
+      },
+      async write(page) {
+        buffered.push(...page);
+        rows += page.length;
+        if (buffered.length >= PARQUET_ROW_GROUP) {
+          await flush();
+        }
+      },
+      async finish() {
+        await flush();
+        await writer.finish();
+        await drain();
+        await handle.close();
+        await rename(partial, path);
+        return (await stat(path)).size;
+      },
+      async abort() {
+        await handle.close().catch(() => undefined);
+        await unlink(partial).catch(() => undefined);
+      }
+    };
+  }
+
+  const names = columns.map((column) => column.name);
+  const line = format === "csv"
+    ? (row: Record<string, unknown>) => csvRecord(names.map((name) => row[name]))
+    : (row: Record<string, unknown>) => JSON.stringify(Object.fromEntries(names.map((name) => [name, row[name] ?? null])));
+  if (format === "csv") {
+    await handle.write(`${csvRecord(names)}\n`);
+  }
+  return {
+    get rows() {
+      return rows;
+    },
+    async write(page) {
+      if (page.length > 0) {
+        await handle.write(page.map((row) => `${line(row)}\n`).join(""));
+        rows += page.length;
+      }
+    },
+    async finish() {
+      await handle.close();
+      await rename(partial, path);
+      return (await stat(path)).size;
+    },
+    async abort() {
+      await handle.close().catch(() => undefined);
+      await unlink(partial).catch(() => undefined);
+    }
+  };
+}
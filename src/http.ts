@@ -0,0 +1,258 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+// HTTP mode: one shared server instance next to the PHP bridge. Clients
+// authenticate with a bearer token; each MCP session gets its own McpServer
+// from `createServer` and is bound to the client that opened it.
+//
+//   POST/GET/DELETE /mcp          streamable HTTP transport
+//   GET /sse, POST /messages      legacy SSE transport (protocol 2024-11-05)
+//
+// Clients that go away without closing their session (DELETE /mcp, or
+// dropping the SSE stream) would otherwise keep it open for good: sessions
+// idle for longer than `idleTimeoutMs` are closed, and opening a session
+// beyond `maxSessions` closes the one idle the longest.
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+export const DEFAULT_MAX_SESSIONS = 100;
+
+export interface HttpClientToken {
+  /** Client identity reported to tools as `authInfo.clientId`. */
+  clientId: string;
+  token: string;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  tokens: HttpClientToken[];
+  /** Create the McpServer for a new session opened by `clientId`. */
+  createServer: (clientId: string) => McpServer;
+  /** Close sessions without requests for this long (defaults to 30 minutes). */
+  idleTimeoutMs?: number;
+  /** Sessions open at once, over all clients (defaults to 100). */
+  maxSessions?: number;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+interface Session {
+  clientId: string;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Time of the last request in the session (ms since the epoch). */
+  lastActiveAt: number;
+}
+
+/**
+ * Parse `MCP_AUTH_TOKENS`: comma-separated `clientId:token` pairs. A bare token
+ * is accepted and identified as `client-<n>`.
+ */
+export function parseAuthTokens(value: string | undefined): HttpClientToken[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(":");
+      return separator > 0
+        ? { clientId: entry.slice(0, separator), token: entry.slice(separator + 1) }
+        : { clientId: `client-${index + 1}`, token: entry };
+    });
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function authenticate(req: IncomingMessage, tokens: HttpClientToken[]): AuthInfo | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) {
+    return undefined;
+  }
+
+  const presented = Buffer.from(match[1].trim());
+  for (const { clientId, token } of tokens) {
+    const expected = Buffer.from(token);
+    if (expected.length === presented.length && timingSafeEqual(expected, presented)) {
+      return { token, clientId, scopes: [] };
+    }
+  }
+  return undefined;
+}
+
+class PayloadTooLargeError extends Error {}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new PayloadTooLargeError("Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : undefined;
+}
+
+/**
+ * Start the HTTP transport. Resolves once the server is listening.
+ */
+export async function startHttpServer({
+  host,
+  port,
+  tokens,
+  createServer,
+  idleTimeoutMs = DEFAULT_SESSION_IDLE_MS,
+  maxSessions = DEFAULT_MAX_SESSIONS
+}: HttpServerOptions): Promise<Server> {
+  const sessions = new Map<string, Session>();
+
+  function closeSession(sessionId: string, reason: string) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    logger.info("HTTP session closed", { sessionId, clientId: session.clientId, reason });
+    session.transport.close().catch((error) => {
+      logger.warn("Failed to close HTTP session", { sessionId, error });
+    });
+  }
+
+  // Room for one more session: drop the one idle the longest when full
+  function makeRoom() {
+    while (sessions.size >= maxSessions) {
+      const [oldest] = [...sessions].sort(([, a], [, b]) => a.lastActiveAt - b.lastActiveAt)[0];
+      closeSession(oldest, "session limit reached");
+    }
+  }
+
+  function openSession(sessionId: string, session: Omit<Session, "lastActiveAt">) {
+    makeRoom();
+    sessions.set(sessionId, { ...session, lastActiveAt: Date.now() });
+  }
+
+  const sweep = setInterval(() => {
+    const idleSince = Date.now() - idleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActiveAt < idleSince) {
+        closeSession(sessionId, "idle");
+      }
+    }
+  }, Math.min(idleTimeoutMs, 60000));
+  sweep.unref();
+
+  async function handleStreamable(req: AuthenticatedRequest, res: ServerResponse, clientId: string) {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        return sendJsonError(res, 404, "Session not found");
+      }
+      if (session.clientId !== clientId) {
+        return sendJsonError(res, 403, "Session belongs to a different client");
+      }
+      session.lastActiveAt = Date.now();
+      return session.transport.handleRequest(req, res, body);
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      return sendJsonError(res, 400, "Bad Request: No valid session ID provided");
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        openSession(id, { clientId, transport });
+        logger.info("HTTP session opened", { sessionId: id, clientId });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info("HTTP session closed", { sessionId: transport.sessionId, clientId, reason: "closed by client" });
+      }
+    };
+
+    await createServer(clientId).connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSse(req: AuthenticatedRequest, res: ServerResponse, clientId: string, url: URL) {
+    if (req.method === "GET" && url.pathname === "/sse") {
+      const transport = new SSEServerTransport("/messages", res);
+      openSession(transport.sessionId, { clientId, transport });
+      res.on("close", () => sessions.delete(transport.sessionId));
+      logger.info("SSE session opened", { sessionId: transport.sessionId, clientId });
+      await createServer(clientId).connect(transport);
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/messages") {
+      const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        return sendJsonError(res, 404, "Session not found");
+      }
+      if (session.clientId !== clientId) {
+        return sendJsonError(res, 403, "Session belongs to a different client");
+      }
+      session.lastActiveAt = Date.now();
+      return session.transport.handlePostMessage(req, res, await readJsonBody(req));
+    }
+
+    sendJsonError(res, 405, "Method not allowed");
+  }
+
+  const httpServer = createHttpServer(async (req: AuthenticatedRequest, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (url.pathname !== "/mcp" && url.pathname !== "/sse" && url.pathname !== "/messages") {
+        return sendJsonError(res, 404, "Not found");
+      }
+
+      const auth = authenticate(req, tokens);
+      if (!auth) {
+        return sendJsonError(res, 401, "Missing or invalid bearer token", { "WWW-Authenticate": "Bearer" });
+      }
+      req.auth = auth;
+
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res, auth.clientId);
+      } else {
+        await handleSse(req, res, auth.clientId, url);
+      }
+    } catch (error: any) {
+      logger.error("Error handling HTTP request", { path: url.pathname, error });
+      if (res.headersSent) {
+        return;
+      }
+      if (error instanceof PayloadTooLargeError) {
+        sendJsonError(res, 413, error.message);
+      } else if (error instanceof SyntaxError) {
+        sendJsonError(res, 400, "Invalid JSON body");
+      } else {
+        sendJsonError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  httpServer.on("close", () => clearInterval(sweep));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+  return httpServer;
+}
@@ -0,0 +1,201 @@
+// Decoding of Informix `syscolumns.coltype` / `collength` into SQL type
+// declarations. The catalog packs several facts into these two numbers:
+//
+//   coltype    low byte is the type code; 0x100 marks NOT NULL, 0x800 a
+//              distinct type and 0x1000 a named ROW type
+//   collength  CHAR and friends: the length. VARCHAR/NVARCHAR: min * 256 + max.
+//              DECIMAL/MONEY: precision * 256 + scale (scale 255 = floating).
+//              DATETIME/INTERVAL: digits * 256 + first qualifier * 16 + last.
+
+const NOT_NULL_FLAG = 0x100;
+const DISTINCT_FLAG = 0x800;
+const NAMED_ROW_FLAG = 0x1000;
+const IDSSECURITYLABEL = 2061;
+
+const TYPE_NAMES: Record<number, string> = {
+  0: "CHAR",
+  1: "SMALLINT",
+  2: "INTEGER",
+  3: "FLOAT",
+  4: "SMALLFLOAT",
+  5: "DECIMAL",
+  6: "SERIAL",
+  7: "DATE",
+  8: "MONEY",
+  9: "NULL",
+  10: "DATETIME",
+  11: "BYTE",
+  12: "TEXT",
+  13: "VARCHAR",
+  14: "INTERVAL",
+  15: "NCHAR",
+  16: "NVARCHAR",
+  17: "INT8",
+  18: "SERIAL8",
+  19: "SET",
+  20: "MULTISET",
+  21: "LIST",
+  22: "ROW",
+  23: "COLLECTION",
+  40: "LVARCHAR",
+  41: "OPAQUE",
+  43: "LVARCHAR",
+  45: "BOOLEAN",
+  52: "BIGINT",
+  53: "BIGSERIAL"
+};
+
+// Built-in opaque types by sysxtdtypes.extended_id (coltype 40 and 41)
+const EXTENDED_TYPE_NAMES: Record<number, string> = {
+  1: "LVARCHAR",
+  5: "BOOLEAN",
+  10: "BLOB",
+  11: "CLOB"
+};
+
+// DATETIME/INTERVAL qualifier codes; 11-15 are FRACTION(1)-FRACTION(5)
+const QUALIFIERS: Record<number, string> = {
+  0: "YEAR",
+  2: "MONTH",
+  4: "DAY",
+  6: "HOUR",
+  8: "MINUTE",
+  10: "SECOND"
+};
+
+export interface ExtendedType {
+  /** `syscolumns.extended_id` / `sysxtdtypes.extended_id`. */
+  id?: number | null;
+  /** `sysxtdtypes.name`, used for user-defined and collection types. */
+  name?: string | null;
+}
+
+export interface DecodedColumnType {
+  /** Full declaration, e.g. `DECIMAL(12,2)` or `DATETIME YEAR TO SECOND`. */
+  declaration: string;
+  /** Type name without length or qualifier, e.g. `DECIMAL`. */
+  baseType: string;
+  notNull: boolean;
+  /** Maximum length of character types. */
+  length?: number;
+  /** Reserved (minimum) length of VARCHAR/NVARCHAR. */
+  minLength?: number;
+  precision?: number;
+  /** Undefined for floating-point DECIMAL. */
+  scale?: number;
+  /** DATETIME/INTERVAL qualifier, e.g. `YEAR TO SECOND`. */
+  qualifier?: string;
+}
+
+function qualifierName(code: number): string {
+  return code > 10 ? `FRACTION(${code - 10})` : QUALIFIERS[code] ?? `UNKNOWN(${code})`;
+}
+
+// Digits taken by the fields after `first` up to `last`: two for each of
+// MONTH..SECOND, plus the FRACTION digits.
+function trailingDigits(first: number, last: number): number {
+  let digits = 0;
+  for (let code = first + 2; code <= Math.min(last, 10); code += 2) {
+    digits += 2;
+  }
+  if (last > 10) {
+    digits += last - 10;
+  }
+  return digits;
+}
+
+/**
+ * Decode the DATETIME/INTERVAL qualifier packed into `collength`. INTERVAL
+ * shows the first field's precision when it differs from the default
+ * (4 for YEAR, 2 otherwise), e.g. `DAY(5) TO SECOND`.
+ */
+export function decodeQualifier(collength: number, interval = false): string {
+  const digits = Math.floor(collength / 256);
+  const first = (collength % 256) >> 4;
+  const last = collength & 0x0f;
+
+  if (first > 10) {
+    return `FRACTION TO ${qualifierName(last)}`;
+  }
+
+  let head = qualifierName(first);
+  if (interval) {
+    const precision = digits - trailingDigits(first, last);
+    if (precision !== (first === 0 ? 4 : 2)) {
+      head += `(${precision})`;
+    }
+  }
+  return `${head} TO ${qualifierName(last)}`;
+}
+
+/**
+ * Decode a `syscolumns` type into its declaration. `extended` identifies
+ * opaque, collection and user-defined types.
+ */
+export function decodeColumnType(coltype: number, collength: number, extended: ExtendedType = {}): DecodedColumnType {
+  const notNull = (coltype & NOT_NULL_FLAG) !== 0;
+
+  if ((coltype & ~NOT_NULL_FLAG) === IDSSECURITYLABEL) {
+    return { declaration: "IDSSECURITYLABEL", baseType: "IDSSECURITYLABEL", notNull };
+  }
+
+  const code = coltype & 0xff;
+  const userType = extended.name ? extended.name.toUpperCase() : undefined;
+  if ((coltype & (DISTINCT_FLAG | NAMED_ROW_FLAG)) !== 0 && userType) {
+    return { declaration: userType, baseType: userType, notNull };
+  }
+
+  const baseType = TYPE_NAMES[code];
+  if (!baseType) {
+    return { declaration: userType ?? `UNKNOWN(${code})`, baseType: userType ?? "UNKNOWN", notNull };
+  }
+
+  switch (code) {
+    case 0:
+    case 15:
+      return { declaration: `${baseType}(${collength})`, baseType, notNull, length: collength };
+    case 13:
+    case 16: {
+      const length = collength % 256;
+      const minLength = Math.floor(collength / 256);
+      return {
+        declaration: minLength > 0 ? `${baseType}(${length},${minLength})` : `${baseType}(${length})`,
+        baseType,
+        notNull,
+        length,
+        minLength
+      };
+    }
+    case 5:
+    case 8: {
+      const precision = Math.floor(collength / 256);
+      const scale = collength % 256;
+      if (scale === 255) {
+        return { declaration: `${baseType}(${precision})`, baseType, notNull, precision };
+      }
+      return { declaration: `${baseType}(${precision},${scale})`, baseType, notNull, precision, scale };
+    }
+    case 10:
+    case 14: {
+      const qualifier = decodeQualifier(collength, code === 14);
+      return { declaration: `${baseType} ${qualifier}`, baseType, notNull, qualifier };
+    }
+    case 40:
+    case 41: {
+      const opaque = (extended.id != null ? EXTENDED_TYPE_NAMES[extended.id] : undefined) ?? userType;
+      if (opaque === "LVARCHAR" || (!opaque && code === 40)) {
+        return { declaration: `LVARCHAR(${collength})`, baseType: "LVARCHAR", notNull, length: collength };
+      }
+      return { declaration: opaque ?? baseType, baseType: opaque ?? baseType, notNull };
+    }
+    case 43:
+      return { declaration: `LVARCHAR(${collength})`, baseType, notNull, length: collength };
+    case 19:
+    case 20:
+    case 21:
+    case 22:
+      return { declaration: userType ?? baseType, baseType, notNull };
+    default:
+      return { declaration: baseType, baseType, notNull };
+  }
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from "node:crypto";
+import { QueueFullError, createConcurrencyLimiter } from "./resilience.js";
+
+// Background jobs for long-running tools such as `export-table`. A job runs
+// outside the tool call that started it, reports progress as it goes, and can
+// be polled with `job-status` or stopped with `cancel-job`. Jobs belong to the
+// client that started them and are kept in memory only.
+
+export type JobState = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface JobProgress {
+  /** Rows processed so far. */
+  rows: number;
+  /** Rows expected in total, when known. */
+  total?: number;
+}
+
+export interface Job<R> {
+  id: string;
+  /** Tool that started the job, e.g. `export-table`. */
+  kind: string;
+  clientId: string;
+  state: JobState;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  progress: JobProgress;
+  /** Set once the job has completed. */
+  result?: R;
+  /** Error class and message of a failed job. */
+  failure?: { error: string; message: string };
+}
+
+export interface JobContext {
+  /** Aborted when the job is cancelled; the task should stop and clean up. */
+  signal: AbortSignal;
+  progress(update: JobProgress): void;
+}
+
+export interface JobManagerOptions {
+  /** Jobs running at the same time; later ones wait in the queue. */
+  maxRunning: number;
+  /** Jobs that may wait; more are rejected with `QueueFullError`. */
+  maxQueued: number;
+  /** Finished jobs remembered for `job-status`, oldest forgotten first. */
+  maxFinished: number;
+  /** Error class recorded for a failed job. */
+  classify(error: unknown): string;
+}
+
+export interface JobManager<R> {
+  /** Queue `task` for `clientId`. Throws `QueueFullError` when the queue is full. */
+  start(kind: string, clientId: string, task: (context: JobContext) => Promise<R>): Job<R>;
+  get(id: string): Job<R> | undefined;
+  /** Jobs of one client, newest first. */
+  list(clientId: string): Job<R>[];
+  /** Ask a queued or running job to stop; finished jobs are left as they are. */
+  cancel(id: string): Job<R> | undefined;
+  /** Resolve once the job has finished, calling `onProgress` on each update until then. */
+  wait(id: string, onProgress?: (job: Job<R>) => void): Promise<Job<R> | undefined>;
+}
+
+const FINISHED: JobState[] = ["completed", "failed", "cancelled"];
+
+export const isFinished = (job: Job<unknown>) => FINISHED.includes(job.state);
+
+export function createJobManager<R>({ maxRunning, maxQueued, maxFinished, classify }: JobManagerOptions): JobManager<R> {
+  const limiter = createConcurrencyLimiter({ maxInFlight: maxRunning, maxQueue: maxQueued });
+  const jobs = new Map<string, Job<R>>();
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  const notify = (id: string) => listeners.get(id)?.forEach((listener) => listener());
+  const failureOf = (error: unknown) => ({ error: classify(error), message: error instanceof Error ? error.message : String(error) });
+
+  function finish(job: Job<R>, state: JobState, fields: Partial<Job<R>> = {}) {
+    Object.assign(job, { state, finishedAt: new Date().toISOString(), ...fields });
+    controllers.delete(job.id);
+    notify(job.id);
+    listeners.delete(job.id);
+
+    const finished = [...jobs.values()].filter(isFinished);
+    for (const old of finished.slice(0, Math.max(finished.length - maxFinished, 0))) {
+      jobs.delete(old.id);
+    }
+  }
+
+  async function run(job: Job<R>, controller: AbortController, task: (context: JobContext) => Promise<R>) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    Object.assign(job, { state: "running", startedAt: new Date().toISOString() });
+    notify(job.id);
+    try {
+      const result = await task({
+        signal: controller.signal,
+        progress(update) {
+          job.progress = { ...update };
+          notify(job.id);
+        }
+      });
+      if (controller.signal.aborted) {
+        finish(job, "cancelled");
+      } else {
+        finish(job, "completed", { result });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        finish(job, "cancelled");
+      } else {
+        finish(job, "failed", { failure: failureOf(error) });
+      }
+    }
+  }
+
+  return {
+    start(kind, clientId, task) {
+      if (limiter.inFlight() >= limiter.maxInFlight && limiter.queued() >= maxQueued) {
+        throw new QueueFullError(`${limiter.inFlight()} jobs running and ${limiter.queued()} queued`);
+      }
+      const job: Job<R> = {
+        id: randomUUID(),
+        kind,
+        clientId,
+        state: "queued",
+        createdAt: new Date().toISOString(),
+        progress: { rows: 0 }
+      };
+      const controller = new AbortController();
+      jobs.set(job.id, job);
+      controllers.set(job.id, controller);
+      limiter.run(() => run(job, controller, task)).catch((error) => finish(job, "failed", { failure: failureOf(error) }));
+      return job;
+    },
+    get: (id) => jobs.get(id),
+    list: (clientId) => [...jobs.values()].filter((job) => job.clientId === clientId).reverse(),
+    cancel(id) {
+      const job = jobs.get(id);
+      if (!job || isFinished(job)) {
+        return job;
+      }
+      controllers.get(id)?.abort();
+      // A queued job never starts; a running one finishes when its task stops
+      if (job.state === "queued") {
+        finish(job, "cancelled");
+      }
+      return job;
+    },
+    wait(id, onProgress) {
+      const job = jobs.get(id);
+      if (!job || isFinished(job)) {
+        return Promise.resolve(job);
+      }
+      return new Promise((resolve) => {
+        if (!listeners.has(id)) {
+          listeners.set(id, new Set());
+        }
+        listeners.get(id)!.add(() => isFinished(job) ? resolve(job) : onProgress?.(job));
+      });
+    }
+  };
+}
@@ -0,0 +1,96 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Structured logging to stderr (stdout carries the MCP stdio transport). A
+// record has a level, a message and fields; the fields of the request being
+// handled (see `withLogContext`), such as its correlation `requestId`, are
+// added to every record logged while handling it.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["text", "json"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger that adds `fields` to every record. */
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  /** Records below this level are dropped (defaults to info). */
+  level?: LogLevel;
+  /** `text` for one readable line per record, `json` for one JSON object per line. */
+  format?: LogFormat;
+  /** Where lines go; defaults to stderr. */
+  write?: (line: string) => void;
+}
+
+let settings: Required<LoggerOptions> = {
+  level: "info",
+  format: "text",
+  write: (line) => process.stderr.write(`${line}\n`)
+};
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/** Change the level, format or destination of every logger. */
+export function configureLogger(options: LoggerOptions): void {
+  settings = { ...settings, ...options };
+}
+
+/**
+ * Run `run` with `fields` added to every record it logs, including from the
+ * promises it starts. Nested contexts add to the outer one.
+ */
+export function withLogContext<T>(fields: LogFields, run: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, run);
+}
+
+/** Fields of the current context, e.g. `requestId` during a tool call. */
+export function logContext(): LogFields {
+  return context.getStore() ?? {};
+}
+
+// Errors serialise to `{}`; log their message instead
+const fieldValue = (value: unknown) => value instanceof Error ? value.message : value;
+
+// Bare when unambiguous, otherwise JSON-quoted
+function textValue(value: unknown): string {
+  return typeof value === "string" && value !== "" && !/[\s"=]/.test(value) ? value : JSON.stringify(value);
+}
+
+function emit(level: LogLevel, message: string, fields: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+    return;
+  }
+  const record = Object.entries({ ...logContext(), ...fields })
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, fieldValue(value)] as const);
+  const timestamp = new Date().toISOString();
+
+  if (settings.format === "json") {
+    settings.write(JSON.stringify({ timestamp, level, message, ...Object.fromEntries(record) }));
+  } else {
+    const pairs = record.map(([key, value]) => `${key}=${textValue(value)}`);
+    settings.write([timestamp, level.toUpperCase().padEnd(5), message, ...pairs].join(" "));
+  }
+}
+
+function createLogger(bound: LogFields): Logger {
+  return {
+    debug: (message, fields) => emit("debug", message, { ...bound, ...fields }),
+    info: (message, fields) => emit("info", message, { ...bound, ...fields }),
+    warn: (message, fields) => emit("warn", message, { ...bound, ...fields }),
+    error: (message, fields) => emit("error", message, { ...bound, ...fields }),
+    child: (fields) => createLogger({ ...bound, ...fields })
+  };
+}
+
+/** Root logger; configured once from LOG_LEVEL and LOG_FORMAT at startup. */
+export const logger = createLogger({});
@@ -0,0 +1,218 @@
+import { createServer as createHttpServer, Server } from "node:http";
+
+// Counters, gauges and histograms kept in memory and rendered in the
+// Prometheus text exposition format, for the optional /metrics endpoint and
+// the info://metrics resource.
+
+export type MetricType = "counter" | "gauge" | "histogram";
+export type MetricLabels = Record<string, string>;
+
+/** One value of a metric, for one combination of label values. */
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSample {
+  labels: MetricLabels;
+  count: number;
+  sum: number;
+  /** Cumulative counts by upper bound, ascending, as in Prometheus `le` buckets. */
+  buckets: { le: string; count: number }[];
+}
+
+export interface MetricSnapshot {
+  name: string;
+  type: MetricType;
+  help: string;
+  samples: MetricSample[] | HistogramSample[];
+}
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: MetricLabels, value: number): void;
+  inc(labels?: MetricLabels, value?: number): void;
+  dec(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: MetricLabels, value: number): void;
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  gauge(name: string, help: string): Gauge;
+  /** `buckets` are upper bounds in ascending order; +Inf is added. */
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  /**
+   * A metric whose samples are read from elsewhere (e.g. the cache statistics)
+   * each time the metrics are rendered.
+   */
+  collect(name: string, help: string, type: "counter" | "gauge", samples: () => MetricSample[]): void;
+  snapshot(): MetricSnapshot[];
+  /** Prometheus text exposition format, version 0.0.4. */
+  render(): string;
+}
+
+/** Upper bounds, in seconds, for request latency histograms. */
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+interface Metric {
+  type: MetricType;
+  help: string;
+  snapshot(): MetricSample[] | HistogramSample[];
+}
+
+// Label sets in a stable order, so `{a,b}` and `{b,a}` are one series
+const seriesKey = (labels: MetricLabels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  return Number.isFinite(value) ? String(value) : value > 0 ? "+Inf" : "-Inf";
+}
+
+const isHistogramSample = (sample: MetricSample | HistogramSample): sample is HistogramSample => "buckets" in sample;
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics = new Map<string, Metric>();
+
+  const snapshot = () => [...metrics.entries()]
+    .map(([name, metric]): MetricSnapshot => ({ name, type: metric.type, help: metric.help, samples: metric.snapshot() }));
+
+  function register(name: string, metric: Metric) {
+    if (metrics.has(name)) {
+      throw new Error(`Metric '${name}' is already registered`);
+    }
+    metrics.set(name, metric);
+  }
+
+  function valueMetric(name: string, type: "counter" | "gauge", help: string) {
+    const series = new Map<string, MetricSample>();
+    register(name, { type, help, snapshot: () => [...series.values()].map((sample) => ({ ...sample })) });
+    const add = (labels: MetricLabels, value: number) => {
+      const key = seriesKey(labels);
+      const sample = series.get(key) ?? { labels, value: 0 };
+      sample.value += value;
+      series.set(key, sample);
+    };
+    const set = (labels: MetricLabels, value: number) => {
+      series.set(seriesKey(labels), { labels, value });
+    };
+    return { add, set };
+  }
+
+  return {
+    counter(name, help) {
+      const { add } = valueMetric(name, "counter", help);
+      return {
+        inc: (labels = {}, value = 1) => add(labels, value)
+      };
+    },
+
+    gauge(name, help) {
+      const { add, set } = valueMetric(name, "gauge", help);
+      return {
+        set,
+        inc: (labels = {}, value = 1) => add(labels, value),
+        dec: (labels = {}, value = 1) => add(labels, -value)
+      };
+    },
+
+    histogram(name, help, buckets) {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      const series = new Map<string, { labels: MetricLabels; count: number; sum: number; counts: number[] }>();
+      register(name, {
+        type: "histogram",
+        help,
+        snapshot: () => [...series.values()].map(({ labels, count, sum, counts }) => ({
+          labels,
+          count,
+          sum,
+          buckets: [
+            ...bounds.map((bound, index) => ({ le: String(bound), count: counts[index] })),
+            { le: "+Inf", count }
+          ]
+        }))
+      });
+      return {
+        observe(labels, value) {
+          const key = seriesKey(labels);
+          const entry = series.get(key) ?? { labels, count: 0, sum: 0, counts: bounds.map(() => 0) };
+          entry.count++;
+          entry.sum += value;
+          bounds.forEach((bound, index) => {
+            if (value <= bound) {
+              entry.counts[index]++;
+            }
+          });
+          series.set(key, entry);
+        }
+      };
+    },
+
+    collect(name, help, type, samples) {
+      register(name, { type, help, snapshot: samples });
+    },
+
+    snapshot,
+
+    render() {
+      const lines: string[] = [];
+      for (const { name, type, help, samples } of snapshot()) {
+        lines.push(`# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${name} ${type}`);
+        for (const sample of samples) {
+          if (isHistogramSample(sample)) {
+            for (const { le, count } of sample.buckets) {
+              lines.push(`${name}_bucket${formatLabels({ ...sample.labels, le })} ${count}`);
+            }
+            lines.push(`${name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`);
+            lines.push(`${name}_count${formatLabels(sample.labels)} ${sample.count}`);
+          } else {
+            lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+          }
+        }
+      }
+      return `${lines.join("\n")}\n`;
+    }
+  };
+}
+
+export interface MetricsServerOptions {
+  host: string;
+  port: number;
+  registry: MetricsRegistry;
+}
+
+/** Serve `GET /metrics` for Prometheus to scrape; anything else is a 404. */
+export async function startMetricsServer({ host, port, registry }: MetricsServerOptions): Promise<Server> {
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    if (url.pathname !== "/metrics") {
+      res.writeHead(404, { "Content-Type": "text/plain" }).end("Not found\n");
+    } else if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405, { "Content-Type": "text/plain", Allow: "GET, HEAD" }).end("Method not allowed\n");
+    } else {
+      res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE }).end(req.method === "GET" ? registry.render() : undefined);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+  return httpServer;
+}
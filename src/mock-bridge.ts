@@ -0,0 +1,135 @@
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { setTimeout as sleep } from "node:timers/promises";
+import { DEFAULT_MOCK_FIXTURES, MockFixture, MockParams, MockReply } from "./mock-fixtures.js";
+
+// In-process stand-in for the PHP API bridge. It speaks the bridge protocol
+// (POST `{queryName, params}` with an `X-API-KEY` header) and answers from
+// fixtures, so the server can be demoed offline (`--mock`) and tested without
+// Informix. Tests override single queries to produce HTTP errors, failed
+// queries and malformed payloads.
+
+export interface MockBridgeOptions {
+  /** API key the bridge expects; other keys get HTTP 401. */
+  apiKey: string;
+  host?: string;
+  /** Port to listen on; 0 (the default) picks a free one. */
+  port?: number;
+  /** Fixtures by `queryName`; defaults to `DEFAULT_MOCK_FIXTURES`. */
+  fixtures?: Record<string, MockFixture>;
+}
+
+export interface MockBridgeRequest {
+  queryName: string;
+  params: MockParams;
+  /** `X-Request-ID` header, when sent. */
+  requestId?: string;
+}
+
+export interface MockBridge {
+  readonly url: string;
+  readonly apiKey: string;
+  /** Requests received with a valid API key, oldest first. */
+  readonly requests: MockBridgeRequest[];
+  /** Answer `queryName` with `reply` instead of its fixture until `reset()`. */
+  override(queryName: string, reply: MockReply | MockFixture): void;
+  /** Drop overrides and recorded requests. */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export async function startMockBridge({
+  apiKey,
+  host = "127.0.0.1",
+  port = 0,
+  fixtures = DEFAULT_MOCK_FIXTURES
+}: MockBridgeOptions): Promise<MockBridge> {
+  const requests: MockBridgeRequest[] = [];
+  const overrides = new Map<string, MockFixture>();
+
+  function replyTo(queryName: string, params: MockParams): MockReply {
+    const fixture = overrides.get(queryName) ?? fixtures[queryName];
+    if (!fixture) {
+      return { error: `Unknown query: ${queryName}` };
+    }
+    try {
+      return fixture(params);
+    } catch (error) {
+      return { httpStatus: 500, body: { status: "error", message: `Mock fixture failed: ${(error as Error).message}` } };
+    }
+  }
+
+  const server = createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(typeof body === "string" ? body : JSON.stringify(body));
+    };
+
+    if (req.method !== "POST") {
+      return send(405, { status: "error", message: "Only POST is supported" });
+    }
+    if (req.headers["x-api-key"] !== apiKey) {
+      return send(401, { status: "error", message: "Invalid API key" });
+    }
+
+    let request: { queryName?: unknown; params?: unknown };
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      request = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch (error) {
+      return send(400, { status: "error", message: "Request body is not valid JSON" });
+    }
+    if (typeof request?.queryName !== "string") {
+      return send(400, { status: "error", message: "queryName is required" });
+    }
+
+    const queryName = request.queryName;
+    const params = (request.params && typeof request.params === "object" ? request.params : {}) as MockParams;
+    const requestId = req.headers["x-request-id"];
+    requests.push({ queryName, params, ...(typeof requestId === "string" && { requestId }) });
+
+    const reply = replyTo(queryName, params);
+    if (reply.delayMs) {
+      await sleep(reply.delayMs);
+    }
+    if ("httpStatus" in reply) {
+      return send(reply.httpStatus, reply.body ?? "");
+    }
+    if ("raw" in reply) {
+      return send(200, reply.raw);
+    }
+    if ("error" in reply) {
+      return send(200, { status: "error", message: reply.error });
+    }
+    send(200, {
+      status: "success",
+      data: { queryName, params, results: reply.results, execution_time: 0.001, connection_id: "mock" }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${address.port}/informix_api.php`,
+    apiKey,
+    requests,
+    override(queryName, reply) {
+      overrides.set(queryName, typeof reply === "function" ? reply : () => reply);
+    },
+    reset() {
+      overrides.clear();
+      requests.length = 0;
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve, reject) => server.close((error) => error ? reject(error) : resolve()));
+    }
+  };
+}
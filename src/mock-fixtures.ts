@@ -0,0 +1,387 @@
+import { DEFAULT_QUERY_CATALOG } from "./catalog.js";
+import { decodeColumnType } from "./informix-types.js";
+
+// Demo data served by the mock bridge (see mock-bridge.ts): four small
+// databases with tables, a view, keys and sample rows, answered in the same
+// shapes as the PHP API bridge. Column types are raw syscolumns
+// coltype/collength pairs, so the server decodes them as it would for Informix.
+
+/** A reply of the mock bridge to one request. */
+export type MockReply =
+  /** `status: "success"` envelope around `results`. */
+  | { results: unknown; delayMs?: number }
+  /** `status: "error"` envelope, i.e. a query that failed in Informix. */
+  | { error: string; delayMs?: number }
+  /** A non-2xx HTTP status with an optional JSON body. */
+  | { httpStatus: number; body?: unknown; delayMs?: number }
+  /** `body` sent as-is, e.g. a malformed payload. */
+  | { raw: unknown; delayMs?: number };
+
+export type MockParams = Record<string, any>;
+
+/** Answers one `queryName` from its request parameters. */
+export type MockFixture = (params: MockParams) => MockReply;
+
+const NOT_NULL = 0x100;
+
+// [name, coltype, collength]
+type MockColumn = [string, number, number];
+
+interface MockForeignKey {
+  name: string;
+  columns: string[];
+  references: string;
+  referencedColumns: string[];
+}
+
+interface MockTable {
+  columns: MockColumn[];
+  rows: Record<string, unknown>[];
+  primaryKey?: string[];
+  unique?: string[][];
+  foreignKeys?: MockForeignKey[];
+  checks?: Record<string, string>;
+  /** View text; the object is a view when set. */
+  view?: string;
+  /** Row count in the table statistics (systables.nrows); defaults to the rows served. */
+  nrows?: number;
+  /** systables.version, raised by every ALTER TABLE; defaults to 1. */
+  version?: number;
+  /** Table comment in syscomments. */
+  comment?: string;
+  /** Column comments in syscolcomments. */
+  columnComments?: Record<string, string>;
+}
+
+const employees = [
+  { id: 1001, first_name: "Ann", last_name: "Lee", email: "ann.lee@example.com", ssn: "123-45-6789", dept_id: 10, hired_on: "2019-03-04", active: "Y" },
+  { id: 1002, first_name: "Bob", last_name: "Ortiz", email: "bob.ortiz@example.com", ssn: "987-65-4321", dept_id: 20, hired_on: "2020-07-15", active: "Y" },
+  { id: 1003, first_name: "Chen", last_name: "Wu", email: "chen.wu@example.com", ssn: "555-12-3456", dept_id: 10, hired_on: "2021-01-11", active: "N" },
+  { id: 1004, first_name: "Dana", last_name: "Smith", email: "dana.smith@example.com", ssn: "222-33-4444", dept_id: 30, hired_on: "2022-09-01", active: "Y" },
+  { id: 1005, first_name: "Eli", last_name: "Novak", email: "eli.novak@example.com", ssn: "777-88-9999", dept_id: 20, hired_on: "2023-02-20", active: "Y" }
+];
+
+export const MOCK_DATABASES: Record<string, Record<string, MockTable>> = {
+  eadmin: {
+    department: {
+      columns: [["id", 2 | NOT_NULL, 4], ["name", 13 | NOT_NULL, 60], ["cost_center", 0, 6]],
+      rows: [
+        { id: 10, name: "Engineering", cost_center: "CC-100" },
+        { id: 20, name: "Finance", cost_center: "CC-200" },
+        { id: 30, name: "People", cost_center: "CC-300" }
+      ],
+      primaryKey: ["id"],
+      unique: [["name"]]
+    },
+    employee: {
+      columns: [
+        ["id", 6 | NOT_NULL, 4],
+        ["first_name", 13 | NOT_NULL, 40],
+        ["last_name", 13 | NOT_NULL, 40],
+        ["email", 13, 120],
+        ["ssn", 0, 11],
+        ["dept_id", 2, 4],
+        ["hired_on", 7, 4],
+        ["active", 0 | NOT_NULL, 1]
+      ],
+      rows: employees,
+      primaryKey: ["id"],
+      unique: [["email"]],
+      foreignKeys: [{ name: "fk_employee_dept", columns: ["dept_id"], references: "department", referencedColumns: ["id"] }],
+      checks: { ck_employee_active: "active IN ('Y', 'N')" },
+      comment: "Current and former employees",
+      columnComments: {
+        hired_on: "Date the employee joined",
+        active: "Y while employed, N from the termination date on"
+      }
+    },
+    v_active_employees: {
+      columns: [["id", 2, 4], ["first_name", 13, 40], ["last_name", 13, 40], ["dept_id", 2, 4]],
+      rows: employees.filter((row) => row.active === "Y").map(({ id, first_name, last_name, dept_id }) => ({ id, first_name, last_name, dept_id })),
+      view: "create view v_active_employees (id, first_name, last_name, dept_id) as select x0.id, x0.first_name, x0.last_name, x0.dept_id from employee x0 where (x0.active = 'Y');"
+    }
+  },
+  payrolldb: {
+    payroll_run: {
+      columns: [["id", 6 | NOT_NULL, 4], ["period", 0 | NOT_NULL, 7], ["run_at", 10, 3594], ["status", 0, 10]],
+      rows: [
+        { id: 1, period: "2024-01", run_at: "2024-01-31 18:00:00", status: "closed" },
+        { id: 2, period: "2024-02", run_at: "2024-02-29 18:00:00", status: "closed" },
+        { id: 3, period: "2024-03", run_at: "2024-03-29 18:00:00", status: "open" }
+      ],
+      primaryKey: ["id"]
+    },
+    emp_salary: {
+      columns: [["run_id", 2 | NOT_NULL, 4], ["emp_id", 2 | NOT_NULL, 4], ["gross", 5 | NOT_NULL, 3074], ["net", 5, 3074]],
+      rows: [
+        { run_id: 1, emp_id: 1001, gross: 6500.0, net: 4870.25 },
+        { run_id: 1, emp_id: 1002, gross: 5200.0, net: 3990.1 },
+        { run_id: 2, emp_id: 1001, gross: 6500.0, net: 4870.25 },
+        { run_id: 2, emp_id: 1002, gross: 5400.0, net: null }
+      ],
+      primaryKey: ["run_id", "emp_id"],
+      foreignKeys: [{ name: "fk_emp_salary_run", columns: ["run_id"], references: "payroll_run", referencedColumns: ["id"] }],
+      checks: { ck_emp_salary_gross: "gross >= 0" }
+    }
+  },
+  ppc: {
+    project: {
+      columns: [["id", 6 | NOT_NULL, 4], ["code", 0 | NOT_NULL, 8], ["title", 13, 100], ["budget", 8, 4098]],
+      rows: [
+        { id: 1, code: "PPC-001", title: "Warehouse migration", budget: 120000.0 },
+        { id: 2, code: "PPC-002", title: "Payroll upgrade", budget: 45000.0 }
+      ],
+      primaryKey: ["id"],
+      unique: [["code"]]
+    },
+    timesheet: {
+      columns: [["project_id", 2 | NOT_NULL, 4], ["emp_id", 2 | NOT_NULL, 4], ["work_date", 7 | NOT_NULL, 4], ["hours", 5, 1281]],
+      rows: [
+        { project_id: 1, emp_id: 1001, work_date: "2024-03-01", hours: 7.5 },
+        { project_id: 1, emp_id: 1004, work_date: "2024-03-01", hours: 8.0 },
+        { project_id: 2, emp_id: 1002, work_date: "2024-03-02", hours: 6.0 }
+      ],
+      primaryKey: ["project_id", "emp_id", "work_date"],
+      foreignKeys: [{ name: "fk_timesheet_project", columns: ["project_id"], references: "project", referencedColumns: ["id"] }]
+    }
+  },
+  auditdb: {
+    employee_audit: {
+      columns: [["audit_id", 6 | NOT_NULL, 4], ["emp_id", 2 | NOT_NULL, 4], ["action", 0 | NOT_NULL, 6], ["changed_by", 13, 32], ["changed_at", 10 | NOT_NULL, 3594]],
+      rows: [
+        { audit_id: 1, emp_id: 1003, action: "UPDATE", changed_by: "hr_admin", changed_at: "2024-03-01 09:12:44" },
+        { audit_id: 2, emp_id: 1005, action: "INSERT", changed_by: "hr_admin", changed_at: "2024-03-02 14:03:10" },
+        { audit_id: 3, emp_id: 1003, action: "UPDATE", changed_by: "batch", changed_at: "2024-03-03 02:30:00" }
+      ],
+      primaryKey: ["audit_id"],
+      comment: "Changes to employee records, written by triggers",
+      columnComments: { action: "INSERT, UPDATE, or TERMINATE when an employee leaves" },
+      // Statistics of a production-sized audit table, for query plans
+      nrows: 2400000
+    },
+    login_log: {
+      columns: [["user_name", 13 | NOT_NULL, 32], ["login_at", 10 | NOT_NULL, 3594], ["success", 45, 1]],
+      rows: [
+        { user_name: "hr_admin", login_at: "2024-03-01 09:00:02", success: true },
+        { user_name: "batch", login_at: "2024-03-03 02:29:58", success: true }
+      ],
+      nrows: 9800000
+    }
+  }
+};
+
+// Informix folds unquoted names to lower case
+function findTable(database: string, name: string): MockTable | undefined {
+  return MOCK_DATABASES[database]?.[name.toLowerCase()];
+}
+
+function notFound(kind: string, name: string, database: string): MockReply {
+  return { error: `${kind} '${name}' not found in database '${database}'` };
+}
+
+function foreignKeysOf(database: string) {
+  return Object.entries(MOCK_DATABASES[database] ?? {}).flatMap(([table, definition]) =>
+    (definition.foreignKeys ?? []).map((fk) => ({ table, ...fk })));
+}
+
+// Indexes of a table as 'get-table-indexes' reports them
+function indexesOf(name: string, table: MockTable) {
+  return [
+    ...(table.primaryKey ? [{ index_name: `ix_${name}_pk`, index_type: "U", clustered: true, columns: table.primaryKey }] : []),
+    ...(table.unique ?? []).map((columns) => ({ index_name: `ix_${name}_${columns.join("_")}`, index_type: "U", clustered: false, columns })),
+    ...(table.foreignKeys ?? []).map((fk) => ({ index_name: `ix_${name}_${fk.columns.join("_")}`, index_type: "D", clustered: false, columns: fk.columns }))
+  ];
+}
+
+// First table of a statement's FROM clause: [database, table, alias]
+const FROM_TABLE = /\bfrom\s+(?:(\w+):)?(?:\w+\.)?(\w+)(?:\s+(?:as\s+)?(?!where\b|order\b|group\b|join\b|inner\b|left\b|samples\b)(\w+))?/i;
+
+// Reads the table of the request, or answers that it does not exist
+function withTable(params: MockParams, key: string, reply: (table: MockTable, name: string, database: string) => MockReply): MockReply {
+  const database = params.database ?? "eadmin";
+  const name = String(params[key] ?? "");
+  const table = findTable(database, name);
+  return table ? reply(table, name, database) : notFound("Table", name, database);
+}
+
+const currentTime = () => new Date().toISOString().replace("T", " ").slice(0, 19);
+
+/** Fixtures for every query the PHP API bridge implements. */
+export const DEFAULT_MOCK_FIXTURES: Record<string, MockFixture> = {
+  "list-queries": () => ({ results: DEFAULT_QUERY_CATALOG }),
+
+  "test-connection": () => ({ results: [{ current_time: currentTime(), test_result: 1 }] }),
+
+  "get-database-count": () => ({ results: [{ database_count: Object.keys(MOCK_DATABASES).length }] }),
+
+  "list-databases": () => ({
+    results: [{
+      database_count: Object.keys(MOCK_DATABASES).length,
+      databases: Object.keys(MOCK_DATABASES).map((name) => ({ name }))
+    }]
+  }),
+
+  "list-tables": ({ database = "eadmin" }) => {
+    const tables = MOCK_DATABASES[database];
+    if (!tables) {
+      return { error: `Database '${database}' not found` };
+    }
+    return { results: [{ table_count: Object.keys(tables).length, tables: Object.keys(tables) }] };
+  },
+
+  "get-table-schema": (params) => withTable(params, "tableName", (table, name) => ({
+    results: [{
+      table_name: name,
+      columns: table.columns.map(([column, coltype, collength]) => {
+        const decoded = decodeColumnType(coltype, collength);
+        return {
+          column_name: column,
+          type_name: decoded.baseType,
+          column_length: collength,
+          is_nullable: decoded.notNull ? "NO" : "YES",
+          coltype,
+          collength
+        };
+      })
+    }]
+  })),
+
+  "get-top-records": (params) => withTable(params, "tableName", (table) => {
+    const offset = Number(params.offset ?? 0);
+    return { results: [{ records: table.rows.slice(offset, offset + Number(params.limit ?? 10)) }] };
+  }),
+
+  "get-object-type": (params) => withTable(params, "objectName", (table, name) => ({
+    results: [{ object_name: name, object_type: table.view ? "VIEW" : "TABLE", tabtype: table.view ? "V" : "T" }]
+  })),
+
+  // sysviews stores view text in 64-character pieces
+  "get-view-schema": (params) => withTable(params, "viewName", (table) => ({
+    results: (table.view?.match(/.{1,64}/gs) ?? []).map((viewtext, seqno) => ({ seqno, viewtext }))
+  })),
+
+  "get-table-constraints": (params) => withTable(params, "tableName", (table, name) => ({
+    results: [
+      ...(table.primaryKey ? [{ constraint_name: `pk_${name}`, constraint_type: "P", columns: table.primaryKey }] : []),
+      ...(table.unique ?? []).map((columns) => ({ constraint_name: `uq_${name}_${columns.join("_")}`, constraint_type: "U", columns })),
+      ...(table.foreignKeys ?? []).map((fk) => ({
+        constraint_name: fk.name,
+        constraint_type: "R",
+        columns: fk.columns,
+        referenced_table: fk.references,
+        referenced_columns: fk.referencedColumns
+      })),
+      ...Object.entries(table.checks ?? {}).map(([constraint_name, check_text]) => ({ constraint_name, constraint_type: "C", columns: [], check_text }))
+    ]
+  })),
+
+  "get-table-indexes": (params) => withTable(params, "tableName", (table, name) => ({ results: indexesOf(name, table) })),
+
+  "get-foreign-keys": (params) => withTable(params, "tableName", (_table, name, database) => ({
+    results: foreignKeysOf(database)
+      .filter((fk) => fk.table === name.toLowerCase() || fk.references === name.toLowerCase())
+      .map((fk) => ({
+        constraint_name: fk.name,
+        table: fk.table,
+        columns: fk.columns,
+        referenced_table: fk.references,
+        referenced_columns: fk.referencedColumns,
+        delete_rule: "R"
+      }))
+  })),
+
+  // Only the view listing, COUNT(*) and whole-table reads are understood: the
+  // select list and WHERE clause are ignored; SKIP n skips rows, and FIRST n
+  // and SAMPLES OF n ROWS return the first n rows
+  "run-select": ({ sql = "", params = [], database = "eadmin" }) => {
+    // Catalog stamps and comments, for the schema index
+    if (/\bsystables\b/i.test(sql) && /\bversion\b/i.test(sql)) {
+      return {
+        results: Object.entries(MOCK_DATABASES[database] ?? {})
+          .map(([tabname, table], index) => ({ tabname, tabid: 100 + index, tabtype: table.view ? "V" : "T", version: table.version ?? 1 }))
+      };
+    }
+    if (/\bsyscolcomments\b/i.test(sql)) {
+      return {
+        results: Object.entries(MOCK_DATABASES[database] ?? {})
+          .flatMap(([tabname, table]) => Object.entries(table.columnComments ?? {}).map(([colname, comments]) => ({ tabname, colname, comments })))
+      };
+    }
+    if (/\bsyscomments\b/i.test(sql)) {
+      return {
+        results: Object.entries(MOCK_DATABASES[database] ?? {})
+          .filter(([, table]) => table.comment)
+          .map(([tabname, table]) => ({ tabname, comments: table.comment }))
+      };
+    }
+    if (/\bsystables\b/i.test(sql) && /tabtype\s*=\s*'V'/i.test(sql)) {
+      return {
+        results: Object.entries(MOCK_DATABASES[database] ?? {}).filter(([, table]) => table.view).map(([tabname]) => ({ tabname }))
+      };
+    }
+    // Table statistics for the names passed as parameters
+    if (/\bsystables\b/i.test(sql) && /\bnrows\b/i.test(sql)) {
+      const names = (params as unknown[]).map((name) => String(name).toLowerCase());
+      return {
+        results: Object.entries(MOCK_DATABASES[database] ?? {})
+          .filter(([tabname]) => names.includes(tabname))
+          .map(([tabname, table]) => ({ tabname, nrows: table.nrows ?? table.rows.length }))
+      };
+    }
+    const from = FROM_TABLE.exec(sql);
+    if (!from) {
+      return { error: "Mock bridge: unsupported statement" };
+    }
+    const table = findTable(from[1] ?? database, from[2]);
+    if (!table) {
+      return notFound("Table", from[2], from[1] ?? database);
+    }
+    if (/^\s*select\s+(first\s+\d+\s+)?count\(\*\)/i.test(sql)) {
+      return { results: [{ row_count: table.rows.length }] };
+    }
+    const skip = Number(/\bskip\s+(\d+)/i.exec(sql)?.[1] ?? 0);
+    const first = /\bfirst\s+(\d+)/i.exec(sql) ?? /\bsamples\s+of\s+(\d+)\s+rows\b/i.exec(sql);
+    return { results: table.rows.slice(skip, first ? skip + Number(first[1]) : undefined) };
+  },
+
+  // Plans the first table of the statement only: an index path when the WHERE
+  // clause compares the leading column of an index with '=', otherwise a
+  // sequential scan costed from the table statistics
+  "explain-select": ({ sql = "", database = "eadmin" }) => {
+    const from = FROM_TABLE.exec(sql);
+    if (!from) {
+      return { error: "Mock bridge: unsupported statement" };
+    }
+    const table = findTable(from[1] ?? database, from[2]);
+    if (!table) {
+      return notFound("Table", from[2], from[1] ?? database);
+    }
+    const nrows = table.nrows ?? table.rows.length;
+    const name = from[3] ?? from[2];
+    const where = /\bwhere\s+(.+?)\s*(?:\border\s+by\b|\bgroup\s+by\b|$)/is.exec(sql)?.[1];
+    const index = where && indexesOf(from[2].toLowerCase(), table)
+      .find((candidate) => new RegExp(`\\b${candidate.columns[0]}\\s*=`, "i").test(where));
+    const first = /\bfirst\s+(\d+)/i.exec(sql);
+    const rows = Math.min(index ? 1 : where ? Math.ceil(nrows / 10) : nrows, first ? Number(first[1]) : Infinity);
+    const plan = [
+      "QUERY: (OPTIMIZATION TIMESTAMP: 01-31-2026 09:00:00)",
+      "------",
+      sql,
+      "",
+      `Estimated Cost: ${index ? 2 : Math.ceil(nrows / 4) + 1}`,
+      `Estimated # of Rows Returned: ${rows}`,
+      ...(/\border\s+by\b/i.test(sql) ? ["Temporary Files Required For: Order By"] : []),
+      "",
+      `  1) informix.${name}: ${index ? "INDEX PATH" : "SEQUENTIAL SCAN"}`,
+      "",
+      ...(index
+        ? [
+          `    (1) Index Name: informix.${index.index_name}`,
+          `        Index Keys: ${index.columns.join(" ")}   (Serial, fragments: ALL)`,
+          `        Lower Index Filter: informix.${name}.${index.columns[0]} = ?`
+        ]
+        : where ? [`        Filters: ${where}`] : [])
+    ];
+    return { results: [{ plan: plan.join("\n") }] };
+  }
+};
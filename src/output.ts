@@ -0,0 +1,125 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// Tool output. Every tool returns its data as `structuredContent`, described by
+// the tool's `outputSchema`, plus one text block in the format the caller asked
+// for: prose (the default), a markdown table, CSV, or the structured content as
+// JSON.
+
+export const OUTPUT_FORMATS = ["text", "markdown", "csv", "json"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export function formatParam() {
+  return z.enum(OUTPUT_FORMATS).optional().describe(
+    "Rendering of the text content: 'text' (default), 'markdown' table, 'csv' or 'json'. structuredContent is always included."
+  );
+}
+
+// Error results carry these fields instead of the tool's own. MCP clients
+// validate structuredContent against the output schema even for errors, so
+// every schema accepts them and the success fields are optional.
+const errorOutputShape = {
+  error: z.string().optional().describe("Error class; only set when isError is true"),
+  message: z.string().optional(),
+  issues: z.array(z.object({ field: z.string(), message: z.string() })).optional(),
+  clientId: z.string().optional(),
+  target: z.object({
+    profile: z.string().optional(),
+    queryName: z.string().optional(),
+    database: z.string().optional(),
+    table: z.string().optional()
+  }).optional()
+};
+
+/** Output schema for a tool: its success fields plus the shared error fields. */
+export function toolOutputShape<T extends z.ZodRawShape>(shape: T) {
+  return { ...z.object(shape).partial().shape, ...errorOutputShape };
+}
+
+export const rowsOutput = z.array(z.record(z.unknown()));
+
+export const redactedColumnsOutput = z.array(z.object({
+  column: z.string(),
+  strategy: z.string()
+})).describe("Columns redacted before the rows were returned");
+
+export const cacheStatusOutput = z.object({
+  hit: z.boolean(),
+  ageSeconds: z.number(),
+  ttlSeconds: z.number()
+}).describe("Metadata cache status; absent for uncached queries");
+
+/** Column names across all rows, in first-seen order. */
+export function columnsOf(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((column) => columns.add(column)));
+  return [...columns];
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/** One RFC 4180 CSV record, without the line break. */
+export function csvRecord(values: unknown[]): string {
+  const quote = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  return values.map((value) => quote(cellText(value))).join(",");
+}
+
+/** RFC 4180 CSV with a header row. */
+export function toCsv(rows: Record<string, unknown>[], columns = columnsOf(rows)): string {
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))].map(csvRecord).join("\n");
+}
+
+/** GitHub-flavoured markdown table. */
+export function toMarkdownTable(rows: Record<string, unknown>[], columns = columnsOf(rows)): string {
+  if (columns.length === 0) {
+    return "_No rows_";
+  }
+  const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+  return [
+    `| ${columns.map(escape).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${columns.map((column) => escape(cellText(row[column]))).join(" | ")} |`)
+  ].join("\n");
+}
+
+export interface ToolOutput {
+  /** Prose for the default `text` format. */
+  text: string;
+  /** Heading above the markdown table. */
+  title: string;
+  /** The primary table, rendered by the markdown and CSV formats. */
+  rows: Record<string, unknown>[];
+  columns?: string[];
+  /** Footers such as redaction and cache notes, appended to text and markdown. */
+  notes?: string;
+  structured: Record<string, unknown>;
+}
+
+/** Build a successful tool result in the requested format. */
+export function renderToolResult(format: OutputFormat, { text, title, rows, columns, notes = "", structured }: ToolOutput): CallToolResult {
+  let rendered: string;
+  switch (format) {
+    case "text":
+      rendered = text + notes;
+      break;
+    case "markdown":
+      rendered = `**${title}**\n\n${toMarkdownTable(rows, columns)}${notes}`;
+      break;
+    case "csv":
+      rendered = toCsv(rows, columns);
+      break;
+    case "json":
+      rendered = JSON.stringify(structured, null, 2);
+      break;
+  }
+  return {
+    content: [{ type: "text", text: rendered }],
+    structuredContent: structured
+  };
+}
@@ -0,0 +1,85 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// Paging for results too large for one response. A page holds at most
+// `pageSize` rows and at most a byte budget of serialised rows; when more rows
+// remain the result carries an opaque `nextCursor` for `fetch-next-page`.
+//
+// Cursors are base64url JSON signed with a per-process key, so they cannot be
+// forged or edited, stop working when the server restarts, and are only
+// accepted from the client they were issued to.
+
+const CURSOR_TTL_MS = 60 * 60 * 1000;
+
+/** Where to continue reading: sample rows of a table, or a database's table list. */
+export type PageSource =
+  | { kind: "sample-data"; profile: string; database: string; table: string }
+  | { kind: "tables"; profile: string; database: string };
+
+export type PageCursor = PageSource & {
+  clientId: string;
+  /** Rows already returned. */
+  offset: number;
+  pageSize: number;
+};
+
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CursorError";
+  }
+}
+
+export interface CursorCodec {
+  encode(cursor: PageCursor): string;
+  /** Verify and decode a cursor; throws `CursorError` if it is invalid, expired or issued to another client. */
+  decode(token: string, clientId: string): PageCursor;
+}
+
+export function createCursorCodec(secret: Buffer = randomBytes(32)): CursorCodec {
+  const sign = (payload: string) => createHmac("sha256", secret).update(payload).digest("base64url");
+
+  return {
+    encode(cursor) {
+      const payload = Buffer.from(JSON.stringify({ ...cursor, issuedAt: Date.now() })).toString("base64url");
+      return `${payload}.${sign(payload)}`;
+    },
+    decode(token, clientId) {
+      const [payload, signature = ""] = token.split(".", 2);
+      const expected = Buffer.from(sign(payload ?? ""));
+      const presented = Buffer.from(signature);
+      if (!payload || expected.length !== presented.length || !timingSafeEqual(expected, presented)) {
+        throw new CursorError("Invalid cursor: pass the nextCursor value exactly as it was returned");
+      }
+
+      const { issuedAt, ...cursor } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+      if (Date.now() - issuedAt > CURSOR_TTL_MS) {
+        throw new CursorError("Cursor has expired; run the original query again");
+      }
+      if (cursor.clientId !== clientId) {
+        throw new CursorError("Cursor was issued to a different client");
+      }
+      return cursor as PageCursor;
+    }
+  };
+}
+
+export interface BudgetedRows<T> {
+  rows: T[];
+  /** True when rows were dropped to stay within the budget. */
+  truncated: boolean;
+}
+
+/**
+ * Keep the leading rows whose serialised size fits in `maxBytes`. The first
+ * row is always kept so a page never comes back empty.
+ */
+export function fitToBudget<T>(rows: T[], maxBytes: number): BudgetedRows<T> {
+  let bytes = 0;
+  for (let index = 0; index < rows.length; index++) {
+    bytes += Buffer.byteLength(JSON.stringify(rows[index]) ?? "");
+    if (bytes > maxBytes && index > 0) {
+      return { rows: rows.slice(0, index), truncated: true };
+    }
+  }
+  return { rows, truncated: false };
+}
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import type { CatalogQuery, ParameterSpec } from "./catalog.js";
+
+// Parameter validation shared by `query-informix` (built per catalog query) and
+// the dedicated tools, so bad input is rejected before reaching the bridge.
+
+// Informix identifiers: a letter or underscore followed by letters, digits,
+// underscores or dollar signs, at most 128 characters; optionally owner-qualified.
+const IDENTIFIER_PART = "[A-Za-z_][A-Za-z0-9_$]{0,127}";
+const IDENTIFIER_PATTERN = new RegExp(`^(${IDENTIFIER_PART}\\.)?${IDENTIFIER_PART}$`);
+
+export const MAX_RECORD_LIMIT = 1000;
+
+export function identifierParam(label: string) {
+  return z.string().regex(IDENTIFIER_PATTERN, `${label} must be a valid Informix identifier (letters, digits, '_' or '$', optionally prefixed with 'owner.')`);
+}
+
+export function databaseParam(databases: readonly string[]) {
+  return z.enum(databases as [string, ...string[]], {
+    errorMap: () => ({ message: `Database must be one of: ${databases.join(", ")}` })
+  });
+}
+
+export function profileParam(profiles: readonly string[]) {
+  return z.enum(profiles as [string, ...string[]], {
+    errorMap: () => ({ message: `Profile must be one of: ${profiles.join(", ")}` })
+  });
+}
+
+export function limitParam(maximum = MAX_RECORD_LIMIT) {
+  return z.number().int("Limit must be an integer").min(1, "Limit must be at least 1").max(maximum, `Limit must be at most ${maximum}`);
+}
+
+export interface ParamsSchemaOptions {
+  /** Databases a `database`-formatted parameter may name. */
+  databases: readonly string[];
+}
+
+function buildParameterSchema(name: string, spec: ParameterSpec, { databases }: ParamsSchemaOptions): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+
+  switch (spec.type) {
+    case "string":
+      if (spec.format === "database") {
+        schema = databaseParam(databases);
+      } else if (spec.format === "identifier") {
+        schema = identifierParam(name);
+      } else {
+        let text = z.string();
+        if (spec.maxLength !== undefined) text = text.max(spec.maxLength);
+        schema = spec.enum ? text.refine((value) => spec.enum!.includes(value), {
+          message: `${name} must be one of: ${spec.enum.join(", ")}`
+        }) : text;
+      }
+      break;
+    case "integer":
+    case "number": {
+      let number = spec.type === "integer" ? z.number().int(`${name} must be an integer`) : z.number();
+      if (spec.minimum !== undefined) number = number.min(spec.minimum, `${name} must be at least ${spec.minimum}`);
+      if (spec.maximum !== undefined) number = number.max(spec.maximum, `${name} must be at most ${spec.maximum}`);
+      schema = number;
+      break;
+    }
+    case "boolean":
+      schema = z.boolean();
+      break;
+  }
+
+  if (spec.default !== undefined) {
+    return schema.default(spec.default);
+  }
+  return spec.required ? schema : schema.optional();
+}
+
+/**
+ * Strict schema for the `params` of a catalog query: unknown keys, missing
+ * required parameters and out-of-range values are all rejected.
+ */
+export function buildParamsSchema(query: CatalogQuery, options: ParamsSchemaOptions) {
+  const shape = Object.fromEntries(
+    Object.entries(query.parameters).map(([name, spec]) => [name, buildParameterSchema(name, spec, options)])
+  );
+  return z.object(shape).strict();
+}
+
+export interface ParamIssue {
+  field: string;
+  message: string;
+}
+
+/** Flatten zod issues into `{ field, message }` pairs naming the offending parameter. */
+export function describeParamIssues(error: z.ZodError, prefix = "params"): ParamIssue[] {
+  return error.issues.flatMap((issue) => {
+    if (issue.code === "unrecognized_keys") {
+      return issue.keys.map((key) => ({
+        field: [prefix, ...issue.path, key].join("."),
+        message: "Unknown parameter"
+      }));
+    }
+    return [{ field: [prefix, ...issue.path].join("."), message: issue.message }];
+  });
+}
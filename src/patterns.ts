@@ -0,0 +1,31 @@
+// Case-insensitive wildcard patterns (`*` and `?`) shared by the access policy
+// and redaction rules.
+
+const compiled = new Map<string, RegExp>();
+
+function compilePattern(pattern: string): RegExp {
+  let regex = compiled.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split("")
+      .map((ch) => ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+      .join("");
+    regex = new RegExp(`^${source}$`, "i");
+    compiled.set(pattern, regex);
+  }
+  return regex;
+}
+
+export function matchesAny(patterns: string[], value: string): boolean {
+  return patterns.some((pattern) => compilePattern(pattern).test(value));
+}
+
+/** A bare table pattern applies to every database: `emp*` becomes `*:emp*`. */
+export function qualifyTablePatterns(patterns: string[]): string[] {
+  return patterns.map((pattern) => pattern.includes(":") ? pattern : `*:${pattern}`);
+}
+
+/** `database:table` name matched by table patterns; an `owner.` prefix is ignored. */
+export function qualifiedTableName(database: string, table: string): string {
+  return `${database}:${table.includes(".") ? table.slice(table.indexOf(".") + 1) : table}`;
+}
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { readConfigFile } from "./config-file.js";
+import { matchesAny, qualifiedTableName, qualifyTablePatterns } from "./patterns.js";
+
+// Access policy: which connection profiles, databases, tables and bridge query
+// names a client may use. Loaded once at startup from ACCESS_POLICY_FILE;
+// without a file every call is allowed. In HTTP mode rules can differ per
+// client identity (the `clientId` of the bearer token); stdio callers always
+// get the default rules.
+//
+// Patterns are case-insensitive and support `*` and `?` wildcards. Table
+// patterns are `database:table`, or a bare `table` that matches in any database.
+// A name is allowed when it matches an `allow` pattern (or `allow` is omitted)
+// and matches no `deny` pattern.
+
+const ruleSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).default([])
+});
+
+const ruleSetSchema = z.object({
+  profiles: ruleSchema.optional(),
+  databases: ruleSchema.optional(),
+  tables: ruleSchema.optional(),
+  queries: ruleSchema.optional()
+});
+
+const policyFileSchema = z.object({
+  default: ruleSetSchema.default({}),
+  clients: z.record(ruleSetSchema).default({})
+});
+
+type Rule = z.infer<typeof ruleSchema>;
+type RuleSet = z.infer<typeof ruleSetSchema>;
+
+export interface PolicyTarget {
+  profile?: string;
+  queryName?: string;
+  database?: string;
+  table?: string;
+}
+
+export class PolicyError extends Error {
+  readonly clientId: string;
+  readonly target: PolicyTarget;
+
+  constructor(message: string, clientId: string, target: PolicyTarget) {
+    super(message);
+    this.name = "PolicyError";
+    this.clientId = clientId;
+    this.target = target;
+  }
+}
+
+export const ANONYMOUS_CLIENT = "local";
+
+function ruleAllows(rule: Rule | undefined, value: string): boolean {
+  if (!rule) {
+    return true;
+  }
+  if (rule.allow && !matchesAny(rule.allow, value)) {
+    return false;
+  }
+  return !matchesAny(rule.deny, value);
+}
+
+export interface AccessPolicy {
+  /** Where the policy came from: a file path or "allow-all". */
+  readonly source: string;
+  allowsProfile(clientId: string, profile: string): boolean;
+  allowsQuery(clientId: string, queryName: string): boolean;
+  allowsDatabase(clientId: string, database: string): boolean;
+  allowsTable(clientId: string, database: string, table: string): boolean;
+  /** Throw a `PolicyError` unless every part of `target` is allowed for `clientId`. */
+  check(clientId: string, target: PolicyTarget): void;
+}
+
+export function createAccessPolicy(source: string, defaults: RuleSet = {}, clients: Record<string, RuleSet> = {}): AccessPolicy {
+  const rulesFor = (clientId: string): RuleSet => ({ ...defaults, ...clients[clientId] });
+
+  const policy: AccessPolicy = {
+    source,
+    allowsProfile(clientId, profile) {
+      return ruleAllows(rulesFor(clientId).profiles, profile);
+    },
+    allowsQuery(clientId, queryName) {
+      return ruleAllows(rulesFor(clientId).queries, queryName);
+    },
+    allowsDatabase(clientId, database) {
+      return ruleAllows(rulesFor(clientId).databases, database);
+    },
+    allowsTable(clientId, database, table) {
+      if (!policy.allowsDatabase(clientId, database)) {
+        return false;
+      }
+      const rule = rulesFor(clientId).tables;
+      if (!rule) {
+        return true;
+      }
+      return ruleAllows({
+        allow: rule.allow && qualifyTablePatterns(rule.allow),
+        deny: qualifyTablePatterns(rule.deny)
+      }, qualifiedTableName(database, table));
+    },
+    check(clientId, target) {
+      if (target.profile && !policy.allowsProfile(clientId, target.profile)) {
+        throw new PolicyError(`Profile '${target.profile}' is not allowed for client '${clientId}'`, clientId, target);
+      }
+      if (target.queryName && !policy.allowsQuery(clientId, target.queryName)) {
+        throw new PolicyError(`Query '${target.queryName}' is not allowed for client '${clientId}'`, clientId, target);
+      }
+      if (target.database && !policy.allowsDatabase(clientId, target.database)) {
+        throw new PolicyError(`Database '${target.database}' is not allowed for client '${clientId}'`, clientId, target);
+      }
+      if (target.database && target.table && !policy.allowsTable(clientId, target.database, target.table)) {
+        throw new PolicyError(`Table '${target.database}:${target.table}' is not allowed for client '${clientId}'`, clientId, target);
+      }
+    }
+  };
+  return policy;
+}
+
+/**
+ * Load the access policy from a JSON or YAML file. Without a file, everything
+ * is allowed.
+ */
+export async function loadAccessPolicy(file?: string): Promise<AccessPolicy> {
+  if (!file) {
+    return createAccessPolicy("allow-all");
+  }
+
+  const { default: defaults, clients } = await readConfigFile(file, policyFileSchema, "access policy");
+  return createAccessPolicy(file, defaults, clients);
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { readConfigFile } from "./config-file.js";
+
+// Named connection profiles, one per Informix instance (e.g. dev, UAT and
+// prod), each reached through its own PHP bridge. Loaded once at startup from
+// PROFILES_FILE; without a file, PHP_API_URL and INFORMIX_API_KEY form a single
+// profile named "default".
+
+const PROFILE_NAME = /^[a-z][a-z0-9_-]*$/;
+
+const profileSchema = z.object({
+  url: z.string().url(),
+  /** The API key itself, or `apiKeyEnv`: the environment variable holding it. */
+  apiKey: z.string().min(1).optional(),
+  apiKeyEnv: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().default(30000),
+  databases: z.array(z.string().min(1)).min(1).optional(),
+  readOnly: z.boolean().default(false),
+  description: z.string().optional()
+}).refine((profile) => !profile.apiKey !== !profile.apiKeyEnv, "give exactly one of apiKey or apiKeyEnv");
+
+const profilesFileSchema = z.object({
+  default: z.string().optional(),
+  profiles: z.record(profileSchema).refine((profiles) => Object.keys(profiles).length > 0, "at least one profile is required")
+});
+
+export interface ConnectionProfile {
+  name: string;
+  url: string;
+  apiKey: string;
+  /** Default bridge request timeout in milliseconds. */
+  timeoutMs: number;
+  /** Databases tools may target on this instance. */
+  databases: string[];
+  /** Refuse catalog queries that are not marked read-only. */
+  readOnly: boolean;
+  description?: string;
+}
+
+export interface ProfileSet {
+  /** Where the profiles came from: a file path or "environment". */
+  readonly source: string;
+  readonly defaultProfile: string;
+  readonly profiles: ConnectionProfile[];
+  /** The named profile, or the default one; throws for unknown names. */
+  get(name?: string): ConnectionProfile;
+}
+
+export interface LoadProfilesOptions {
+  file?: string;
+  /** Single-instance settings used without a file. */
+  url?: string;
+  apiKey?: string;
+  /** Databases for profiles that do not list their own. */
+  databases: string[];
+  env?: NodeJS.ProcessEnv;
+}
+
+function createProfileSet(source: string, defaultProfile: string, profiles: ConnectionProfile[]): ProfileSet {
+  const byName = new Map(profiles.map((profile) => [profile.name, profile]));
+  return {
+    source,
+    defaultProfile,
+    profiles,
+    get(name = defaultProfile) {
+      const profile = byName.get(name);
+      if (!profile) {
+        throw new Error(`Unknown profile '${name}' (expected one of: ${[...byName.keys()].join(", ")})`);
+      }
+      return profile;
+    }
+  };
+}
+
+/**
+ * Load connection profiles from a JSON or YAML file, resolving `apiKeyEnv`
+ * references. Without a file, `url` and `apiKey` are required and become the
+ * "default" profile.
+ */
+export async function loadProfiles({ file, url, apiKey, databases, env = process.env }: LoadProfilesOptions): Promise<ProfileSet> {
+  if (!file) {
+    if (!apiKey) {
+      throw new Error("INFORMIX_API_KEY environment variable is required");
+    }
+    if (!url) {
+      throw new Error("PHP_API_URL environment variable is required");
+    }
+    return createProfileSet("environment", "default", [
+      { name: "default", url, apiKey, timeoutMs: 30000, databases, readOnly: false }
+    ]);
+  }
+
+  const config = await readConfigFile(file, profilesFileSchema, "connection profiles");
+  const profiles = Object.entries(config.profiles).map(([name, profile]): ConnectionProfile => {
+    if (!PROFILE_NAME.test(name)) {
+      throw new Error(`Invalid profile name '${name}' in ${file}: use lower-case letters, digits, '-' and '_'`);
+    }
+    const key = profile.apiKey ?? env[profile.apiKeyEnv!];
+    if (!key) {
+      throw new Error(`Profile '${name}' in ${file}: environment variable ${profile.apiKeyEnv} is not set`);
+    }
+    return {
+      name,
+      url: profile.url,
+      apiKey: key,
+      timeoutMs: profile.timeoutMs,
+      databases: profile.databases ?? databases,
+      readOnly: profile.readOnly,
+      description: profile.description
+    };
+  });
+
+  const defaultProfile = config.default ?? profiles[0].name;
+  if (!profiles.some((profile) => profile.name === defaultProfile)) {
+    throw new Error(`Default profile '${defaultProfile}' is not defined in ${file}`);
+  }
+  return createProfileSet(file, defaultProfile, profiles);
+}
@@ -0,0 +1,201 @@
+// Column profiles for `profile-table`: null, distinct and frequent-value
+// counts, ranges and histograms, computed from a sample of a table's rows.
+// Large tables are sampled with Informix `SAMPLES OF n ROWS`, or with a
+// bounded `FIRST n` scan where sampling is not available.
+
+export type ColumnKind = "numeric" | "text" | "temporal" | "boolean" | "other";
+
+/** How the profiled rows were chosen. */
+export type SamplingMethod = "none" | "samples-of" | "first-rows";
+
+export interface ValueCount {
+  value: unknown;
+  count: number;
+}
+
+/** Values in `[from, to)`; the last bin also holds `to`. */
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface LengthStats {
+  min: number;
+  max: number;
+  mean: number;
+  histogram: HistogramBin[];
+}
+
+export interface ColumnProfile {
+  column: string;
+  /** Declaration, e.g. `DECIMAL(12,2)`. */
+  type: string;
+  kind: ColumnKind;
+  nullCount: number;
+  /** Share of NULLs among the profiled rows, 0 to 1. */
+  nullRatio: number;
+  distinctCount: number;
+  min: unknown;
+  max: unknown;
+  /** Most frequent non-NULL values, most frequent first. */
+  topValues: ValueCount[];
+  /** Length distribution of text values. */
+  lengths?: LengthStats;
+  /** Value distribution of numeric columns. */
+  histogram?: HistogramBin[];
+}
+
+export interface TableProfile {
+  /** Exact row count of the table. */
+  rowCount: number;
+  /** Rows the column profiles were computed from. */
+  sampleRows: number;
+  sampling: SamplingMethod;
+  columns: ColumnProfile[];
+  /** Columns not profiled because of their type (BYTE, TEXT, BLOB, CLOB). */
+  skippedColumns: string[];
+}
+
+export interface ProfileOptions {
+  /** Frequent values to keep per column. */
+  topK: number;
+  /** Bins per histogram. */
+  bins: number;
+}
+
+const KINDS: Record<string, ColumnKind> = {
+  SMALLINT: "numeric", INTEGER: "numeric", INT: "numeric", SERIAL: "numeric", INT8: "numeric", SERIAL8: "numeric",
+  BIGINT: "numeric", BIGSERIAL: "numeric", FLOAT: "numeric", SMALLFLOAT: "numeric", DECIMAL: "numeric", MONEY: "numeric",
+  CHAR: "text", NCHAR: "text", VARCHAR: "text", NVARCHAR: "text", LVARCHAR: "text",
+  DATE: "temporal", DATETIME: "temporal", INTERVAL: "temporal",
+  BOOLEAN: "boolean"
+};
+
+// Large objects come back as handles or not at all, so they are not profiled
+const UNPROFILED_TYPES = new Set(["BYTE", "TEXT", "BLOB", "CLOB"]);
+
+// Leading keyword of a declaration such as `DECIMAL(12,2)` or `DATETIME YEAR TO SECOND`
+const baseTypeOf = (type: string) => /^[A-Z0-9]+/i.exec(type.trim())?.[0].toUpperCase() ?? "";
+
+/** Kind of a column from its declaration. */
+export function columnKind(type: string): ColumnKind {
+  return KINDS[baseTypeOf(type)] ?? "other";
+}
+
+/** Whether a column of this declaration can be profiled. */
+export function isProfilable(type: string): boolean {
+  return !UNPROFILED_TYPES.has(baseTypeOf(type));
+}
+
+/**
+ * SELECT for the profiled rows: the whole table when it has at most `size`
+ * rows, otherwise a sample of `size` rows (`samples-of`) or the first `size`.
+ */
+export function sampleStatement(table: string, columns: string[], size: number, sampling: SamplingMethod): string {
+  return sampling === "samples-of"
+    ? `SELECT ${columns.join(", ")} FROM ${table} SAMPLES OF ${size} ROWS`
+    : `SELECT FIRST ${size} ${columns.join(", ")} FROM ${table}`;
+}
+
+/**
+ * Equal-width histogram from the smallest to the largest value. With
+ * `integer`, bin edges are whole numbers (for lengths).
+ */
+export function histogram(values: number[], bins: number, integer = false): HistogramBin[] {
+  if (values.length === 0) {
+    return [];
+  }
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) {
+    return [{ from: min, to: max, count: values.length }];
+  }
+  const width = integer ? Math.max(1, Math.ceil((max - min + 1) / bins)) : (max - min) / bins;
+  const count = integer ? Math.ceil((max - min + 1) / width) : bins;
+  const result = Array.from({ length: count }, (_, index) => ({
+    from: min + index * width,
+    to: index === count - 1 ? max : min + (index + 1) * width,
+    count: 0
+  }));
+  for (const value of values) {
+    result[Math.min(Math.floor((value - min) / width), count - 1)].count++;
+  }
+  return result;
+}
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/** Profile one column from its values in the profiled rows. */
+export function profileColumn(column: string, type: string, values: unknown[], { topK, bins }: ProfileOptions): ColumnProfile {
+  const kind = columnKind(type);
+  // Informix pads CHAR and NCHAR values with blanks to the declared length
+  const padded = /^N?CHAR$/.test(baseTypeOf(type));
+  const present = values
+    .filter((value) => value !== null && value !== undefined)
+    .map((value) => padded && typeof value === "string" ? value.trimEnd() : value)
+    .map((value) => kind === "numeric" && typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : value);
+
+  const counts = new Map<string, ValueCount>();
+  for (const value of present) {
+    const key = `${typeof value}:${typeof value === "object" ? JSON.stringify(value) : String(value)}`;
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { value, count: 1 });
+    }
+  }
+  const topValues = [...counts.values()]
+    .sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)))
+    .slice(0, topK);
+
+  let min: unknown = null;
+  let max: unknown = null;
+  for (const value of present) {
+    const comparable = typeof value === "number" ? value : String(value);
+    if (min === null || comparable < (min as typeof comparable)) {
+      min = comparable;
+    }
+    if (max === null || comparable > (max as typeof comparable)) {
+      max = comparable;
+    }
+  }
+
+  const profile: ColumnProfile = {
+    column,
+    type,
+    kind,
+    nullCount: values.length - present.length,
+    nullRatio: values.length ? round((values.length - present.length) / values.length) : 0,
+    distinctCount: counts.size,
+    min,
+    max,
+    topValues
+  };
+
+  if (kind === "text") {
+    const lengths = present.map((value) => String(value).length);
+    if (lengths.length) {
+      profile.lengths = {
+        min: Math.min(...lengths),
+        max: Math.max(...lengths),
+        mean: round(lengths.reduce((sum, length) => sum + length, 0) / lengths.length, 2),
+        histogram: histogram(lengths, bins, true)
+      };
+    }
+  }
+  if (kind === "numeric") {
+    profile.histogram = histogram(present.filter((value): value is number => typeof value === "number"), bins);
+  }
+  return profile;
+}
+
+/** Profile the given columns of the profiled rows. */
+export function profileRows(
+  rows: Record<string, unknown>[],
+  columns: { name: string; type: string }[],
+  options: ProfileOptions
+): ColumnProfile[] {
+  return columns.map(({ name, type }) => profileColumn(name, type, rows.map((row) => row[name] ?? row[name.toLowerCase()] ?? null), options));
+}
@@ -0,0 +1,186 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { readConfigFile } from "./config-file.js";
+import { matchesAny, qualifiedTableName, qualifyTablePatterns } from "./patterns.js";
+
+// Column-level redaction applied to result rows before they are formatted, so
+// PII never reaches the model context. Rules are loaded from REDACTION_FILE and
+// matched in order; the first rule whose column (and optional table) patterns
+// match a column decides how that column is redacted.
+
+const ruleSchema = z.discriminatedUnion("strategy", [
+  z.object({
+    strategy: z.literal("drop"),
+    columns: z.array(z.string()).min(1),
+    tables: z.array(z.string()).optional()
+  }),
+  z.object({
+    strategy: z.literal("mask"),
+    columns: z.array(z.string()).min(1),
+    tables: z.array(z.string()).optional(),
+    /** Characters left visible at the end of the value. */
+    keepLast: z.number().int().min(0).default(4),
+    maskChar: z.string().length(1).default("*")
+  }),
+  z.object({
+    strategy: z.literal("hash"),
+    columns: z.array(z.string()).min(1),
+    tables: z.array(z.string()).optional()
+  }),
+  z.object({
+    strategy: z.literal("bucket"),
+    columns: z.array(z.string()).min(1),
+    tables: z.array(z.string()).optional(),
+    bucketSize: z.number().positive().default(10000)
+  })
+]);
+
+const redactionFileSchema = z.object({
+  /** Mixed into hashed values so they cannot be reversed by dictionary lookup. */
+  salt: z.string().default(""),
+  rules: z.array(ruleSchema).default([])
+});
+
+type RedactionRule = z.infer<typeof ruleSchema>;
+
+export type RedactionStrategy = RedactionRule["strategy"];
+
+export interface RedactedColumn {
+  column: string;
+  strategy: RedactionStrategy;
+}
+
+export interface RedactionScope {
+  database: string;
+  /**
+   * Tables the rows come from (`table` or `database:table`); rules restricted
+   * to other tables are skipped.
+   */
+  tables: string[];
+  /**
+   * Result columns computed from other columns, e.g. by `UPPER(ssn) AS code`,
+   * keyed on the lower-cased result name. Such a column is redacted by the
+   * rule of the first of its source columns that one matches.
+   */
+  sources?: Record<string, string[]>;
+}
+
+export interface RedactionResult {
+  rows: Record<string, unknown>[];
+  redacted: RedactedColumn[];
+}
+
+export interface Redactor {
+  /** Where the rules came from: a file path or "none". */
+  readonly source: string;
+  /** How `column` is redacted within `scope`, or undefined when it is not. */
+  strategyFor(column: string, scope: RedactionScope): RedactionStrategy | undefined;
+  redactRows(rows: Record<string, unknown>[], scope: RedactionScope): RedactionResult;
+}
+
+function redactValue(rule: RedactionRule, value: unknown, salt: string): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  switch (rule.strategy) {
+    case "drop":
+      return undefined;
+    case "mask": {
+      const text = String(value);
+      const visible = rule.keepLast > 0 ? text.slice(-rule.keepLast) : "";
+      return rule.maskChar.repeat(Math.max(text.length - visible.length, 0)) + visible;
+    }
+    case "hash":
+      return `sha256:${createHash("sha256").update(salt + String(value)).digest("hex").slice(0, 16)}`;
+    case "bucket": {
+      const number = typeof value === "number" ? value : Number(value);
+      if (!Number.isFinite(number)) {
+        return "[redacted]";
+      }
+      const low = Math.floor(number / rule.bucketSize) * rule.bucketSize;
+      return `${low}-${low + rule.bucketSize}`;
+    }
+  }
+}
+
+export function createRedactor(source: string, rules: RedactionRule[] = [], salt = ""): Redactor {
+  function ruleFor(column: string, scope: RedactionScope): RedactionRule | undefined {
+    return rules.find((rule) => {
+      if (!matchesAny(rule.columns, column)) {
+        return false;
+      }
+      if (!rule.tables) {
+        return true;
+      }
+      const patterns = qualifyTablePatterns(rule.tables);
+      return scope.tables.some((table) => {
+        const [database, name] = table.includes(":") ? table.split(":", 2) : [scope.database, table];
+        return matchesAny(patterns, qualifiedTableName(database, name));
+      });
+    });
+  }
+
+  // A result column is redacted under its own name or, when it is computed,
+  // as the columns it is computed from
+  function decide(column: string, scope: RedactionScope): RedactionRule | undefined {
+    return ruleFor(column, scope) ??
+      (scope.sources?.[column.toLowerCase()] ?? []).map((name) => ruleFor(name, scope)).find(Boolean);
+  }
+
+  return {
+    source,
+    strategyFor(column, scope) {
+      return ruleFor(column, scope)?.strategy;
+    },
+    redactRows(rows, scope) {
+      if (rules.length === 0) {
+        return { rows, redacted: [] };
+      }
+
+      const decisions = new Map<string, RedactionRule | undefined>();
+      const redacted = new Map<string, RedactionStrategy>();
+      const output = rows.map((row) => {
+        const copy: Record<string, unknown> = {};
+        for (const [column, value] of Object.entries(row)) {
+          if (!decisions.has(column)) {
+            decisions.set(column, decide(column, scope));
+          }
+          const rule = decisions.get(column);
+          if (!rule) {
+            copy[column] = value;
+            continue;
+          }
+          redacted.set(column, rule.strategy);
+          if (rule.strategy !== "drop") {
+            copy[column] = redactValue(rule, value, salt);
+          }
+        }
+        return copy;
+      });
+
+      return {
+        rows: output,
+        redacted: [...redacted].map(([column, strategy]) => ({ column, strategy }))
+      };
+    }
+  };
+}
+
+/**
+ * Load redaction rules from a JSON or YAML file. Without a file, rows are
+ * returned unchanged.
+ */
+export async function loadRedactor(file?: string): Promise<Redactor> {
+  if (!file) {
+    return createRedactor("none");
+  }
+
+  const { rules, salt } = await readConfigFile(file, redactionFileSchema, "redaction rules");
+  return createRedactor(file, rules, salt);
+}
+
+/** One-line summary appended to tool output, e.g. "ssn (mask), salary (bucket)". */
+export function describeRedactions(redacted: RedactedColumn[]): string {
+  return redacted.map(({ column, strategy }) => `${column} (${strategy})`).join(", ");
+}
@@ -0,0 +1,185 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+// Resilience for calls to the PHP API bridge: retries with jittered
+// exponential backoff, a circuit breaker that fails fast while the bridge is
+// down, and a limit on requests in flight with a FIFO queue behind it. Each
+// bridge client (one per connection profile) has its own breaker and limiter.
+
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 2, baseDelayMs: 200, maxDelayMs: 2000 };
+
+/**
+ * Delay before retry number `attempt + 1`: "full jitter", a random wait up to
+ * `baseDelayMs * 2^attempt`, capped at `maxDelayMs`, so a burst of failed
+ * calls does not retry in lockstep.
+ */
+export function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions, random = Math.random): number {
+  return Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+/** Run `operation`, retrying the errors `shouldRetry` accepts up to `options.retries` times. */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions,
+  shouldRetry: (error: unknown) => boolean
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.retries || !shouldRetry(error)) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt, options));
+    }
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** Time an open circuit waits before letting one trial request through. */
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = { failureThreshold: 5, resetTimeoutMs: 30000 };
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  /** When an open circuit lets the next trial request through. */
+  retryAt: string | null;
+}
+
+export interface CircuitBreaker {
+  /**
+   * Whether a request may go out now. A half-open circuit admits a single
+   * trial request; its outcome closes or re-opens the circuit.
+   */
+  allow(): boolean;
+  /** Report a request that reached the bridge. */
+  success(): void;
+  /** Report a request that failed because the bridge is unavailable. */
+  failure(): void;
+  /**
+   * Report a request that failed without showing whether the bridge is
+   * healthy, such as a rejected one: the state stays as it is, and a
+   * half-open circuit admits another trial.
+   */
+  release(): void;
+  status(): CircuitStatus;
+}
+
+export function createCircuitBreaker({ failureThreshold, resetTimeoutMs }: CircuitBreakerOptions): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | undefined;
+  let trialRunning = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === undefined) {
+      return "closed";
+    }
+    return Date.now() - openedAt >= resetTimeoutMs ? "half-open" : "open";
+  };
+
+  return {
+    allow() {
+      const current = state();
+      if (current === "half-open" && !trialRunning) {
+        trialRunning = true;
+        return true;
+      }
+      return current === "closed";
+    },
+    success() {
+      failures = 0;
+      openedAt = undefined;
+      trialRunning = false;
+    },
+    failure() {
+      failures++;
+      if (trialRunning || failures >= failureThreshold) {
+        openedAt = Date.now();
+      }
+      trialRunning = false;
+    },
+    release() {
+      trialRunning = false;
+    },
+    status() {
+      return {
+        state: state(),
+        consecutiveFailures: failures,
+        openedAt: openedAt === undefined ? null : new Date(openedAt).toISOString(),
+        retryAt: openedAt === undefined ? null : new Date(openedAt + resetTimeoutMs).toISOString()
+      };
+    }
+  };
+}
+
+export interface ConcurrencyLimiterOptions {
+  maxInFlight: number;
+  /** Requests that may wait for a slot; more are rejected with `QueueFullError`. */
+  maxQueue: number;
+}
+
+export const DEFAULT_CONCURRENCY: ConcurrencyLimiterOptions = { maxInFlight: 8, maxQueue: 100 };
+
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueFullError";
+  }
+}
+
+export interface ConcurrencyLimiter {
+  readonly maxInFlight: number;
+  /** Run `task` once fewer than `maxInFlight` tasks are running, in arrival order. */
+  run<T>(task: () => Promise<T>): Promise<T>;
+  inFlight(): number;
+  queued(): number;
+}
+
+export function createConcurrencyLimiter({ maxInFlight, maxQueue }: ConcurrencyLimiterOptions): ConcurrencyLimiter {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  // A finished task hands its slot straight to the next waiting one
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  return {
+    maxInFlight,
+    async run(task) {
+      if (running < maxInFlight) {
+        running++;
+      } else if (waiting.length >= maxQueue) {
+        throw new QueueFullError(`${running} requests in flight and ${waiting.length} queued`);
+      } else {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    inFlight: () => running,
+    queued: () => waiting.length
+  };
+}
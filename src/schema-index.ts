@@ -0,0 +1,409 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { logger } from "./logger.js";
+
+// Local index of the tables, views and columns of each database of a
+// connection profile, for 'search-schema': names, column types, view
+// definitions and the comments kept in syscomments and syscolcomments.
+//
+// Databases are refreshed incrementally. The tabid and version of each
+// systables row form a stamp that changes when the table is altered, or
+// dropped and created again; only tables with a new stamp are read again
+// (see `planRefresh`). With an index file the index survives restarts, so
+// even the first search after a restart only reads what changed.
+//
+// Searching (see `searchSchema`) splits names and comments into words and
+// ranks tables and columns by how well they match the words of the query:
+// exactly, through a common abbreviation (`dt` for date, `dept` for
+// department, ...), by prefix or within a small edit distance.
+
+export interface IndexedColumn {
+  name: string;
+  /** Declaration, e.g. `VARCHAR(40)` or `DATETIME YEAR TO SECOND`. */
+  type: string;
+  nullable: boolean;
+  comment?: string;
+}
+
+export interface IndexedTable {
+  name: string;
+  kind: "table" | "view";
+  /** systables `tabid:version`; a change means the table must be read again. */
+  stamp: string;
+  comment?: string;
+  /** View text, for views. */
+  definition?: string;
+  columns: IndexedColumn[];
+}
+
+export interface IndexedDatabase {
+  profile: string;
+  database: string;
+  /** When the catalog was last checked for changes (ms since the epoch). */
+  refreshedAt: number;
+  tables: IndexedTable[];
+}
+
+/** One systables row, as read before each refresh. */
+export interface TableStamp {
+  name: string;
+  kind: "table" | "view";
+  stamp: string;
+}
+
+export interface RefreshPlan {
+  /** Tables not in the index yet. */
+  added: TableStamp[];
+  /** Indexed tables whose stamp changed. */
+  changed: TableStamp[];
+  /** Indexed tables to keep as they are. */
+  unchanged: IndexedTable[];
+  /** Indexed tables no longer in the catalog. */
+  removed: string[];
+}
+
+/** Compare the catalog with the index: what must be read, kept and dropped. */
+export function planRefresh(current: IndexedDatabase | undefined, stamps: TableStamp[]): RefreshPlan {
+  const indexed = new Map((current?.tables ?? []).map((table) => [table.name.toLowerCase(), table]));
+  const plan: RefreshPlan = { added: [], changed: [], unchanged: [], removed: [] };
+  for (const stamp of stamps) {
+    const table = indexed.get(stamp.name.toLowerCase());
+    indexed.delete(stamp.name.toLowerCase());
+    if (!table) {
+      plan.added.push(stamp);
+    } else if (table.stamp !== stamp.stamp || table.kind !== stamp.kind) {
+      plan.changed.push(stamp);
+    } else {
+      plan.unchanged.push(table);
+    }
+  }
+  plan.removed = [...indexed.values()].map((table) => table.name);
+  return plan;
+}
+
+export interface SchemaIndex {
+  /** Index file path, or undefined when the index is memory-only. */
+  readonly file?: string;
+  get(profile: string, database: string): IndexedDatabase | undefined;
+  /** Replace the index of one database. */
+  put(entry: IndexedDatabase): void;
+  stats(): { databases: number; tables: number; columns: number };
+}
+
+export interface SchemaIndexOptions {
+  /** JSON file the index is loaded from at startup and saved to after each refresh. */
+  file?: string;
+}
+
+const INDEX_FILE_VERSION = 1;
+
+const keyOf = (profile: string, database: string) => `${profile}\u0000${database}`;
+
+export async function createSchemaIndex({ file }: SchemaIndexOptions = {}): Promise<SchemaIndex> {
+  const entries = new Map<string, IndexedDatabase>();
+
+  if (file) {
+    const text = await readFile(file, "utf8").catch((error) => {
+      if (error.code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    });
+    const saved = text ? JSON.parse(text) : undefined;
+    // An index in another format is rebuilt rather than misread
+    if (saved?.version === INDEX_FILE_VERSION) {
+      for (const entry of saved.databases as IndexedDatabase[]) {
+        entries.set(keyOf(entry.profile, entry.database), entry);
+      }
+    }
+  }
+
+  // Same scheme as the metadata cache: serialised whole-file rewrites through
+  // a temporary file
+  let persisting = Promise.resolve();
+  function persist() {
+    if (!file) {
+      return;
+    }
+    const snapshot = JSON.stringify({ version: INDEX_FILE_VERSION, databases: [...entries.values()] });
+    persisting = persisting
+      .then(async () => {
+        await mkdir(dirname(file), { recursive: true });
+        await writeFile(`${file}.tmp`, snapshot, "utf8");
+        await rename(`${file}.tmp`, file);
+      })
+      .catch((error) => {
+        logger.warn("Failed to write schema index", { file, error });
+      });
+  }
+
+  return {
+    file,
+    get(profile, database) {
+      return entries.get(keyOf(profile, database));
+    },
+    put(entry) {
+      entries.set(keyOf(entry.profile, entry.database), entry);
+      persist();
+    },
+    stats() {
+      const tables = [...entries.values()].flatMap((entry) => entry.tables);
+      return {
+        databases: entries.size,
+        tables: tables.length,
+        columns: tables.reduce((sum, table) => sum + table.columns.length, 0)
+      };
+    }
+  };
+}
+
+// Common abbreviations in Informix schemas, by the word they stand for
+const ABBREVIATIONS: Record<string, string[]> = {
+  account: ["acct", "acc"],
+  address: ["addr"],
+  amount: ["amt"],
+  average: ["avg"],
+  balance: ["bal"],
+  code: ["cd"],
+  count: ["cnt"],
+  customer: ["cust"],
+  date: ["dt"],
+  department: ["dept", "dep"],
+  description: ["desc", "descr"],
+  effective: ["eff"],
+  employee: ["emp", "empl"],
+  identifier: ["id"],
+  invoice: ["inv"],
+  location: ["loc"],
+  manager: ["mgr"],
+  maximum: ["max"],
+  message: ["msg"],
+  minimum: ["min"],
+  number: ["no", "num", "nbr", "nr"],
+  organization: ["org"],
+  password: ["pwd"],
+  percent: ["pct"],
+  phone: ["tel", "ph"],
+  position: ["pos"],
+  previous: ["prev"],
+  quantity: ["qty"],
+  reference: ["ref"],
+  salary: ["sal"],
+  sequence: ["seq"],
+  status: ["stat", "sts"],
+  termination: ["term"],
+  time: ["tm"],
+  total: ["tot"],
+  transaction: ["txn", "trans"],
+  user: ["usr"]
+};
+
+// Plural endings, so `employees` matches `employee`
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 4 && /(ss|x|z|ch|sh)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  return word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word;
+}
+
+// Compared as stemmed, like the words they match
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "for", "in", "on", "to", "with", "by", "at", "from", "is", "are", "was", "s",
+  "it", "be", "do", "does", "did", "has", "have", "that", "this", "there", "any", "all", "find", "show", "list",
+  "where", "when", "which", "what", "who", "how", "lives", "stored", "kept", "column", "table", "field"
+].map(stem));
+
+const ABBREVIATION_PAIRS = new Set(Object.entries(ABBREVIATIONS)
+  .flatMap(([word, abbreviations]) => abbreviations.map((abbreviation) => `${stem(word)} ${stem(abbreviation)}`)));
+
+/**
+ * Lower-case words of an identifier or text: split at non-alphanumerics,
+ * `_`, letter/digit boundaries and camelCase, then stemmed.
+ */
+export function schemaWords(text: string): string[] {
+  return (text.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase().match(/[a-z]+|\d+/g) ?? []).map(stem);
+}
+
+type MatchKind = "exact" | "abbreviation" | "prefix" | "fuzzy";
+
+const MATCH_QUALITY: Record<MatchKind, number> = { exact: 1, abbreviation: 0.9, prefix: 0.7, fuzzy: 0.5 };
+
+// Levenshtein distance, giving up once it exceeds `limit`
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > limit) {
+      return limit + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function matchWord(term: string, word: string): MatchKind | undefined {
+  if (term === word) {
+    return "exact";
+  }
+  if (ABBREVIATION_PAIRS.has(`${term} ${word}`) || ABBREVIATION_PAIRS.has(`${word} ${term}`)) {
+    return "abbreviation";
+  }
+  const [shorter, longer] = term.length <= word.length ? [term, word] : [word, term];
+  if (shorter.length >= 3 && longer.startsWith(shorter)) {
+    return "prefix";
+  }
+  // Other forms of the same word, e.g. `terminate` and `termination`
+  if (shorter.length >= 6 && shorter.slice(0, 6) === longer.slice(0, 6)) {
+    return "prefix";
+  }
+  if (shorter.length >= 5 && editDistance(term, word, shorter.length >= 8 ? 2 : 1) <= (shorter.length >= 8 ? 2 : 1)) {
+    return "fuzzy";
+  }
+  return undefined;
+}
+
+export type SchemaField = "column" | "column-comment" | "table" | "table-comment" | "definition";
+
+/** How one query word matched a hit. */
+export interface SchemaMatch {
+  /** Query word, as stemmed. */
+  term: string;
+  /** Word of the name or text it matched. */
+  word: string;
+  field: SchemaField;
+  kind: MatchKind;
+}
+
+export interface SchemaHit {
+  database: string;
+  table: string;
+  column?: string;
+  /** `database.table.column`, or `database.table` for table and view hits. */
+  path: string;
+  kind: "table" | "view" | "column";
+  /** Column declaration, for column hits. */
+  type?: string;
+  nullable?: boolean;
+  /** Column comment for column hits, table comment otherwise. */
+  comment?: string;
+  /** From 0 to 1: the mean over the query words of their best match, weighted by field. */
+  score: number;
+  matches: SchemaMatch[];
+}
+
+export interface SchemaSearchOptions {
+  /** Hits returned at most, best first. */
+  limit: number;
+  /** Whether a table may be searched, e.g. under the access policy. */
+  visible?: (database: string, table: string) => boolean;
+}
+
+// How much a match counts, by field, for column and for table hits. A
+// column hit needs a match in the column itself; the table's name and
+// comment only add context, e.g. 'employee' in "employee termination date".
+const COLUMN_HIT_WEIGHTS: Partial<Record<SchemaField, number>> = { column: 1, "column-comment": 0.8, table: 0.6, "table-comment": 0.4 };
+const TABLE_HIT_WEIGHTS: Partial<Record<SchemaField, number>> = { table: 1, "table-comment": 0.8, definition: 0.5 };
+
+type FieldWords = [SchemaField, string[]][];
+
+// Best weighted match of every term over the fields; undefined unless a term
+// matched one of the `required` fields
+function scoreFields(terms: string[], fields: FieldWords, weights: Partial<Record<SchemaField, number>>, required: SchemaField[]) {
+  const matches: SchemaMatch[] = [];
+  let total = 0;
+  for (const term of terms) {
+    let best: { match: SchemaMatch; value: number } | undefined;
+    for (const [field, words] of fields) {
+      const weight = weights[field] ?? 0;
+      for (const word of weight > 0 ? words : []) {
+        const kind = matchWord(term, word);
+        const value = kind ? weight * MATCH_QUALITY[kind] : 0;
+        if (kind && value > (best?.value ?? 0)) {
+          best = { match: { term, word, field, kind }, value };
+        }
+      }
+    }
+    if (best) {
+      matches.push(best.match);
+      total += best.value;
+    }
+  }
+  if (!matches.some((match) => required.includes(match.field))) {
+    return undefined;
+  }
+  return { score: Math.round((total / terms.length) * 1000) / 1000, matches };
+}
+
+/** Words of a search query, without stop words; every word when all are stop words. */
+export function queryTerms(query: string): string[] {
+  const words = schemaWords(query);
+  const terms = words.filter((word) => !STOP_WORDS.has(word));
+  return [...new Set(terms.length ? terms : words)];
+}
+
+/**
+ * Rank the tables, views and columns of `databases` against `query`. Ties are
+ * broken in favour of shorter names, then by path.
+ */
+export function searchSchema(databases: IndexedDatabase[], query: string, { limit, visible = () => true }: SchemaSearchOptions): SchemaHit[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+  const hits: (SchemaHit & { nameWords: number })[] = [];
+
+  for (const { database, tables } of databases) {
+    for (const table of tables.filter((candidate) => visible(database, candidate.name))) {
+      const tableFields: FieldWords = [
+        ["table", schemaWords(table.name)],
+        ["table-comment", schemaWords(table.comment ?? "")],
+        ["definition", table.definition ? schemaWords(table.definition.replace(/^.*?\bas\s+select\b/is, "")) : []]
+      ];
+      const tableHit = scoreFields(terms, tableFields, TABLE_HIT_WEIGHTS, ["table", "table-comment", "definition"]);
+      if (tableHit) {
+        hits.push({
+          database,
+          table: table.name,
+          path: `${database}.${table.name}`,
+          kind: table.kind,
+          ...(table.comment && { comment: table.comment }),
+          ...tableHit,
+          nameWords: tableFields[0][1].length
+        });
+      }
+
+      for (const column of table.columns) {
+        const columnFields: FieldWords = [["column", schemaWords(column.name)], ["column-comment", schemaWords(column.comment ?? "")], ...tableFields];
+        const columnHit = scoreFields(terms, columnFields, COLUMN_HIT_WEIGHTS, ["column", "column-comment"]);
+        if (columnHit) {
+          hits.push({
+            database,
+            table: table.name,
+            column: column.name,
+            path: `${database}.${table.name}.${column.name}`,
+            kind: "column",
+            type: column.type,
+            nullable: column.nullable,
+            ...(column.comment && { comment: column.comment }),
+            ...columnHit,
+            nameWords: columnFields[0][1].length
+          });
+        }
+      }
+    }
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || a.nameWords - b.nameWords || a.path.localeCompare(b.path))
+    .slice(0, limit)
+    .map(({ nameWords, ...hit }) => hit);
+}
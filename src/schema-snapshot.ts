@@ -0,0 +1,263 @@
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+// Schema snapshots: every table and view of a database with its columns and
+// view definitions, saved as versioned JSON so that environments, or one
+// database at two points in time, can be compared with `diff-schema`.
+
+/** Format version written to every snapshot file. */
+export const SNAPSHOT_VERSION = 1;
+
+const SNAPSHOT_NAME = /^[\w.-]+\.json$/;
+
+export interface SnapshotColumn {
+  name: string;
+  /** Declaration, e.g. `DECIMAL(12,2)`. */
+  type: string;
+  nullable: boolean;
+}
+
+export interface SnapshotTable {
+  kind: "table" | "view";
+  columns: SnapshotColumn[];
+  /** View text, for views. */
+  definition?: string;
+}
+
+export interface SchemaSnapshot {
+  version: number;
+  /** Connection profile the snapshot was taken on; absent in older files. */
+  profile?: string;
+  database: string;
+  takenAt: string;
+  /** Tables and views by name. */
+  tables: Record<string, SnapshotTable>;
+}
+
+export interface SnapshotInfo {
+  name: string;
+  profile?: string;
+  database: string;
+  takenAt: string;
+  tables: number;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+/**
+ * Object kind from `get-object-type` rows: `object_type` (e.g. `VIEW`) or the
+ * systables `tabtype` (`V` for views).
+ */
+export function objectKind(rows: Record<string, unknown>[]): "table" | "view" {
+  return rows.some((row) => /^view$/i.test(String(row.object_type ?? "")) || row.tabtype === "V") ? "view" : "table";
+}
+
+/**
+ * View text from `get-view-schema` rows: either one `view_definition`, or the
+ * sysviews `viewtext` pieces, joined in `seqno` order.
+ */
+export function viewDefinition(rows: Record<string, unknown>[]): string {
+  const whole = rows.find((row) => typeof row.view_definition === "string");
+  if (whole) {
+    return String(whole.view_definition).trim();
+  }
+  return [...rows]
+    .filter((row) => typeof row.viewtext === "string")
+    .sort((a, b) => Number(a.seqno ?? 0) - Number(b.seqno ?? 0))
+    .map((row) => row.viewtext)
+    .join("")
+    .trim();
+}
+
+export interface SnapshotStore {
+  readonly dir: string;
+  /** Write a snapshot and return its file name. */
+  save(snapshot: SchemaSnapshot): Promise<string>;
+  /** Read a snapshot by file name; throws `SnapshotError` if it is missing or unreadable. */
+  load(name: string): Promise<SchemaSnapshot>;
+  /** Saved snapshots, newest first. */
+  list(): Promise<SnapshotInfo[]>;
+}
+
+export function createSnapshotStore(dir: string): SnapshotStore {
+  async function load(name: string): Promise<SchemaSnapshot> {
+    if (!SNAPSHOT_NAME.test(name)) {
+      throw new SnapshotError(`Invalid snapshot name '${name}': expected a file name such as 'eadmin-2026-01-31T09-00-00-000Z.json'`);
+    }
+    const text = await readFile(join(dir, name), "utf8").catch((error) => {
+      throw new SnapshotError(error.code === "ENOENT" ? `Snapshot '${name}' not found in ${dir}` : `Cannot read snapshot '${name}': ${error.message}`);
+    });
+
+    let snapshot: SchemaSnapshot;
+    try {
+      snapshot = JSON.parse(text);
+    } catch (error) {
+      throw new SnapshotError(`Snapshot '${name}' is not valid JSON`);
+    }
+    if (typeof snapshot?.tables !== "object" || typeof snapshot.database !== "string") {
+      throw new SnapshotError(`Snapshot '${name}' is not a schema snapshot`);
+    }
+    if (snapshot.version > SNAPSHOT_VERSION) {
+      throw new SnapshotError(`Snapshot '${name}' has version ${snapshot.version}; this server reads up to version ${SNAPSHOT_VERSION}`);
+    }
+    return snapshot;
+  }
+
+  return {
+    dir,
+    async save(snapshot) {
+      const name = `${snapshot.profile ? `${snapshot.profile}-` : ""}${snapshot.database}-${snapshot.takenAt.replace(/[:.]/g, "-")}.json`;
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${name}.tmp`), JSON.stringify(snapshot, null, 2), "utf8");
+      await rename(join(dir, `${name}.tmp`), join(dir, name));
+      return name;
+    },
+    load,
+    async list() {
+      const names = await readdir(dir).catch((error) => {
+        if (error.code === "ENOENT") {
+          return [] as string[];
+        }
+        throw error;
+      });
+      const snapshots: SnapshotInfo[] = [];
+      for (const name of names.filter((name) => SNAPSHOT_NAME.test(name))) {
+        const snapshot = await load(name).catch(() => undefined);
+        if (snapshot) {
+          snapshots.push({
+            name,
+            ...(snapshot.profile && { profile: snapshot.profile }),
+            database: snapshot.database,
+            takenAt: snapshot.takenAt,
+            tables: Object.keys(snapshot.tables).length
+          });
+        }
+      }
+      return snapshots.sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+    }
+  };
+}
+
+export interface Change<T> {
+  column: string;
+  from: T;
+  to: T;
+}
+
+export interface TableDiff {
+  table: string;
+  kind: "table" | "view";
+  addedColumns: SnapshotColumn[];
+  removedColumns: SnapshotColumn[];
+  typeChanges: Change<string>[];
+  nullabilityChanges: Change<boolean>[];
+  /** Old and new view text, when a view's definition changed. */
+  definitionChange?: { from: string; to: string };
+}
+
+export interface SchemaDiff {
+  identical: boolean;
+  addedTables: { name: string; kind: "table" | "view" }[];
+  removedTables: { name: string; kind: "table" | "view" }[];
+  changedTables: TableDiff[];
+}
+
+// Informix folds unquoted names to lower case; compare the same way
+const byName = <T>(entries: [string, T][]) => new Map(entries.map(([name, value]) => [name.toLowerCase(), { name, value }]));
+
+const normalizeSql = (text = "") => text.replace(/\s+/g, " ").trim().toLowerCase();
+
+/** Compare two snapshots; changes are reported from `from` to `to`. */
+export function diffSnapshots(from: SchemaSnapshot, to: SchemaSnapshot): SchemaDiff {
+  const before = byName(Object.entries(from.tables));
+  const after = byName(Object.entries(to.tables));
+
+  const addedTables = [...after].filter(([key]) => !before.has(key)).map(([, { name, value }]) => ({ name, kind: value.kind }));
+  const removedTables = [...before].filter(([key]) => !after.has(key)).map(([, { name, value }]) => ({ name, kind: value.kind }));
+  const changedTables: TableDiff[] = [];
+
+  for (const [key, { name, value: old }] of before) {
+    const current = after.get(key)?.value;
+    if (!current) {
+      continue;
+    }
+    const oldColumns = byName(old.columns.map((column) => [column.name, column]));
+    const newColumns = byName(current.columns.map((column) => [column.name, column]));
+    const diff: TableDiff = {
+      table: name,
+      kind: current.kind,
+      addedColumns: [...newColumns].filter(([column]) => !oldColumns.has(column)).map(([, { value }]) => value),
+      removedColumns: [...oldColumns].filter(([column]) => !newColumns.has(column)).map(([, { value }]) => value),
+      typeChanges: [],
+      nullabilityChanges: []
+    };
+    for (const [column, { value: was }] of oldColumns) {
+      const now = newColumns.get(column)?.value;
+      if (now && now.type.toUpperCase() !== was.type.toUpperCase()) {
+        diff.typeChanges.push({ column: now.name, from: was.type, to: now.type });
+      }
+      if (now && now.nullable !== was.nullable) {
+        diff.nullabilityChanges.push({ column: now.name, from: was.nullable, to: now.nullable });
+      }
+    }
+    if ((old.definition !== undefined || current.definition !== undefined) && normalizeSql(old.definition) !== normalizeSql(current.definition)) {
+      diff.definitionChange = { from: old.definition ?? "", to: current.definition ?? "" };
+    }
+    if (diff.addedColumns.length || diff.removedColumns.length || diff.typeChanges.length ||
+        diff.nullabilityChanges.length || diff.definitionChange) {
+      changedTables.push(diff);
+    }
+  }
+
+  return {
+    identical: !addedTables.length && !removedTables.length && !changedTables.length,
+    addedTables,
+    removedTables,
+    changedTables
+  };
+}
+
+/** One row per difference, for tables and CSV. */
+export function diffRows(diff: SchemaDiff): Record<string, unknown>[] {
+  const nullability = (nullable: boolean) => nullable ? "NULL" : "NOT NULL";
+  return [
+    ...diff.addedTables.map((table) => ({ change: `added ${table.kind}`, table: table.name, column: null, from: null, to: null })),
+    ...diff.removedTables.map((table) => ({ change: `removed ${table.kind}`, table: table.name, column: null, from: null, to: null })),
+    ...diff.changedTables.flatMap((table) => [
+      ...table.addedColumns.map((column) => ({ change: "added column", table: table.table, column: column.name, from: null, to: `${column.type} ${nullability(column.nullable)}` })),
+      ...table.removedColumns.map((column) => ({ change: "removed column", table: table.table, column: column.name, from: `${column.type} ${nullability(column.nullable)}`, to: null })),
+      ...table.typeChanges.map((change) => ({ change: "type", table: table.table, column: change.column, from: change.from, to: change.to })),
+      ...table.nullabilityChanges.map((change) => ({ change: "nullability", table: table.table, column: change.column, from: nullability(change.from), to: nullability(change.to) })),
+      ...(table.definitionChange ? [{ change: "view definition", table: table.table, column: null, from: table.definitionChange.from, to: table.definitionChange.to }] : [])
+    ])
+  ];
+}
+
+/** Readable report of a diff between the schemas labelled `fromLabel` and `toLabel`. */
+export function formatDiffReport(diff: SchemaDiff, fromLabel: string, toLabel: string): string {
+  const lines = [`Schema diff: ${fromLabel} → ${toLabel}`, ""];
+  if (diff.identical) {
+    return [...lines, "No differences."].join("\n");
+  }
+
+  lines.push(`${diff.addedTables.length} added, ${diff.removedTables.length} removed, ${diff.changedTables.length} changed`, "");
+  diff.addedTables.forEach((table) => lines.push(`+ ${table.kind} ${table.name}`));
+  diff.removedTables.forEach((table) => lines.push(`- ${table.kind} ${table.name}`));
+  for (const table of diff.changedTables) {
+    lines.push(`~ ${table.kind} ${table.table}`);
+    table.addedColumns.forEach((column) => lines.push(`    + ${column.name} ${column.type} ${column.nullable ? "NULL" : "NOT NULL"}`));
+    table.removedColumns.forEach((column) => lines.push(`    - ${column.name} ${column.type}`));
+    table.typeChanges.forEach((change) => lines.push(`    ${change.column}: ${change.from} → ${change.to}`));
+    table.nullabilityChanges.forEach((change) =>
+      lines.push(`    ${change.column}: ${change.from ? "NULL" : "NOT NULL"} → ${change.to ? "NULL" : "NOT NULL"}`));
+    if (table.definitionChange) {
+      lines.push("    view definition changed:", `      was: ${table.definitionChange.from}`, `      now: ${table.definitionChange.to}`);
+    }
+  }
+  return lines.join("\n");
+}
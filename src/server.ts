@@ -1,610 +1,3675 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, PromptMessage, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import { z } from "zod";
-import axios from "axios";
+import { AuditEntry, AuditSink, createAuditLog, createHttpSink, createRotatingFileSink, createSyslogSink, readAuditFile } from "./audit.js";
+import { BridgeClient, BridgeError, BridgeHealth, BridgeRequestEvent, SqlParam, TableColumn, createBridgeClient } from "./bridge.js";
+import { CacheStatus, createMetadataCache, parseCacheTtls } from "./cache.js";
+import { describeParameter, loadQueryCatalog } from "./catalog.js";
+import { PlanStep, PlanTable, parseExplain, planWarnings } from "./explain.js";
+import { EXPORT_FILE_NAME, EXPORT_FORMATS, EXPORT_MIME_TYPES, ExportColumn, ExportError, ExportFormat, createExportFile } from "./export.js";
+import { decodeColumnType } from "./informix-types.js";
+import { DEFAULT_MAX_SESSIONS, DEFAULT_SESSION_IDLE_MS, parseAuthTokens, startHttpServer } from "./http.js";
+import { Job, JobContext, createJobManager, isFinished } from "./jobs.js";
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel, configureLogger, logContext, logger, withLogContext } from "./logger.js";
+import { LATENCY_BUCKETS, createMetricsRegistry, startMetricsServer } from "./metrics.js";
+import { MAX_RECORD_LIMIT, buildParamsSchema, databaseParam, describeParamIssues, identifierParam, limitParam, profileParam } from "./params.js";
+import { OutputFormat, cacheStatusOutput, formatParam, redactedColumnsOutput, renderToolResult, rowsOutput, toolOutputShape } from "./output.js";
+import { CursorError, PageSource, createCursorCodec, fitToBudget } from "./pagination.js";
+import { ANONYMOUS_CLIENT, PolicyError, PolicyTarget, loadAccessPolicy } from "./policy.js";
+import { ColumnProfile, SamplingMethod, TableProfile, isProfilable, profileRows, sampleStatement } from "./profiling.js";
+import { ConnectionProfile, loadProfiles } from "./profiles.js";
+import { startMockBridge } from "./mock-bridge.js";
+import { RedactedColumn, RedactionScope, describeRedactions, loadRedactor } from "./redaction.js";
+import { DEFAULT_CIRCUIT_BREAKER, DEFAULT_CONCURRENCY, DEFAULT_RETRY, QueueFullError } from "./resilience.js";
+import { IndexedDatabase, IndexedTable, TableStamp, createSchemaIndex, planRefresh, queryTerms, searchSchema } from "./schema-index.js";
+import { SNAPSHOT_VERSION, SchemaSnapshot, SnapshotError, SnapshotTable, createSnapshotStore, diffRows, diffSnapshots, formatDiffReport, objectKind, viewDefinition } from "./schema-snapshot.js";
+import { GuardedSelect, SqlGuardError, TableReference, guardSelect } from "./sql-guard.js";
+
+// Logging for every module: LOG_LEVEL debug, info, warn or error; LOG_FORMAT
+// text or json
+const LOG_LEVEL = (process.env.LOG_LEVEL || "info") as LogLevel;
+const LOG_FORMAT = (process.env.LOG_FORMAT || "text") as LogFormat;
+if (!LOG_LEVELS.includes(LOG_LEVEL) || !LOG_FORMATS.includes(LOG_FORMAT)) {
+  logger.error(`LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")} and LOG_FORMAT one of ${LOG_FORMATS.join(", ")}`,
+    { level: LOG_LEVEL, format: LOG_FORMAT });
+  process.exit(1);
+}
+configureLogger({ level: LOG_LEVEL, format: LOG_FORMAT });
+
+// Offline demo mode: queries are answered by the bundled mock bridge instead
+// of a PHP API bridge, and connection profiles are ignored
+const MOCK_MODE = process.argv.includes("--mock");
+const mockBridge = MOCK_MODE ? await startMockBridge({ apiKey: "mock-api-key" }) : undefined;
 
 // Configuration from environment variables
-const PHP_API_URL = process.env.PHP_API_URL;
-const API_KEY = process.env.INFORMIX_API_KEY;
+const PHP_API_URL = mockBridge?.url ?? process.env.PHP_API_URL;
+const API_KEY = mockBridge?.apiKey ?? process.env.INFORMIX_API_KEY;
+const RUN_SELECT_MAX_ROWS = Number(process.env.RUN_SELECT_MAX_ROWS) || 100;
+// Estimated optimizer cost above which 'run-select' refuses a statement; unset
+// means no limit
+const MAX_QUERY_COST = Number(process.env.MAX_QUERY_COST) || undefined;
+// Tables of at least this many rows count as large in 'explain-query' warnings
+const EXPLAIN_LARGE_TABLE_ROWS = Number(process.env.EXPLAIN_LARGE_TABLE_ROWS) || 100000;
+// Rows 'profile-table' reads; larger tables are sampled
+const PROFILE_SAMPLE_ROWS = Number(process.env.PROFILE_SAMPLE_ROWS) || 5000;
+// Serialised rows per response; RESPONSE_MAX_TOKENS is converted at ~4 bytes per token
+const RESPONSE_MAX_BYTES = Number(process.env.RESPONSE_MAX_BYTES) || Number(process.env.RESPONSE_MAX_TOKENS) * 4 || 50000;
+const LIST_TABLES_PAGE_SIZE = Number(process.env.LIST_TABLES_PAGE_SIZE) || 500;
+const QUERY_CATALOG_FILE = process.env.QUERY_CATALOG_FILE;
+const ACCESS_POLICY_FILE = process.env.ACCESS_POLICY_FILE;
+const REDACTION_FILE = process.env.REDACTION_FILE;
+const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE;
+const AUDIT_LOG_MAX_BYTES = Number(process.env.AUDIT_LOG_MAX_BYTES) || 10 * 1024 * 1024;
+const AUDIT_LOG_MAX_FILES = Number(process.env.AUDIT_LOG_MAX_FILES) || 5;
+const AUDIT_SYSLOG = process.env.AUDIT_SYSLOG;
+const AUDIT_HTTP_URL = process.env.AUDIT_HTTP_URL;
+const AUDIT_HTTP_TOKEN = process.env.AUDIT_HTTP_TOKEN;
+const METADATA_CACHE_FILE = process.env.METADATA_CACHE_FILE;
+const SCHEMA_SNAPSHOT_DIR = process.env.SCHEMA_SNAPSHOT_DIR || "snapshots";
+const SCHEMA_INDEX_FILE = process.env.SCHEMA_INDEX_FILE;
+// 'search-schema' checks a database's catalog for changes when its index is
+// older than this; 0 checks on every search
+const SCHEMA_INDEX_REFRESH_SECONDS = Number(process.env.SCHEMA_INDEX_REFRESH_SECONDS ?? 600);
+const EXPORT_DIR = process.env.EXPORT_DIR || "exports";
+const EXPORT_PAGE_ROWS = Number(process.env.EXPORT_PAGE_ROWS) || 1000;
+const EXPORT_MAX_ROWS = Number(process.env.EXPORT_MAX_ROWS) || 1000000;
+const EXPORT_MAX_JOBS = Number(process.env.EXPORT_MAX_JOBS) || 2;
+const PROFILES_FILE = MOCK_MODE ? undefined : process.env.PROFILES_FILE;
+const BRIDGE_RETRIES = Number(process.env.BRIDGE_RETRIES ?? DEFAULT_RETRY.retries);
+const BRIDGE_RETRY_BASE_MS = Number(process.env.BRIDGE_RETRY_BASE_MS) || DEFAULT_RETRY.baseDelayMs;
+const BRIDGE_RETRY_MAX_MS = Number(process.env.BRIDGE_RETRY_MAX_MS) || DEFAULT_RETRY.maxDelayMs;
+const BRIDGE_BREAKER_THRESHOLD = Number(process.env.BRIDGE_BREAKER_THRESHOLD) || DEFAULT_CIRCUIT_BREAKER.failureThreshold;
+const BRIDGE_BREAKER_RESET_MS = Number(process.env.BRIDGE_BREAKER_RESET_MS) || DEFAULT_CIRCUIT_BREAKER.resetTimeoutMs;
+const BRIDGE_MAX_IN_FLIGHT = Number(process.env.BRIDGE_MAX_IN_FLIGHT) || DEFAULT_CONCURRENCY.maxInFlight;
+const BRIDGE_MAX_QUEUE = Number(process.env.BRIDGE_MAX_QUEUE ?? DEFAULT_CONCURRENCY.maxQueue);
+const MCP_TRANSPORT = process.env.MCP_TRANSPORT || "stdio";
+const MCP_HTTP_HOST = process.env.MCP_HTTP_HOST || "127.0.0.1";
+const MCP_HTTP_PORT = Number(process.env.MCP_HTTP_PORT) || 3000;
+const MCP_AUTH_TOKENS = parseAuthTokens(process.env.MCP_AUTH_TOKENS);
+const MCP_SESSION_IDLE_SECONDS = Number(process.env.MCP_SESSION_IDLE_SECONDS) || DEFAULT_SESSION_IDLE_MS / 1000;
+const MCP_MAX_SESSIONS = Number(process.env.MCP_MAX_SESSIONS) || DEFAULT_MAX_SESSIONS;
+// Prometheus /metrics endpoint; off unless METRICS_PORT is set
+const METRICS_PORT = Number(process.env.METRICS_PORT) || undefined;
+const METRICS_HOST = process.env.METRICS_HOST || "127.0.0.1";
+// 'database-status' reports a profile's last successful bridge request when it
+// is at most this old instead of probing the bridge; 0 always probes
+const STATUS_MAX_AGE_MS = Number(process.env.STATUS_MAX_AGE_MS ?? 30000);
+// Database the 'investigate-audit-trail' prompt reads
+const AUDIT_DATABASE = "auditdb";
+const DEFAULT_DATABASES = (process.env.INFORMIX_DATABASES || "eadmin,payrolldb,ppc,auditdb")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
 
-if (!API_KEY) {
-    console.error("❌ Error: INFORMIX_API_KEY environment variable is required");
-    process.exit(1);
+if (!Number.isInteger(BRIDGE_RETRIES) || BRIDGE_RETRIES < 0 || !Number.isInteger(BRIDGE_MAX_QUEUE) || BRIDGE_MAX_QUEUE < 0) {
+  logger.error("BRIDGE_RETRIES and BRIDGE_MAX_QUEUE must be non-negative integers");
+  process.exit(1);
+}
+
+if (MCP_TRANSPORT !== "stdio" && MCP_TRANSPORT !== "http") {
+  logger.error("MCP_TRANSPORT must be 'stdio' or 'http'", { transport: MCP_TRANSPORT });
+  process.exit(1);
+}
+
+if (MCP_TRANSPORT === "http" && MCP_AUTH_TOKENS.length === 0) {
+  logger.error("MCP_AUTH_TOKENS environment variable is required in HTTP mode");
+  process.exit(1);
 }
 
-if (!PHP_API_URL) {
-  console.error("❌ Error: PHP_API_URL environment variable is required");
+// Metrics for the /metrics endpoint and the info://metrics resource
+const metrics = createMetricsRegistry();
+const toolCalls = metrics.counter("informix_mcp_tool_calls_total", "Tool calls by tool and outcome (success, failure, denied)");
+const toolErrors = metrics.counter("informix_mcp_tool_errors_total", "Failed and denied tool calls by tool and error class");
+const toolDuration = metrics.histogram("informix_mcp_tool_duration_seconds", "Tool call duration in seconds", LATENCY_BUCKETS);
+const toolsInFlight = metrics.gauge("informix_mcp_tool_calls_in_flight", "Tool calls being handled");
+const bridgeRequests = metrics.counter("informix_mcp_bridge_requests_total", "Bridge requests by profile, query and result (success or error class)");
+const bridgeDuration = metrics.histogram("informix_mcp_bridge_request_duration_seconds",
+  "Bridge request duration in seconds by profile and query, retries and queueing included", LATENCY_BUCKETS);
+const bridgeRetries = metrics.counter("informix_mcp_bridge_retries_total", "Bridge HTTP attempts after the first, by profile");
+
+// Last finished bridge request of each profile, for 'database-status'
+interface BridgeActivity {
+  at: number;
+  queryName: string;
+  durationMs: number;
+  error?: BridgeError;
+}
+const bridgeActivity = new Map<string, BridgeActivity>();
+
+// Correlation ID of the tool call being handled, sent to the bridge as X-Request-ID
+function bridgeHeaders() {
+  const { requestId } = logContext();
+  return { "X-Request-ID": typeof requestId === "string" ? requestId : undefined };
+}
+
+function recordBridgeRequest(profile: string, { queryName, durationMs, attempts, error }: BridgeRequestEvent) {
+  bridgeRequests.inc({ profile, query: queryName, result: error?.kind ?? "success" });
+  if (attempts > 0) {
+    bridgeDuration.observe({ profile, query: queryName }, durationMs / 1000);
+  }
+  if (attempts > 1) {
+    bridgeRetries.inc({ profile }, attempts - 1);
+  }
+  bridgeActivity.set(profile, { at: Date.now(), queryName, durationMs, error });
+  logger.debug("Bridge request", { profile, queryName, durationMs, attempts, errorClass: error?.kind });
+}
+
+// Named connection profiles, each with its own PHP API bridge client, circuit
+// breaker and request limit
+const profiles = await loadProfiles({ file: PROFILES_FILE, url: PHP_API_URL, apiKey: API_KEY, databases: DEFAULT_DATABASES }).catch((error) => {
+  logger.error("Failed to load connection profiles", { error });
+  process.exit(1);
+});
+const profileNames = profiles.profiles.map((profile) => profile.name) as [string, ...string[]];
+const connections = new Map(profiles.profiles.map((profile) => [profile.name, {
+  profile,
+  bridge: createBridgeClient({
+    url: profile.url,
+    apiKey: profile.apiKey,
+    timeoutMs: profile.timeoutMs,
+    retry: { retries: BRIDGE_RETRIES, baseDelayMs: BRIDGE_RETRY_BASE_MS, maxDelayMs: BRIDGE_RETRY_MAX_MS },
+    circuitBreaker: { failureThreshold: BRIDGE_BREAKER_THRESHOLD, resetTimeoutMs: BRIDGE_BREAKER_RESET_MS },
+    concurrency: { maxInFlight: BRIDGE_MAX_IN_FLIGHT, maxQueue: BRIDGE_MAX_QUEUE },
+    headers: bridgeHeaders,
+    onRequest: (event) => recordBridgeRequest(profile.name, event)
+  })
+}]));
+// Every database of any profile; tools check the chosen profile's own list
+const DATABASES = [...new Set(profiles.profiles.flatMap((profile) => profile.databases))];
+const profileInput = profileParam(profileNames).optional()
+  .describe(`Connection profile to run against (defaults to '${profiles.defaultProfile}'). Available: ${profileNames.join(", ")}`);
+
+// Predefined queries, discovered from the catalog file or the default profile's bridge
+const catalog = await loadQueryCatalog({ file: QUERY_CATALOG_FILE, bridge: connectionFor().bridge }).catch((error) => {
+  logger.error("Failed to load query catalog", { error });
+  process.exit(1);
+});
+const queryNames = catalog.queries.map((query) => query.name) as [string, ...string[]];
+const paramsSchemas = new Map(
+  catalog.queries.map((query) => [query.name, buildParamsSchema(query, { databases: DATABASES })])
+);
+
+// Access policy for databases, tables and query names
+const policy = await loadAccessPolicy(ACCESS_POLICY_FILE).catch((error) => {
+  logger.error("Failed to load access policy", { error });
+  process.exit(1);
+});
+
+// Column redaction applied to every result row before formatting
+const redactor = await loadRedactor(REDACTION_FILE).catch((error) => {
+  logger.error("Failed to load redaction rules", { error });
+  process.exit(1);
+});
+
+// Cache for near-static metadata queries (database/table lists, schemas)
+let metadataCacheTtls: Record<string, number>;
+try {
+  metadataCacheTtls = parseCacheTtls(process.env.METADATA_CACHE_TTLS);
+} catch (error: any) {
+  logger.error("Invalid METADATA_CACHE_TTLS", { error });
   process.exit(1);
 }
+const metadataCache = await createMetadataCache({ ttls: metadataCacheTtls, file: METADATA_CACHE_FILE }).catch((error) => {
+  logger.error("Failed to set up metadata cache", { error });
+  process.exit(1);
+});
 
-// Create an MCP server
-const server = new McpServer({
-  name: "informix-mcp-server",
-  version: "1.0.0"
+// Metrics read from the bridge clients and the cache when rendered
+const CIRCUIT_STATE_VALUES = { closed: 0, "half-open": 1, open: 2 };
+const perProfile = (value: (health: BridgeHealth) => number) => () =>
+  [...connections.values()].map(({ profile, bridge }) => ({ labels: { profile: profile.name }, value: value(bridge.health()) }));
+metrics.collect("informix_mcp_bridge_in_flight", "Bridge requests being sent, by profile", "gauge", perProfile((health) => health.inFlight));
+metrics.collect("informix_mcp_bridge_queued", "Bridge requests waiting for a free slot, by profile", "gauge", perProfile((health) => health.queued));
+metrics.collect("informix_mcp_bridge_circuit_state", "Circuit breaker state by profile: 0 closed, 1 half-open, 2 open", "gauge",
+  perProfile((health) => CIRCUIT_STATE_VALUES[health.circuit.state]));
+metrics.collect("informix_mcp_metadata_cache_hits_total", "Metadata cache lookups answered from the cache", "counter",
+  () => [{ labels: {}, value: metadataCache.stats().hits }]);
+metrics.collect("informix_mcp_metadata_cache_misses_total", "Metadata cache lookups that went to the bridge", "counter",
+  () => [{ labels: {}, value: metadataCache.stats().misses }]);
+metrics.collect("informix_mcp_metadata_cache_hit_ratio", "Share of metadata cache lookups answered from the cache (0 before any lookup)", "gauge", () => {
+  const { hits, misses } = metadataCache.stats();
+  return [{ labels: {}, value: hits + misses > 0 ? hits / (hits + misses) : 0 }];
 });
+metrics.collect("informix_mcp_metadata_cache_entries", "Entries in the metadata cache", "gauge",
+  () => [{ labels: {}, value: metadataCache.stats().entries }]);
 
-// Register a simple test tool to verify the server is working
-server.registerTool(
-  "test-connection",
-  {
-    title: "Test Connection",
-    description: "Test the MCP server connection and response",
-    inputSchema: {
-      message: z.string().optional().describe("Optional test message")
-    }
-  },
-  async ({ message = "Hello from Informix MCP Server!" }) => {
+// Audit trail of every tool call; always kept in memory for 'recent-activity'
+const auditSinks: AuditSink[] = [];
+try {
+  if (AUDIT_LOG_FILE) {
+    auditSinks.push(createRotatingFileSink({ path: AUDIT_LOG_FILE, maxBytes: AUDIT_LOG_MAX_BYTES, maxFiles: AUDIT_LOG_MAX_FILES }));
+  }
+  if (AUDIT_SYSLOG) {
+    auditSinks.push(createSyslogSink(AUDIT_SYSLOG));
+  }
+  if (AUDIT_HTTP_URL) {
+    auditSinks.push(createHttpSink(AUDIT_HTTP_URL, AUDIT_HTTP_TOKEN));
+  }
+} catch (error: any) {
+  logger.error("Invalid audit log configuration", { error });
+  process.exit(1);
+}
+const auditLog = createAuditLog({
+  sinks: auditSinks,
+  initial: AUDIT_LOG_FILE ? await readAuditFile(AUDIT_LOG_FILE, 500) : []
+});
+
+// Saved schema snapshots for 'diff-schema'
+const snapshots = createSnapshotStore(SCHEMA_SNAPSHOT_DIR);
+
+// Local index of tables, columns and comments for 'search-schema'
+const schemaIndex = await createSchemaIndex({ file: SCHEMA_INDEX_FILE }).catch((error) => {
+  logger.error("Failed to load schema index", { file: SCHEMA_INDEX_FILE, error });
+  process.exit(1);
+});
+
+// Background 'export-table' jobs, for 'job-status', 'cancel-job' and the
+// export://{file} resource
+const exportJobs = createJobManager<ExportResult>({
+  maxRunning: EXPORT_MAX_JOBS,
+  maxQueued: 20,
+  maxFinished: 100,
+  classify: (error) => error instanceof BridgeError ? error.kind : error instanceof ExportError ? "export-failed" : "internal"
+});
+
+interface Connection {
+  profile: ConnectionProfile;
+  bridge: BridgeClient;
+}
+
+// The connection for a profile, or the default profile's. Tool inputs only
+// accept configured profile names.
+function connectionFor(profile: string = profiles.defaultProfile): Connection {
+  const connection = connections.get(profile);
+  if (!connection) {
+    throw new Error(`Unknown profile '${profile}'`);
+  }
+  return connection;
+}
+
+// Reject a database the chosen profile does not serve; returns an error result,
+// or undefined when the call may proceed.
+function checkProfileDatabase(conn: Connection, database: string | undefined) {
+  if (database === undefined || conn.profile.databases.includes(database)) {
+    return undefined;
+  }
+  const message = `Database '${database}' is not available on profile '${conn.profile.name}' (available: ${conn.profile.databases.join(", ")})`;
+  return {
+    content: [{ type: "text" as const, text: `❌ ${message}` }],
+    structuredContent: { error: "invalid-params", issues: [{ field: "database", message }] },
+    isError: true
+  };
+}
+
+// Identity used for policy decisions: the bearer token's client in HTTP mode
+function clientIdOf(extra: { authInfo?: AuthInfo }): string {
+  return extra.authInfo?.clientId ?? ANONYMOUS_CLIENT;
+}
+
+// Check every target against the policy; returns an error result for the
+// first denied one, or undefined when the call may proceed.
+function enforcePolicy(extra: { authInfo?: AuthInfo }, ...targets: PolicyTarget[]) {
+  try {
+    for (const target of targets) {
+      policy.check(clientIdOf(extra), target);
+    }
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof PolicyError)) {
+      throw error;
+    }
+    logger.warn("Access denied by policy", { error });
     return {
       content: [{
-        type: "text",
-        text: `✅ MCP Server is running successfully!\n\nMessage: ${message}\n\nTimestamp: ${new Date().toISOString()}\n\nThis confirms that the Model Context Protocol server is properly connected and responding to requests.`
-      }]
+        type: "text" as const,
+        text: `❌ Access denied by policy: ${error.message}\n\n` +
+              `Ask an administrator to update the access policy if this access is required.`
+      }],
+      structuredContent: { error: "policy-denied", clientId: error.clientId, target: { ...error.target } },
+      isError: true
     };
   }
-);
+}
 
-// Register a tool for Informix database queries via PHP API bridge
-server.registerTool(
-  "query-informix",
-  {
-    title: "Query Informix Database",
-    description: "Execute predefined queries against the Informix database via PHP API bridge. Supports database discovery, schema introspection, and data sampling across multiple databases (eadmin, payrolldb, ppc, auditdb).",
-    inputSchema: {
-      queryName: z.enum([
-        "test-connection",
-        "get-database-count",
-        "list-databases", 
-        "list-tables",
-        "get-table-schema",
-        "get-top-records",
-        "get-object-type",
-        "get-view-schema"
-      ]).describe("Name of the predefined query to execute"),
-      params: z.record(z.any()).optional().describe("Parameters for the query (e.g., {tableName: 'users', database: 'eadmin', limit: 10})")
-    }
-  },
-  async ({ queryName, params = {} }) => {
+// Hide databases and tables the client may not see from discovery results
+// returned through `query-informix`.
+function filterResultsByPolicy(clientId: string, queryName: string, database: string, results: Record<string, unknown>[]) {
+  return results.map((row) => {
+    if (queryName === "list-databases" && Array.isArray(row.databases)) {
+      const databases = row.databases.filter((db: any) => policy.allowsDatabase(clientId, String(db?.name)));
+      return { ...row, databases, database_count: databases.length };
+    }
+    if (queryName === "list-tables" && Array.isArray(row.tables)) {
+      const tables = row.tables.filter((table: unknown) => policy.allowsTable(clientId, database, String(table)));
+      return { ...row, tables, table_count: tables.length };
+    }
+    return row;
+  }).filter((row) => {
+    // Keys must not reveal tables the client may not see
+    if (queryName === "get-foreign-keys" && typeof row.table === "string" && !policy.allowsTable(clientId, database, row.table)) {
+      return false;
+    }
+    return typeof row.referenced_table !== "string" || policy.allowsTable(clientId, database, row.referenced_table);
+  });
+}
+
+// Column as returned by 'get-table-schema'. The declaration is decoded from
+// coltype/collength when the bridge sends them, so DECIMAL(12,2) or DATETIME
+// YEAR TO SECOND come back exactly; otherwise the bridge's type name is used.
+function describeColumn(col: TableColumn) {
+  if (col.coltype === undefined || col.collength === undefined) {
+    return {
+      name: col.column_name,
+      type: col.column_length ? `${col.type_name}(${col.column_length})` : col.type_name,
+      length: col.column_length ?? null,
+      nullable: col.is_nullable === 'YES'
+    };
+  }
+  const decoded = decodeColumnType(col.coltype, col.collength, { id: col.extended_id, name: col.extended_type });
+  return {
+    name: col.column_name,
+    type: decoded.declaration,
+    length: decoded.length ?? null,
+    nullable: !decoded.notNull
+  };
+}
+
+// Add the decoded `declaration` to schema rows returned through
+// `query-informix` that carry numeric coltype/collength values.
+function addDeclarations(queryName: string, results: Record<string, unknown>[]) {
+  const declare = (row: any) => typeof row?.coltype === "number" && typeof row?.collength === "number"
+    ? { ...row, declaration: decodeColumnType(row.coltype, row.collength, { id: row.extended_id, name: row.extended_type }).declaration }
+    : row;
+  if (queryName === "get-table-schema") {
+    return results.map((row) => Array.isArray(row.columns) ? { ...row, columns: row.columns.map(declare) } : row);
+  }
+  return queryName === "get-view-schema" ? results.map(declare) : results;
+}
+
+// Discovery queries return catalog metadata rather than table rows
+const METADATA_QUERIES = new Set([
+  "test-connection", "list-databases", "get-database-count", "list-tables",
+  "get-table-schema", "get-object-type", "get-view-schema",
+  "get-table-constraints", "get-table-indexes", "get-foreign-keys"
+]);
+
+// Redact data rows returned through `query-informix`: either the result rows
+// themselves or the `records` nested in them (as get-top-records returns).
+function redactQueryResults(queryName: string, database: string, tables: string[], results: Record<string, unknown>[]) {
+  if (METADATA_QUERIES.has(queryName)) {
+    return { results, redacted: [] as RedactedColumn[] };
+  }
+
+  const redacted = new Map<string, RedactedColumn>();
+  const redactRows = (rows: Record<string, unknown>[]) => {
+    const result = redactor.redactRows(rows, { database, tables });
+    result.redacted.forEach((entry) => redacted.set(entry.column, entry));
+    return result.rows;
+  };
+  const nested = results.some((row) => Array.isArray(row.records));
+  const redactedResults = nested
+    ? results.map((row) => Array.isArray(row.records) ? { ...row, records: redactRows(row.records) } : row)
+    : redactRows(results);
+  return { results: redactedResults, redacted: [...redacted.values()] };
+}
+
+// The rows worth tabulating in a catalog query result: the nested list of a
+// single summary row (`records`, `tables`, `databases`, ...), otherwise the
+// result rows themselves
+function resultTable(results: Record<string, unknown>[]): Record<string, unknown>[] {
+  const nested = results.length === 1 ? Object.values(results[0]).find(Array.isArray) : undefined;
+  if (!nested) {
+    return results;
+  }
+  return nested.map((item) => item !== null && typeof item === "object" ? item as Record<string, unknown> : { value: item });
+}
+
+// Footer listing redacted columns, empty when nothing was redacted
+function redactionNote(redacted: RedactedColumn[]): string {
+  return redacted.length ? `\n\n🔒 Redacted columns: ${describeRedactions(redacted)}` : '';
+}
+
+// Serve cacheable metadata queries from the cache, keyed on the profile, the
+// database and the object (tableName, objectName or viewName) they describe;
+// other queries always go to the bridge.
+async function cachedQuery<T>(conn: Connection, queryName: string, params: Record<string, unknown>, load: () => Promise<T>): Promise<{ value: T; cache?: CacheStatus }> {
+  if (!metadataCache.isCacheable(queryName)) {
+    return { value: await load() };
+  }
+  const object = ["tableName", "objectName", "viewName"].map((name) => params[name]).find((value) => typeof value === "string") as string | undefined;
+  const database = queryName === "list-databases" ? undefined : String(params.database ?? 'eadmin');
+  return metadataCache.get({ queryName, profile: conn.profile.name, database, object }, load);
+}
+
+// Footer saying whether a result came from the metadata cache, empty for
+// uncached queries
+function cacheNote(cache: CacheStatus | undefined): string {
+  if (!cache) {
+    return '';
+  }
+  return cache.hit
+    ? `\n\n🗄️ Cached result, ${cache.ageSeconds}s old (TTL ${cache.ttlSeconds}s). Use 'refresh-metadata' to reload it.`
+    : `\n\n🗄️ Fresh result, cached for ${cache.ttlSeconds}s.`;
+}
+
+// Output fields shared by paged results
+const pageOutputShape = {
+  offset: z.number().describe("Position of the first row of this page in the full result"),
+  truncated: z.boolean().describe("True when the page was shortened to fit the response size budget"),
+  nextCursor: z.string().optional().describe("Pass to 'fetch-next-page' for the next page; absent on the last page")
+};
+
+// Tables visited by one describe-relationships call, bounding the bridge calls
+const MAX_RELATIONSHIP_TABLES = 50;
+
+interface Relationship {
+  constraint: string;
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  deleteRule: string | null;
+}
+
+// Walk foreign keys in both directions from `table`, up to `depth` hops. Tables
+// the client may not see are neither reported nor followed.
+async function describeRelationships(conn: Connection, clientId: string, database: string, table: string, depth: number) {
+  const distances = new Map<string, number>([[table.toLowerCase(), 0]]);
+  const names = new Map<string, string>([[table.toLowerCase(), table]]);
+  const relationships = new Map<string, Relationship>();
+  let frontier = [table];
+  let truncated = false;
+
+  for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      const { value: data } = await cachedQuery(conn, "get-foreign-keys", { tableName: current, database },
+        () => conn.bridge.query("get-foreign-keys", { tableName: current, database }));
+      for (const fk of data.results) {
+        if (!policy.allowsTable(clientId, database, fk.table) || !policy.allowsTable(clientId, database, fk.referenced_table)) {
+          continue;
+        }
+        const other = fk.table.toLowerCase() === current.toLowerCase() ? fk.referenced_table : fk.table;
+        if (!distances.has(other.toLowerCase())) {
+          if (distances.size >= MAX_RELATIONSHIP_TABLES) {
+            truncated = true;
+            continue;
+          }
+          distances.set(other.toLowerCase(), distance);
+          names.set(other.toLowerCase(), other);
+          next.push(other);
+        }
+        relationships.set(`${fk.table}.${fk.constraint_name}`.toLowerCase(), {
+          constraint: fk.constraint_name,
+          table: fk.table,
+          columns: fk.columns,
+          referencedTable: fk.referenced_table,
+          referencedColumns: fk.referenced_columns,
+          deleteRule: fk.delete_rule ?? null
+        });
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    tables: [...distances].map(([key, distance]) => ({ name: names.get(key)!, distance })),
+    relationships: [...relationships.values()],
+    truncated
+  };
+}
+
+// Join condition for a foreign key, e.g. "employee.dept_id = department.id"
+function joinCondition(relationship: Relationship): string {
+  return relationship.columns
+    .map((column, index) => `${relationship.table}.${column} = ${relationship.referencedTable}.${relationship.referencedColumns[index] ?? "?"}`)
+    .join(" AND ");
+}
+
+// Snapshot the tables and views of a live database the client may see. Every
+// lookup goes through the metadata cache, so run 'refresh-metadata' first for
+// an up-to-the-minute snapshot.
+async function takeSnapshot(conn: Connection, clientId: string, database: string): Promise<SchemaSnapshot> {
+  const takenAt = new Date().toISOString();
+  const { value: list } = await cachedQuery(conn, "list-tables", { database }, () => conn.bridge.query("list-tables", { database }));
+  const tables: Record<string, SnapshotTable> = {};
+
+  for (const tableName of list.results[0].tables.filter((table) => policy.allowsTable(clientId, database, table))) {
+    const { value: schema } = await cachedQuery(conn, "get-table-schema", { tableName, database },
+      () => conn.bridge.query("get-table-schema", { tableName, database }));
+    const { value: type } = await cachedQuery(conn, "get-object-type", { objectName: tableName, database },
+      () => conn.bridge.query("get-object-type", { objectName: tableName, database }));
+    const columns = schema.results[0].columns.map(describeColumn).map(({ name, type, nullable }) => ({ name, type, nullable }));
+
+    if (objectKind(type.results) === "view") {
+      const { value: view } = await cachedQuery(conn, "get-view-schema", { viewName: tableName, database },
+        () => conn.bridge.query("get-view-schema", { viewName: tableName, database }));
+      tables[tableName] = { kind: "view", columns, definition: viewDefinition(view.results) };
+    } else {
+      tables[tableName] = { kind: "table", columns };
+    }
+  }
+
+  return { version: SNAPSHOT_VERSION, profile: conn.profile.name, database, takenAt, tables };
+}
+
+// Tables a client may not see are left out of snapshots loaded from disk too,
+// so a diff never reveals them
+function visibleSnapshot(clientId: string, snapshot: SchemaSnapshot): SchemaSnapshot {
+  const tables = Object.entries(snapshot.tables).filter(([name]) => policy.allowsTable(clientId, snapshot.database, name));
+  return { ...snapshot, tables: Object.fromEntries(tables) };
+}
+
+// Catalog queries behind the schema index. A table's tabid and version change
+// when it is altered, or dropped and created again. Comments come from
+// syscomments (tabname, comments) and syscolcomments (tabname, colno,
+// comments), matched to syscolumns on the column number; both store CHAR
+// values, so names and comments are trimmed.
+const SCHEMA_STAMPS_SQL = "SELECT tabname, tabid, tabtype, version FROM systables WHERE tabid >= 100 AND tabtype IN ('T', 'V')";
+const TABLE_COMMENTS_SQL = "SELECT tabname, comments FROM syscomments";
+const COLUMN_COMMENTS_SQL = "SELECT m.tabname, c.colname, m.comments FROM syscolcomments m, systables t, syscolumns c " +
+  "WHERE t.tabname = m.tabname AND c.tabid = t.tabid AND c.colno = m.colno";
+// Tables read from the bridge at once while refreshing the index
+const SCHEMA_INDEX_BATCH = 4;
+
+interface SchemaIndexRefresh {
+  database: string;
+  /** False when the index was recent enough to search as it was. */
+  checked: boolean;
+  added: number;
+  changed: number;
+  removed: number;
+  tables: number;
+  refreshedAt: string;
+}
+
+// Bridge failures of a comment query itself, rather than of the bridge:
+// bridges report SQL errors either in the envelope or with an HTTP status
+const COMMENT_QUERY_ERRORS = new Set(["query-failed", "bad-request", "forbidden", "server", "malformed-response"]);
+
+// Table and column comments of a database, keyed on the lower-case table name
+// and on `table.column`. Comments are optional: a catalog without the comment
+// tables, or where they cannot be read, has none.
+async function catalogComments(conn: Connection, database: string) {
+  const read = async (sql: string) => {
     try {
-      console.error(`🔍 Executing query: ${queryName} with params:`, params);
-      
-      // Make HTTP request to PHP API bridge
-      const response = await axios.post(PHP_API_URL, {
-        queryName,
-        params
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-KEY': API_KEY
-        },
-        timeout: 30000 // 30 second timeout
+      return (await conn.bridge.query("run-select", { sql, params: [], database })).results;
+    } catch (error) {
+      if (error instanceof BridgeError && COMMENT_QUERY_ERRORS.has(error.kind)) {
+        logger.debug("Skipping schema comments", { database, errorClass: error.kind, error });
+        return [];
+      }
+      throw error;
+    }
+  };
+  const tables = new Map<string, string>();
+  const columns = new Map<string, string>();
+  for (const row of await read(TABLE_COMMENTS_SQL)) {
+    if (typeof row.comments === "string" && row.comments.trim()) {
+      tables.set(String(row.tabname).trim().toLowerCase(), row.comments.trim());
+    }
+  }
+  for (const row of await read(COLUMN_COMMENTS_SQL)) {
+    if (typeof row.comments === "string" && row.comments.trim()) {
+      columns.set(`${String(row.tabname).trim()}.${String(row.colname).trim()}`.toLowerCase(), row.comments.trim());
+    }
+  }
+  return { tables, columns };
+}
+
+// Columns and view text of one table for the index. Cached metadata of a
+// changed table is dropped first, since it describes the old definition.
+async function readIndexedTable(conn: Connection, database: string, { name, kind, stamp }: TableStamp, changed: boolean): Promise<IndexedTable> {
+  if (changed) {
+    metadataCache.invalidate({ profile: conn.profile.name, database, object: name });
+  }
+  const { value: schema } = await cachedQuery(conn, "get-table-schema", { tableName: name, database },
+    () => conn.bridge.query("get-table-schema", { tableName: name, database }));
+  const columns = schema.results[0].columns.map(describeColumn).map(({ name, type, nullable }) => ({ name, type, nullable }));
+  if (kind === "view") {
+    const { value: view } = await cachedQuery(conn, "get-view-schema", { viewName: name, database },
+      () => conn.bridge.query("get-view-schema", { viewName: name, database }));
+    return { name, kind, stamp, definition: viewDefinition(view.results), columns };
+  }
+  return { name, kind, stamp, columns };
+}
+
+// Concurrent refreshes of the same database share one pass over the catalog
+const schemaIndexRefreshes = new Map<string, Promise<SchemaIndexRefresh>>();
+
+// Bring the index of a database up to date: compare the systables stamps
+// with the index, read only added and changed tables, drop removed ones and
+// reload the comments. An index checked within SCHEMA_INDEX_REFRESH_SECONDS
+// is left as it is unless `force` is set.
+function refreshSchemaIndex(conn: Connection, database: string, force: boolean): Promise<SchemaIndexRefresh> {
+  const current = schemaIndex.get(conn.profile.name, database);
+  if (current && !force && Date.now() - current.refreshedAt < SCHEMA_INDEX_REFRESH_SECONDS * 1000) {
+    return Promise.resolve({
+      database, checked: false, added: 0, changed: 0, removed: 0, tables: current.tables.length, refreshedAt: new Date(current.refreshedAt).toISOString()
+    });
+  }
+
+  const key = `${conn.profile.name}\u0000${database}`;
+  let refreshing = schemaIndexRefreshes.get(key);
+  if (!refreshing) {
+    refreshing = (async () => {
+      const refreshedAt = Date.now();
+      const { results } = await conn.bridge.query("run-select", { sql: SCHEMA_STAMPS_SQL, params: [], database });
+      const stamps: TableStamp[] = results.map((row) => ({
+        name: String(row.tabname).trim(),
+        kind: String(row.tabtype).trim() === "V" ? "view" : "table",
+        stamp: `${row.tabid}:${row.version}`
+      }));
+      const plan = planRefresh(schemaIndex.get(conn.profile.name, database), stamps);
+
+      const read: IndexedTable[] = [];
+      const pending = [...plan.added.map((stamp) => ({ stamp, changed: false })), ...plan.changed.map((stamp) => ({ stamp, changed: true }))];
+      for (let start = 0; start < pending.length; start += SCHEMA_INDEX_BATCH) {
+        read.push(...await Promise.all(pending.slice(start, start + SCHEMA_INDEX_BATCH)
+          .map(({ stamp, changed }) => readIndexedTable(conn, database, stamp, changed))));
+      }
+
+      // Comments do not change a table's stamp, so they are reloaded every time
+      const comments = await catalogComments(conn, database);
+      const tables = [...plan.unchanged, ...read]
+        .map((table) => ({
+          ...table,
+          comment: comments.tables.get(table.name.toLowerCase()),
+          columns: table.columns.map((column) => ({ ...column, comment: comments.columns.get(`${table.name}.${column.name}`.toLowerCase()) }))
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      schemaIndex.put({ profile: conn.profile.name, database, refreshedAt, tables });
+
+      const refresh = {
+        database,
+        checked: true,
+        added: plan.added.length,
+        changed: plan.changed.length,
+        removed: plan.removed.length,
+        tables: tables.length,
+        refreshedAt: new Date(refreshedAt).toISOString()
+      };
+      logger.info("Schema index refreshed", { profile: conn.profile.name, ...refresh });
+      return refresh;
+    })().finally(() => schemaIndexRefreshes.delete(key));
+    schemaIndexRefreshes.set(key, refreshing);
+  }
+  return refreshing;
+}
+
+// Columns of a table, as the 'table-schema' resource and the prompts show them
+async function tableSchemaContext(conn: Connection, database: string, table: string) {
+  const { value: data } = await cachedQuery(conn, "get-table-schema", { tableName: table, database },
+    () => conn.bridge.query("get-table-schema", { tableName: table, database }));
+  return { database, table, columns: data.results[0].columns.map(describeColumn) };
+}
+
+// Leading rows of a table, redacted, as the 'table-sample' resource and the
+// prompts show them
+async function tableSampleContext(conn: Connection, clientId: string, database: string, table: string, limit: number) {
+  const page = await fetchSamplePage(conn, clientId, database, table, 0, limit);
+  return {
+    database,
+    table,
+    rows: page.rows,
+    redactedColumns: page.redacted,
+    ...(page.nextCursor && { nextCursor: page.nextCursor })
+  };
+}
+
+// Tables whose schema a prompt includes at most
+const MAX_PROMPT_TABLES = 8;
+
+const PROMPT_STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "what", "which", "who", "whom", "how", "many", "much", "all", "per",
+  "each", "that", "this", "these", "are", "was", "were", "has", "have", "had", "show", "list", "give", "find",
+  "get", "their", "there", "into", "over", "between", "last", "first"
+]);
+
+// Tables of a database whose names share words with `text` (plurals folded),
+// best matches first; the prompts use them as the relevant schema
+async function relevantTables(conn: Connection, clientId: string, database: string, text: string, limit = MAX_PROMPT_TABLES) {
+  const { value } = await cachedQuery(conn, "list-tables", { database }, () => conn.bridge.query("list-tables", { database }));
+  const tables = value.results[0].tables.filter((table) => policy.allowsTable(clientId, database, table));
+  const words = (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => word.length >= 3 && !PROMPT_STOP_WORDS.has(word))
+    .map((word) => word.replace(/ies$/, "y").replace(/(es|s)$/, ""));
+  const matches = tables
+    .map((table) => ({ table, score: words.filter((word) => word.length >= 3 && table.toLowerCase().includes(word)).length }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.table.localeCompare(b.table));
+  return { tables, relevant: matches.slice(0, limit).map((match) => match.table) };
+}
+
+// Prompt messages: instructions, and context as embedded JSON resources or text
+function promptText(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } };
+}
+
+function promptResource(uri: string, value: unknown): PromptMessage {
+  return { role: "user", content: { type: "resource", resource: { uri, mimeType: "application/json", text: JSON.stringify(value, null, 2) } } };
+}
+
+// Variable of an informix:// resource URI, checked like the matching tool
+// parameter
+function resourceVariable(variables: Variables, name: string, schema: z.ZodType<string>): string {
+  const result = schema.safeParse(String(variables[name]));
+  if (!result.success) {
+    throw new Error(`Invalid ${name} in resource URI: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+// Views of a database, read from systables, for listing and completing view
+// resources
+async function listViews(conn: Connection, clientId: string, database: string): Promise<string[]> {
+  const data = await conn.bridge.query("run-select", {
+    sql: "SELECT tabname FROM systables WHERE tabtype = 'V' AND tabid >= 100 ORDER BY tabname",
+    params: [],
+    database
+  });
+  return data.results
+    .map((row) => String(row.tabname ?? "").trim())
+    .filter((name) => name && policy.allowsTable(clientId, database, name));
+}
+
+// Completion values: the names starting with what the user typed, ignoring case
+function completeFrom(names: string[], value: string): string[] {
+  const prefix = value.toLowerCase();
+  return names.filter((name) => name.toLowerCase().startsWith(prefix)).slice(0, 100);
+}
+
+// Signs the nextCursor tokens handed out with paged results
+const cursors = createCursorCodec();
+
+interface Page {
+  source: PageSource;
+  rows: Record<string, unknown>[];
+  /** Position of the first row in the full result. */
+  offset: number;
+  /** Size of the full result, when known. */
+  total?: number;
+  truncated: boolean;
+  nextCursor?: string;
+  redacted: RedactedColumn[];
+  cache?: CacheStatus;
+  connectionId: string | number | null;
+  executionTime: number | string | null;
+}
+
+// Read one page of sample rows with Informix SKIP/FIRST, asking for one extra
+// row to learn whether another page exists. The bridge returns at most
+// MAX_RECORD_LIMIT rows, so a page of that size reads the next row on its own.
+async function fetchSamplePage(conn: Connection, clientId: string, database: string, table: string, offset: number, pageSize: number): Promise<Page> {
+  const limit = Math.min(pageSize + 1, MAX_RECORD_LIMIT);
+  const data = await conn.bridge.query("get-top-records", {
+    tableName: table,
+    database,
+    limit,
+    ...(offset > 0 && { offset })
+  });
+  const records = data.results[0].records;
+  let more = records.length > pageSize;
+  if (limit === pageSize && records.length === pageSize) {
+    const next = await conn.bridge.query("get-top-records", { tableName: table, database, limit: 1, offset: offset + pageSize });
+    more = next.results[0].records.length > 0;
+  }
+  const { rows, redacted } = redactor.redactRows(records.slice(0, pageSize), { database, tables: [table] });
+  const fitted = fitToBudget(rows, RESPONSE_MAX_BYTES);
+  const source: PageSource = { kind: "sample-data", profile: conn.profile.name, database, table };
+  return {
+    source,
+    rows: fitted.rows,
+    offset,
+    truncated: fitted.truncated,
+    nextCursor: more || fitted.truncated
+      ? cursors.encode({ ...source, clientId, offset: offset + fitted.rows.length, pageSize })
+      : undefined,
+    redacted,
+    connectionId: data.connectionId,
+    executionTime: data.executionTime
+  };
+}
+
+// Page through a database's table list, which is loaded (and cached) whole
+async function fetchTablesPage(conn: Connection, clientId: string, database: string, offset: number, pageSize: number): Promise<Page> {
+  const { value: data, cache } = await cachedQuery(conn, "list-tables", { database }, () => conn.bridge.query("list-tables", { database }));
+  const tables = data.results[0].tables.filter((table) => policy.allowsTable(clientId, database, table));
+  const fitted = fitToBudget(tables.slice(offset, offset + pageSize).map((table) => ({ table })), RESPONSE_MAX_BYTES);
+  const next = offset + fitted.rows.length;
+  const source: PageSource = { kind: "tables", profile: conn.profile.name, database };
+  return {
+    source,
+    rows: fitted.rows,
+    offset,
+    total: tables.length,
+    truncated: fitted.truncated,
+    nextCursor: next < tables.length ? cursors.encode({ ...source, clientId, offset: next, pageSize }) : undefined,
+    redacted: [],
+    cache,
+    connectionId: data.connectionId,
+    executionTime: data.executionTime
+  };
+}
+
+// Frequent values kept per column in cached table profiles; 'profile-table'
+// returns up to its topK of them
+const PROFILE_TOP_K = 20;
+const PROFILE_HISTOGRAM_BINS = 10;
+
+// Redact what a column profile reveals of the values: min, max and the
+// frequent values go through the redaction rules, histograms and lengths are
+// left out, and dropped columns are not profiled at all
+function redactColumnProfiles(columns: ColumnProfile[], database: string, table: string) {
+  const redacted: RedactedColumn[] = [];
+  const visible: ColumnProfile[] = [];
+  for (const column of columns) {
+    const values = [column.min, column.max, ...column.topValues.map((entry) => entry.value)];
+    const result = redactor.redactRows(values.map((value) => ({ [column.column]: value })), { database, tables: [table] });
+    if (result.redacted.length === 0) {
+      visible.push(column);
+      continue;
+    }
+    redacted.push(...result.redacted);
+    if (result.redacted[0].strategy !== "drop") {
+      const [min, max, ...top] = result.rows.map((row) => row[column.column]);
+      const { lengths, histogram, ...counts } = column;
+      visible.push({ ...counts, min, max, topValues: column.topValues.map((entry, index) => ({ value: top[index], count: entry.count })) });
+    }
+  }
+  return { columns: visible, redacted };
+}
+
+// Profile every column of a table from its exact row count and at most
+// PROFILE_SAMPLE_ROWS rows. Profiles are redacted before they are cached.
+async function profileTable(conn: Connection, database: string, table: string) {
+  return cachedQuery(conn, "profile-table", { tableName: table, database }, async () => {
+    const { value: schema } = await cachedQuery(conn, "get-table-schema", { tableName: table, database },
+      () => conn.bridge.query("get-table-schema", { tableName: table, database }));
+    const columns = schema.results[0].columns.map(describeColumn);
+    const profiled = columns.filter((column) => isProfilable(column.type));
+
+    const count = await conn.bridge.query("run-select", { sql: `SELECT COUNT(*) AS row_count FROM ${table}`, params: [], database });
+    const rowCount = Number(count.results[0]?.row_count ?? Object.values(count.results[0] ?? {})[0] ?? 0);
+
+    let sampling: SamplingMethod = rowCount > PROFILE_SAMPLE_ROWS ? "samples-of" : "none";
+    const readRows = () => conn.bridge.query("run-select", {
+      sql: sampleStatement(table, profiled.map((column) => column.name), PROFILE_SAMPLE_ROWS, sampling),
+      params: [],
+      database
+    });
+    // Fall back to a bounded scan where the server rejects SAMPLES OF
+    const data = await readRows().catch((error) => {
+      if (sampling !== "samples-of" || !(error instanceof BridgeError) || error.kind !== "query-failed") {
+        throw error;
+      }
+      sampling = "first-rows";
+      return readRows();
+    });
+    const rows = data.results.slice(0, PROFILE_SAMPLE_ROWS);
+
+    const { columns: visible, redacted } = redactColumnProfiles(
+      profileRows(rows, profiled, { topK: PROFILE_TOP_K, bins: PROFILE_HISTOGRAM_BINS }), database, table);
+    const profile: TableProfile = {
+      rowCount,
+      sampleRows: rows.length,
+      sampling,
+      columns: visible,
+      skippedColumns: columns.filter((column) => !isProfilable(column.type)).map((column) => column.name)
+    };
+    return { profile, redacted, connectionId: data.connectionId };
+  });
+}
+
+interface ExportRequest {
+  conn: Connection;
+  database: string;
+  table: string;
+  format: ExportFormat;
+  columns: ExportColumn[];
+  /** Everything after SELECT: the select list, FROM, WHERE and ORDER BY. */
+  query: string;
+  /** COUNT(*) of the rows the query matches, for progress. */
+  countStatement: string;
+  params: (string | number | boolean | null)[];
+  maxRows: number;
+  redacted: RedactedColumn[];
+}
+
+interface ExportResult {
+  file: string;
+  uri: string;
+  format: ExportFormat;
+  profile: string;
+  database: string;
+  table: string;
+  columns: string[];
+  rows: number;
+  bytes: number;
+  /** True when the export stopped at maxRows and more rows matched. */
+  truncated: boolean;
+  redactedColumns: RedactedColumn[];
+}
+
+// Page through the query with SKIP/FIRST and append each redacted page to the
+// export file; the file only appears in EXPORT_DIR once every page is written
+async function runExport(request: ExportRequest, { signal, progress }: JobContext): Promise<ExportResult> {
+  const { conn, database, table, format, params } = request;
+  const count = await conn.bridge.query("run-select", { sql: request.countStatement, params, database });
+  const matched = Number(count.results[0]?.row_count ?? Object.values(count.results[0] ?? {})[0] ?? 0);
+  const total = Math.min(matched, request.maxRows);
+  progress({ rows: 0, total });
+
+  await mkdir(EXPORT_DIR, { recursive: true });
+  const file = `${conn.profile.name}-${database}-${table}-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`;
+  const output = await createExportFile(join(EXPORT_DIR, file), format, request.columns);
+  try {
+    while (output.rows < request.maxRows) {
+      if (signal.aborted) {
+        throw new ExportError("Export cancelled");
+      }
+      const pageRows = Math.min(EXPORT_PAGE_ROWS, request.maxRows - output.rows);
+      const { sql } = guardSelect(`SELECT SKIP ${output.rows} ${request.query}`, pageRows);
+      const data = await conn.bridge.query("run-select", { sql, params, database });
+      const { rows } = redactor.redactRows(data.results.slice(0, pageRows), { database, tables: [table] });
+      await output.write(rows);
+      progress({ rows: output.rows, total });
+      if (rows.length < pageRows) {
+        break;
+      }
+    }
+    if (signal.aborted) {
+      throw new ExportError("Export cancelled");
+    }
+    const bytes = await output.finish();
+    logger.info("Export finished", { database, table, rows: output.rows, file: join(EXPORT_DIR, file) });
+    return {
+      file,
+      uri: `export://${file}`,
+      format,
+      profile: conn.profile.name,
+      database,
+      table,
+      columns: request.columns.map((column) => column.name),
+      rows: output.rows,
+      bytes,
+      truncated: matched > output.rows && output.rows === request.maxRows,
+      redactedColumns: request.redacted
+    };
+  } catch (error) {
+    await output.abort();
+    throw error;
+  }
+}
+
+// A job as tools report it; the owning client is implied
+function jobView({ clientId, ...job }: Job<ExportResult>) {
+  return job;
+}
+
+function jobText(job: Job<ExportResult>): string {
+  const { rows, total } = job.progress;
+  const progress = `${rows}${total !== undefined ? ` of ${total}` : ''} rows`;
+  switch (job.state) {
+    case "queued":
+      return `⏳ Job ${job.id} (${job.kind}) is queued`;
+    case "running":
+      return `⏳ Job ${job.id} (${job.kind}) is running: ${progress} exported`;
+    case "completed": {
+      const result = job.result!;
+      return `✅ Job ${job.id} (${job.kind}) completed: ${result.rows} rows of table '${result.table}' in database '${result.database}' ` +
+             `written to ${result.file} (${result.bytes} bytes)` +
+             `${result.truncated ? ` - stopped at the ${result.rows} row limit` : ''}. Read it as resource ${result.uri}`;
+    }
+    case "failed":
+      return `❌ Job ${job.id} (${job.kind}) failed (${job.failure?.error}): ${job.failure?.message}`;
+    case "cancelled":
+      return `🛑 Job ${job.id} (${job.kind}) was cancelled after ${progress}`;
+  }
+}
+
+// One row per job for the markdown and CSV formats
+function jobRow(job: Job<ExportResult>) {
+  return {
+    jobId: job.id,
+    kind: job.kind,
+    state: job.state,
+    rows: job.progress.rows,
+    total: job.progress.total ?? null,
+    file: job.result?.file ?? null,
+    createdAt: job.createdAt
+  };
+}
+
+const jobOutput = z.object({
+  id: z.string().describe("Job id, for 'job-status' and 'cancel-job'"),
+  kind: z.string(),
+  state: z.enum(["queued", "running", "completed", "failed", "cancelled"]),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  progress: z.object({ rows: z.number(), total: z.number().optional() }),
+  result: z.object({
+    file: z.string(),
+    uri: z.string().describe("Resource URI of the file"),
+    format: z.enum(EXPORT_FORMATS),
+    profile: z.string(),
+    database: z.string(),
+    table: z.string(),
+    columns: z.array(z.string()),
+    rows: z.number(),
+    bytes: z.number(),
+    truncated: z.boolean().describe("True when the export stopped at maxRows and more rows matched"),
+    redactedColumns: redactedColumnsOutput
+  }).optional(),
+  failure: z.object({ error: z.string(), message: z.string() }).optional()
+});
+
+// Export files larger than this are not served as resources
+const EXPORT_RESOURCE_MAX_BYTES = 10 * 1024 * 1024;
+
+// Link to a finished export file, appended to tool results
+function exportLink(result: ExportResult) {
+  return {
+    type: "resource_link" as const,
+    uri: result.uri,
+    name: result.file,
+    description: `Export of table '${result.table}' in database '${result.database}' (${result.rows} rows)`,
+    mimeType: EXPORT_MIME_TYPES[result.format]
+  };
+}
+
+// Check an ad-hoc statement as 'run-select' accepts it, capped at `maxRows`;
+// returns the guarded statement and the redaction scope of its rows, or the
+// error result of `tool` rejecting it
+function guardStatement(tool: string, conn: Connection, sql: string, params: SqlParam[], maxRows: number, database: string) {
+  try {
+    const guarded = guardSelect(sql, maxRows);
+    if (guarded.placeholderCount !== params.length) {
+      throw new SqlGuardError(`Statement has ${guarded.placeholderCount} '?' placeholder(s) but ${params.length} parameter(s) were supplied`);
+    }
+    const foreign = guarded.tables.find((ref) => ref.database && !conn.profile.databases.includes(ref.database));
+    if (foreign) {
+      throw new SqlGuardError(`Database '${foreign.database}' is not one of the databases of profile '${conn.profile.name}' (${conn.profile.databases.join(", ")})`);
+    }
+    return { guarded, redaction: redactionScope(guarded, database) };
+  } catch (error) {
+    if (!(error instanceof SqlGuardError)) {
+      throw error;
+    }
+    return {
+      rejected: {
+        content: [{
+          type: "text" as const,
+          text: `❌ Statement rejected: ${error.message}\n\nOnly a single read-only SELECT is accepted by '${tool}'.`
+        }],
+        structuredContent: { error: "sql-rejected", message: error.message },
+        isError: true
+      }
+    };
+  }
+}
+
+// Redaction rules match result column names, so a redacted column read
+// through an alias or an expression is redacted under its AS name. Items that
+// would return it under a name not known before the rows come back (no AS,
+// or inside a subquery or derived table) are rejected.
+function redactionScope(guarded: GuardedSelect, database: string): RedactionScope {
+  const scope: RedactionScope = { database, tables: guarded.tables.map((ref) => ref.database ? `${ref.database}:${ref.table}` : ref.table), sources: {} };
+  for (const item of guarded.selectItems.filter((candidate) => !candidate.direct)) {
+    const hidden = item.columns.find((column) => redactor.strategyFor(column, scope));
+    if (!hidden) {
+      continue;
+    }
+    if (!item.outermost || !item.alias) {
+      throw new SqlGuardError(`'${item.text}' reads redacted column '${hidden}'; ` +
+        (item.outermost ? `name the result with AS so it can be redacted` : `select the column itself in subqueries`));
+    }
+    scope.sources![item.alias] = item.columns;
+  }
+  return scope;
+}
+
+// Optimizer plan of a guarded statement from the bridge's 'explain-select'
+// query, which prepares the statement without running it
+async function explainSelect(conn: Connection, sql: string, params: SqlParam[], database: string) {
+  const data = await conn.bridge.query("explain-select", { sql, params, database });
+  const text = data.results[0].plan;
+  const plan = parseExplain(text);
+  if (plan.estimatedCost === undefined) {
+    throw new BridgeError("malformed-response", "Malformed bridge response for 'explain-select': the plan has no estimated cost", "explain-select");
+  }
+  return { plan, estimatedCost: plan.estimatedCost, text, connectionId: data.connectionId };
+}
+
+// The tables of a statement by the name its plan steps use (the alias, else
+// the table name), with their row counts from the table statistics
+async function planTables(conn: Connection, database: string, tables: TableReference[]): Promise<Map<string, PlanTable>> {
+  const baseName = (ref: TableReference) => ref.table.slice(ref.table.lastIndexOf(".") + 1).toLowerCase();
+  const databaseOf = (ref: TableReference) => ref.database ?? database;
+  const rowCounts = new Map<string, number>();
+  for (const target of new Set(tables.map(databaseOf))) {
+    const names = [...new Set(tables.filter((ref) => databaseOf(ref) === target).map(baseName))];
+    const data = await conn.bridge.query("run-select", {
+      sql: `SELECT tabname, nrows FROM systables WHERE tabname IN (${names.map(() => "?").join(", ")})`,
+      params: names,
+      database: target
+    });
+    for (const row of data.results) {
+      const rows = Number(row.nrows);
+      if (Number.isFinite(rows)) {
+        rowCounts.set(`${target}:${String(row.tabname ?? "").trim().toLowerCase()}`, Math.round(rows));
+      }
+    }
+  }
+  return new Map(tables.map((ref) => [(ref.alias ?? baseName(ref)).toLowerCase(), {
+    name: ref.database ? `${ref.database}:${ref.table}` : ref.table,
+    rows: rowCounts.get(`${databaseOf(ref)}:${baseName(ref)}`)
+  }]));
+}
+
+// Plan steps and sections as 'explain-query' returns them
+const planStepOutput = z.object({
+  step: z.number().describe("Position in the join order, from 1"),
+  table: z.string().describe("Table or alias as the plan names it"),
+  tableName: z.string().describe("Table the step reads, as the statement names it"),
+  tableRows: z.number().nullable().describe("Rows in the table statistics (systables.nrows), when known"),
+  owner: z.string().optional(),
+  accessPath: z.string().describe("e.g. SEQUENTIAL SCAN, INDEX PATH, AUTOINDEX PATH or REMOTE PATH"),
+  index: z.string().optional(),
+  indexKeys: z.array(z.string()),
+  keyOnly: z.boolean().describe("True when the index alone answers the query"),
+  indexFilters: z.array(z.string()).describe("Conditions the index is searched with"),
+  filters: z.array(z.string()).describe("Conditions checked on each row read"),
+  join: z.object({ method: z.string(), filters: z.array(z.string()) }).optional().describe("How the table is joined to the steps before it")
+});
+
+const planSectionOutput = {
+  estimatedCost: z.number().nullable(),
+  estimatedRows: z.number().nullable(),
+  temporaryFiles: z.array(z.string()).describe("Clauses that need temporary files, e.g. Order By"),
+  steps: z.array(planStepOutput)
+};
+
+// Footer pointing at the next page, empty on the last page
+function pageNote(page: Page): string {
+  if (!page.nextCursor) {
+    return '';
+  }
+  return `\n\n📄 More ${page.source.kind === "tables" ? "tables" : "rows"} available` +
+         `${page.truncated ? " (this page was shortened to fit the response size budget)" : ""}. ` +
+         `Call 'fetch-next-page' with cursor: ${page.nextCursor}`;
+}
+
+// Render a page of sample rows or table names; `fetch-next-page` continues
+// both with the same output, plus any `fields` it adds
+function renderPage(format: OutputFormat, page: Page, fields: Record<string, unknown> = {}) {
+  const { source, rows, offset } = page;
+  const range = rows.length ? `${offset + 1}-${offset + rows.length}` : "none";
+  const text = source.kind === "sample-data"
+    ? `✅ Sample data from table '${source.table}' in database '${source.database}' (records ${range}):\n\n` +
+      rows.map((record, index) => `${offset + index + 1}. ${JSON.stringify(record)}`).join('\n')
+    : `✅ Tables ${range} of ${page.total} in database '${source.database}':\n\n` +
+      rows.map((row) => `• ${row.table}`).join('\n');
+
+  return renderToolResult(format, {
+    text,
+    title: source.kind === "sample-data"
+      ? `Sample data from table '${source.table}' in database '${source.database}' (records ${range})`
+      : `Tables ${range} of ${page.total} in database '${source.database}'`,
+    rows,
+    notes: redactionNote(page.redacted) + pageNote(page) + cacheNote(page.cache),
+    structured: {
+      ...fields,
+      database: source.database,
+      ...(source.kind === "sample-data" && { table: source.table }),
+      rows,
+      rowCount: rows.length,
+      ...(page.total !== undefined && { total: page.total }),
+      offset,
+      truncated: page.truncated,
+      ...(page.nextCursor && { nextCursor: page.nextCursor }),
+      redactedColumns: page.redacted,
+      ...(page.cache && { cache: page.cache })
+    }
+  });
+}
+
+// Report any bridge failure the same way from every tool: the taxonomy kind,
+// a readable message, and the query that was attempted.
+function bridgeErrorResult(conn: Connection, action: string, error: unknown, queryName: string, params: Record<string, unknown>) {
+  const kind = error instanceof BridgeError ? error.kind : "internal";
+  const message = error instanceof Error ? error.message : String(error);
+  logger.warn(action, { errorClass: kind, queryName, error: message });
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: `❌ ${action}: ${message}\n\n` +
+            `Error class: ${kind}\n` +
+            `Query: ${queryName}\n` +
+            `Parameters: ${JSON.stringify(params, null, 2)}\n` +
+            `Profile: ${conn.profile.name}\n` +
+            `PHP API URL: ${conn.bridge.url}`
+    }],
+    structuredContent: { error: kind, message },
+    isError: true
+  };
+}
+
+// What a tool call touched, filled in by the handler as it learns it
+interface AuditContext {
+  params?: Record<string, unknown>;
+  profile?: string;
+  database?: string;
+  tables?: string[];
+  rowCount?: number;
+  connectionId?: AuditEntry["connectionId"];
+  cached?: boolean;
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Correlation ID of a tool call: the X-Request-ID an HTTP client sent, when
+// usable as a header value, otherwise a new one
+function requestIdOf(extra: ToolExtra): string {
+  const header = extra.requestInfo?.headers["x-request-id"];
+  return typeof header === "string" && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+}
+
+// Wrap a tool handler so every call is timed, counted in the metrics, logged
+// and written to the audit log. Outcome and error class come from the result
+// (see `bridgeErrorResult` and `enforcePolicy`); a handler that throws is
+// recorded as an internal error. Everything the handler logs or sends to the
+// bridge carries the call's correlation ID, which is also returned in `_meta`.
+function audited<Args extends Record<string, unknown>>(
+  tool: string,
+  handler: (args: Args, extra: ToolExtra, audit: AuditContext) => Promise<CallToolResult>
+) {
+  return async (args: Args, extra: ToolExtra): Promise<CallToolResult> => {
+    const started = Date.now();
+    const audit: AuditContext = {};
+    const requestId = requestIdOf(extra);
+    const record = (outcome: AuditEntry["outcome"], errorClass?: string) => {
+      const durationMs = Date.now() - started;
+      auditLog.record({
+        timestamp: new Date(started).toISOString(),
+        clientId: clientIdOf(extra),
+        tool,
+        params: audit.params ?? args,
+        profile: audit.profile,
+        database: audit.database,
+        tables: audit.tables,
+        rowCount: audit.rowCount,
+        durationMs,
+        connectionId: audit.connectionId,
+        cached: audit.cached,
+        outcome,
+        errorClass,
+        requestId
+      });
+      toolCalls.inc({ tool, outcome });
+      if (errorClass) {
+        toolErrors.inc({ tool, error_class: errorClass });
+      }
+      toolDuration.observe({ tool }, durationMs / 1000);
+      (outcome === "success" ? logger.info : logger.warn)("Tool call finished", {
+        outcome, errorClass, durationMs, profile: audit.profile, database: audit.database, rowCount: audit.rowCount
       });
+    };
 
-      if (response.data.status === 'success') {
-        const data = response.data.data;
+    return await withLogContext({ requestId, clientId: clientIdOf(extra), tool }, async () => {
+      toolsInFlight.inc();
+      try {
+        const result = await handler(args, extra, audit);
+        const errorClass = result.isError ? String(result.structuredContent?.error ?? "internal") : undefined;
+        record(!result.isError ? "success" : errorClass === "policy-denied" ? "denied" : "failure", errorClass);
+        return { ...result, _meta: { ...result._meta, requestId } };
+      } catch (error) {
+        record("failure", "internal");
+        throw error;
+      } finally {
+        toolsInFlight.dec();
+      }
+    });
+  };
+}
+
+// The tools, resources and prompts every server offers, in registration order.
+// createServer registers each under a name from these lists, so server-info
+// and the startup log can list them without a server at hand
+const OFFERED = {
+  tools: [
+    "test-connection",
+    "query-informix",
+    "list-databases",
+    "list-tables",
+    "get-table-schema",
+    "get-table-constraints",
+    "get-table-indexes",
+    "describe-relationships",
+    "get-sample-data",
+    "profile-table",
+    "export-table",
+    "job-status",
+    "cancel-job",
+    "fetch-next-page",
+    "run-select",
+    "explain-query",
+    "snapshot-schema",
+    "list-snapshots",
+    "diff-schema",
+    "search-schema",
+    "refresh-metadata",
+    "list-profiles"
+  ],
+  resources: [
+    "server-info",
+    "query-reference",
+    "database-status",
+    "metrics",
+    "recent-activity",
+    "recent-activity-by-tool",
+    "export-file",
+    "database-tables",
+    "table-schema",
+    "table-sample",
+    "view-definition"
+  ],
+  prompts: [
+    "explain-table",
+    "draft-select",
+    "investigate-audit-trail"
+  ]
+} as const;
+
+type ToolName = (typeof OFFERED.tools)[number];
+type ResourceName = (typeof OFFERED.resources)[number];
+type PromptName = (typeof OFFERED.prompts)[number];
+
+/**
+ * Create an MCP server with every tool and resource registered. Each transport
+ * connection (stdio, or one HTTP session) gets its own instance, bound to the
+ * client that opened it; the bridge client and query catalog are shared.
+ */
+function createServer(clientId: string = ANONYMOUS_CLIENT): McpServer {
+  const server = new McpServer({
+    name: "informix-mcp-server",
+    version: "1.0.0"
+  });
+
+  // Register a simple test tool to verify the server is working
+  server.registerTool(
+    "test-connection" satisfies ToolName,
+    {
+      title: "Test Connection",
+      description: "Test the MCP server connection and response",
+      inputSchema: {
+        message: z.string().optional().describe("Optional test message")
+      },
+      outputSchema: toolOutputShape({
+        message: z.string(),
+        timestamp: z.string()
+      })
+    },
+    audited("test-connection", async ({ message = "Hello from Informix MCP Server!" }) => {
+      const timestamp = new Date().toISOString();
+      return {
+        content: [{
+          type: "text",
+          text: `✅ MCP Server is running successfully!\n\nMessage: ${message}\n\nTimestamp: ${timestamp}\n\nThis confirms that the Model Context Protocol server is properly connected and responding to requests.`
+        }],
+        structuredContent: { message, timestamp }
+      };
+    })
+  );
+
+  // Register a tool for Informix database queries via PHP API bridge
+  server.registerTool(
+    "query-informix" satisfies ToolName,
+    {
+      title: "Query Informix Database",
+      description: `Execute predefined queries against the Informix database via PHP API bridge. Supports database discovery, schema introspection, and data sampling across multiple databases (${DATABASES.join(", ")}). ` +
+        `Available queries: ${queryNames.join(", ")}. See the 'query-reference' resource for parameters and examples.`,
+      inputSchema: {
+        queryName: z.enum(queryNames).describe("Name of the predefined query to execute"),
+        params: z.record(z.any()).optional().describe("Parameters for the query (e.g., {tableName: 'users', database: 'eadmin', limit: 10})"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        queryName: z.string(),
+        params: z.record(z.unknown()),
+        results: rowsOutput,
+        executionTime: z.union([z.number(), z.string()]).nullable(),
+        connectionId: z.union([z.string(), z.number()]).nullable(),
+        redactedColumns: redactedColumnsOutput,
+        ...pageOutputShape,
+        cache: cacheStatusOutput.optional()
+      })
+    },
+    audited("query-informix", async ({ queryName, params = {}, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      const validation = paramsSchemas.get(queryName)!.safeParse(params);
+      if (!validation.success) {
+        const issues = describeParamIssues(validation.error);
         return {
           content: [{
             type: "text",
-            text: `✅ Query executed successfully!\n\n` +
-                  `Query: ${data.queryName}\n` +
-                  `Parameters: ${JSON.stringify(data.params, null, 2)}\n` +
-                  `Results: ${JSON.stringify(data.results, null, 2)}\n` +
-                  `Execution Time: ${data.execution_time}s\n` +
-                  `Connection ID: ${data.connection_id}`
-          }]
+            text: `❌ Invalid parameters for query '${queryName}':\n\n` +
+                  issues.map((issue) => `• ${issue.field}: ${issue.message}`).join('\n') +
+                  `\n\nSee the 'query-reference' resource for the parameters each query accepts.`
+          }],
+          structuredContent: { error: "invalid-params", queryName, issues },
+          isError: true
         };
-      } else {
+      }
+
+      // Database and identifier parameters (tableName, objectName, viewName, ...)
+      // name what the query reads
+      const catalogEntry = catalog.queries.find((entry) => entry.name === queryName)!;
+      const parameters = Object.entries(catalogEntry.parameters);
+      const databaseParamName = parameters.find(([, spec]) => spec.format === "database")?.[0];
+      const database = databaseParamName ? validation.data[databaseParamName] as string | undefined : undefined;
+      const objects = parameters
+        .filter(([name, spec]) => spec.format === "identifier" && typeof validation.data[name] === "string")
+        .map(([name]) => validation.data[name] as string);
+      Object.assign(audit, { params: { queryName, params: validation.data }, database, tables: objects });
+      const denied = enforcePolicy(extra,
+        { profile: conn.profile.name, queryName, database },
+        ...objects.map((table) => ({ database: database ?? 'eadmin', table }))
+      ) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      // Read-only profiles only run catalog queries marked read-only (or
+      // without the flag, which defaults to read-only)
+      if (conn.profile.readOnly && catalogEntry.readOnly === false) {
+        const message = `Query '${queryName}' may modify data and profile '${conn.profile.name}' is read-only`;
+        logger.warn(message);
         return {
-          content: [{
-            type: "text",
-            text: `❌ Query failed: ${response.data.message || 'Unknown error'}`
-          }],
+          content: [{ type: "text", text: `❌ ${message}.` }],
+          structuredContent: { error: "read-only-profile", message, target: { profile: conn.profile.name, queryName } },
           isError: true
         };
       }
-    } catch (error: any) {
-      console.error('❌ Error calling PHP API:', error.message);
-      
-      let errorMessage = 'Failed to execute query';
-      
-      if (error.response) {
-        // Server responded with error status
-        const status = error.response.status;
-        const data = error.response.data;
-        
-        if (status === 401) {
-          errorMessage = 'Authentication failed - invalid API key';
-        } else if (status === 403) {
-          errorMessage = 'Access forbidden - check API key permissions';
-        } else if (status === 400) {
-          errorMessage = `Bad request: ${data?.message || 'Invalid query or parameters'}`;
-        } else if (status === 500) {
-          errorMessage = `Server error: ${data?.message || 'Internal server error'}`;
+
+      try {
+        logger.debug("Executing query", { queryName, params: validation.data });
+
+        // Sample rows and table lists can be large, so they are paged like
+        // 'get-sample-data' and 'list-tables'
+        let page: Page | undefined;
+        if (queryName === "get-top-records" && typeof validation.data.tableName === "string") {
+          page = await fetchSamplePage(conn, clientIdOf(extra), database ?? 'eadmin', validation.data.tableName,
+            Number(validation.data.offset ?? 0), Number(validation.data.limit ?? 10));
+        } else if (queryName === "list-tables") {
+          page = await fetchTablesPage(conn, clientIdOf(extra), database ?? 'eadmin', 0, LIST_TABLES_PAGE_SIZE);
+        }
+
+        let response, results, redacted, cache;
+        if (page) {
+          response = { queryName, params: validation.data, executionTime: page.executionTime, connectionId: page.connectionId };
+          results = page.source.kind === "tables"
+            ? [{ table_count: page.total, tables: page.rows.map((row) => row.table) }]
+            : [{ records: page.rows }];
+          ({ redacted, cache } = page);
         } else {
-          errorMessage = `HTTP ${status}: ${data?.message || 'Unknown error'}`;
+          let data;
+          // Only queries that do not change data are retried
+          ({ value: data, cache } = await cachedQuery(conn, queryName, validation.data,
+            () => conn.bridge.queryAny(queryName, validation.data, { retry: catalogEntry.readOnly !== false })));
+          response = data;
+          ({ results, redacted } = redactQueryResults(
+            queryName,
+            database ?? 'eadmin',
+            objects,
+            addDeclarations(queryName, filterResultsByPolicy(clientIdOf(extra), queryName, database ?? 'eadmin', data.results))
+          ));
         }
-      } else if (error.code === 'ECONNREFUSED') {
-        errorMessage = 'Connection refused - PHP API server is not running or not accessible';
-      } else if (error.code === 'ETIMEDOUT') {
-        errorMessage = 'Request timed out - PHP API server took too long to respond';
-      } else {
-        errorMessage = `Network error: ${error.message}`;
-      }
-      
-      return {
-        content: [{
-          type: "text",
-          text: `❌ ${errorMessage}\n\n` +
-                `Query: ${queryName}\n` +
-                `Parameters: ${JSON.stringify(params, null, 2)}\n` +
-                `PHP API URL: ${PHP_API_URL}`
-        }],
-        isError: true
-      };
-    }
-  }
-);
+        const table = page ? page.rows : resultTable(results);
+        Object.assign(audit, { rowCount: table.length, connectionId: response.connectionId, cached: cache?.hit });
 
-// Register individual tools for better discoverability
-server.registerTool(
-  "list-databases",
-  {
-    title: "List All Databases",
-    description: "Get a list of all user databases in the Informix instance, excluding system databases. Useful for discovering available databases before querying specific ones.",
-    inputSchema: {
-      params: z.record(z.any()).optional().describe("No parameters required for this query")
-    }
-  },
-  async ({ params = {} }) => {
-    try {
-      console.error(`🔍 Listing databases...`);
-      
-      const response = await axios.post(PHP_API_URL, {
-        queryName: "list-databases",
-        params
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-KEY': API_KEY
-        },
-        timeout: 30000
-      });
+        return renderToolResult(format, {
+          text: `✅ Query executed successfully!\n\n` +
+                `Query: ${response.queryName}\n` +
+                `Parameters: ${JSON.stringify(response.params, null, 2)}\n` +
+                `Results: ${JSON.stringify(results, null, 2)}\n` +
+                `Execution Time: ${response.executionTime}s\n` +
+                `Connection ID: ${response.connectionId}`,
+          title: `${response.queryName}: ${table.length} row(s)`,
+          rows: table,
+          notes: redactionNote(redacted) + (page ? pageNote(page) : '') + cacheNote(cache),
+          structured: {
+            queryName: response.queryName,
+            params: response.params,
+            results,
+            executionTime: response.executionTime ?? null,
+            connectionId: response.connectionId ?? null,
+            redactedColumns: redacted,
+            ...(page && { offset: page.offset, truncated: page.truncated }),
+            ...(page?.nextCursor && { nextCursor: page.nextCursor }),
+            ...(cache && { cache })
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to execute query", error, queryName, params);
+      }
+    })
+  );
 
-      if (response.data.status === 'success') {
-        const data = response.data.data;
-        return {
-          content: [{
-            type: "text",
-            text: `✅ Found ${data.results[0].database_count} user databases:\n\n` +
-                  data.results[0].databases.map((db: any) => `• ${db.name}`).join('\n') +
-                  `\n\nUse these database names with other queries by setting the 'database' parameter.`
-          }]
+  // Register individual tools for better discoverability
+  server.registerTool(
+    "list-databases" satisfies ToolName,
+    {
+      title: "List All Databases",
+      description: "Get a list of all user databases in the Informix instance, excluding system databases. Useful for discovering available databases before querying specific ones.",
+      inputSchema: {
+        params: z.record(z.any()).optional().describe("No parameters required for this query"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        databases: z.array(z.string()),
+        count: z.number(),
+        cache: cacheStatusOutput.optional()
+      })
+    },
+    audited("list-databases", async ({ profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "list-databases" });
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Listing databases");
+
+        const { value: data, cache } = await cachedQuery(conn, "list-databases", {}, () => conn.bridge.query("list-databases", {}));
+        const databases = data.results[0].databases
+          .map((db) => db.name)
+          .filter((name) => policy.allowsDatabase(clientIdOf(extra), name));
+        Object.assign(audit, { rowCount: databases.length, connectionId: data.connectionId, cached: cache?.hit });
+        return renderToolResult(format, {
+          text: `✅ Found ${databases.length} user databases:\n\n` +
+                databases.map((name) => `• ${name}`).join('\n') +
+                `\n\nUse these database names with other queries by setting the 'database' parameter.`,
+          title: `${databases.length} user databases`,
+          rows: databases.map((name) => ({ database: name })),
+          columns: ["database"],
+          notes: cacheNote(cache),
+          structured: { databases, count: databases.length, ...(cache && { cache }) }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to list databases", error, "list-databases", {});
+      }
+    })
+  );
+
+  server.registerTool(
+    "list-tables" satisfies ToolName,
+    {
+      title: "List Tables in Database",
+      description: "Get a list of all tables in a specific database. Useful for discovering available tables before querying their schema or data.",
+      inputSchema: {
+        database: databaseParam(DATABASES).optional().describe(`Database name (defaults to 'eadmin'). Available: ${DATABASES.join(", ")}`),
+        limit: limitParam(10000).optional().describe(`Tables per page (defaults to ${LIST_TABLES_PAGE_SIZE}); use 'fetch-next-page' with the returned cursor for more`),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        tables: z.array(z.string()),
+        count: z.number().describe("Tables on this page"),
+        total: z.number().describe("Tables in the database visible to this client"),
+        ...pageOutputShape,
+        cache: cacheStatusOutput.optional()
+      })
+    },
+    audited("list-tables", async ({ database = 'eadmin', limit = LIST_TABLES_PAGE_SIZE, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      audit.database = database;
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "list-tables", database }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Listing tables", { database });
+
+        const page = await fetchTablesPage(conn, clientIdOf(extra), database, 0, limit);
+        const tables = page.rows.map((row) => String(row.table));
+        Object.assign(audit, { rowCount: tables.length, connectionId: page.connectionId, cached: page.cache?.hit });
+        return renderToolResult(format, {
+          text: `✅ Found ${page.total} tables in database '${database}'` +
+                `${tables.length < page.total! ? ` (showing the first ${tables.length})` : ''}:\n\n` +
+                tables.map((table) => `• ${table}`).join('\n') +
+                `\n\nUse these table names with 'get-table-schema' or 'get-top-records' queries.`,
+          title: `${page.total} tables in database '${database}'`,
+          rows: page.rows,
+          columns: ["table"],
+          notes: pageNote(page) + cacheNote(page.cache),
+          structured: {
+            database,
+            tables,
+            count: tables.length,
+            total: page.total,
+            offset: page.offset,
+            truncated: page.truncated,
+            ...(page.nextCursor && { nextCursor: page.nextCursor }),
+            ...(page.cache && { cache: page.cache })
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to list tables", error, "list-tables", { database });
+      }
+    })
+  );
+
+  server.registerTool(
+    "get-table-schema" satisfies ToolName,
+    {
+      title: "Get Table Schema",
+      description: "Get detailed column information for a specific table including column names, types, lengths, and nullability. Essential for understanding table structure before querying data.",
+      inputSchema: {
+        tableName: identifierParam("tableName").describe("Name of the table to get schema for"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        table: z.string(),
+        columns: z.array(z.object({
+          name: z.string(),
+          type: z.string(),
+          length: z.union([z.number(), z.string()]).nullable(),
+          nullable: z.boolean()
+        })),
+        cache: cacheStatusOutput.optional()
+      })
+    },
+    audited("get-table-schema", async ({ tableName, database = 'eadmin', profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      Object.assign(audit, { database, tables: [tableName] });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "get-table-schema", database, table: tableName }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Getting table schema", { database, table: tableName });
+
+        const { value: data, cache } = await cachedQuery(conn, "get-table-schema", { tableName, database }, () => conn.bridge.query("get-table-schema", { tableName, database }));
+        const columns = data.results[0].columns.map(describeColumn);
+        Object.assign(audit, { rowCount: columns.length, connectionId: data.connectionId, cached: cache?.hit });
+        return renderToolResult(format, {
+          text: `✅ Schema for table '${tableName}' in database '${database}':\n\n` +
+                `Columns (${columns.length}):\n` +
+                columns.map((col) =>
+                  `• ${col.name} (${col.type}) ${col.nullable ? 'NULL' : 'NOT NULL'}`
+                ).join('\n') +
+                `\n\nUse 'get-top-records' to see sample data from this table.`,
+          title: `Schema for table '${tableName}' in database '${database}'`,
+          rows: columns,
+          notes: cacheNote(cache),
+          structured: { database, table: tableName, columns, ...(cache && { cache }) }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to get table schema", error, "get-table-schema", { tableName, database });
+      }
+    })
+  );
+
+  server.registerTool(
+    "get-table-constraints" satisfies ToolName,
+    {
+      title: "Get Table Keys and Constraints",
+      description: "Get the primary key, unique constraints, foreign keys (with the referenced table and columns) and check constraints of a table, from the Informix system catalogs.",
+      inputSchema: {
+        tableName: identifierParam("tableName").describe("Name of the table"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        table: z.string(),
+        primaryKey: z.object({ name: z.string(), columns: z.array(z.string()) }).nullable(),
+        uniqueConstraints: z.array(z.object({ name: z.string(), columns: z.array(z.string()) })),
+        foreignKeys: z.array(z.object({
+          name: z.string(),
+          columns: z.array(z.string()),
+          referencedTable: z.string(),
+          referencedColumns: z.array(z.string())
+        })),
+        checkConstraints: z.array(z.object({ name: z.string(), definition: z.string().nullable() })),
+        cache: cacheStatusOutput.optional()
+      })
+    },
+    audited("get-table-constraints", async ({ tableName, database = 'eadmin', profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      Object.assign(audit, { database, tables: [tableName] });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "get-table-constraints", database, table: tableName }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Getting table constraints", { database, table: tableName });
+
+        const { value: data, cache } = await cachedQuery(conn, "get-table-constraints", { tableName, database },
+          () => conn.bridge.query("get-table-constraints", { tableName, database }));
+        const constraints = data.results.filter((row) =>
+          !row.referenced_table || policy.allowsTable(clientIdOf(extra), database, row.referenced_table)
+        );
+        const ofType = (type: string) => constraints.filter((row) => row.constraint_type.toUpperCase() === type);
+        const primary = ofType("P")[0];
+        const primaryKey = primary ? { name: primary.constraint_name, columns: primary.columns } : null;
+        const uniqueConstraints = ofType("U").map((row) => ({ name: row.constraint_name, columns: row.columns }));
+        const foreignKeys = ofType("R").map((row) => ({
+          name: row.constraint_name,
+          columns: row.columns,
+          referencedTable: row.referenced_table ?? "",
+          referencedColumns: row.referenced_columns ?? []
+        }));
+        const checkConstraints = ofType("C").map((row) => ({ name: row.constraint_name, definition: row.check_text ?? null }));
+        Object.assign(audit, { rowCount: constraints.length, connectionId: data.connectionId, cached: cache?.hit });
+
+        return renderToolResult(format, {
+          text: `✅ Keys and constraints of table '${tableName}' in database '${database}':\n\n` +
+                `Primary key: ${primaryKey ? `${primaryKey.name} (${primaryKey.columns.join(", ")})` : "none"}\n` +
+                `Unique: ${uniqueConstraints.length ? uniqueConstraints.map((c) => `${c.name} (${c.columns.join(", ")})`).join("; ") : "none"}\n` +
+                `Foreign keys:${foreignKeys.length ? "" : " none"}\n` +
+                foreignKeys.map((fk) => `• ${fk.name}: (${fk.columns.join(", ")}) → ${fk.referencedTable} (${fk.referencedColumns.join(", ")})\n`).join('') +
+                `Check constraints:${checkConstraints.length ? "" : " none"}` +
+                checkConstraints.map((check) => `\n• ${check.name}: ${check.definition ?? "(definition not available)"}`).join(''),
+          title: `Keys and constraints of table '${tableName}' in database '${database}'`,
+          rows: constraints.map((row) => ({
+            name: row.constraint_name,
+            type: row.constraint_type,
+            columns: row.columns.join(", "),
+            references: row.referenced_table ? `${row.referenced_table} (${(row.referenced_columns ?? []).join(", ")})` : "",
+            check: row.check_text ?? ""
+          })),
+          notes: cacheNote(cache),
+          structured: {
+            database,
+            table: tableName,
+            primaryKey,
+            uniqueConstraints,
+            foreignKeys,
+            checkConstraints,
+            ...(cache && { cache })
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to get table constraints", error, "get-table-constraints", { tableName, database });
+      }
+    })
+  );
+
+  server.registerTool(
+    "get-table-indexes" satisfies ToolName,
+    {
+      title: "Get Table Indexes",
+      description: "Get the indexes of a table with their columns, uniqueness and clustering, from the Informix system catalogs. Useful for choosing filter and join columns.",
+      inputSchema: {
+        tableName: identifierParam("tableName").describe("Name of the table"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        table: z.string(),
+        indexes: z.array(z.object({
+          name: z.string(),
+          unique: z.boolean(),
+          clustered: z.boolean(),
+          columns: z.array(z.string())
+        })),
+        cache: cacheStatusOutput.optional()
+      })
+    },
+    audited("get-table-indexes", async ({ tableName, database = 'eadmin', profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      Object.assign(audit, { database, tables: [tableName] });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "get-table-indexes", database, table: tableName }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Getting table indexes", { database, table: tableName });
+
+        const { value: data, cache } = await cachedQuery(conn, "get-table-indexes", { tableName, database },
+          () => conn.bridge.query("get-table-indexes", { tableName, database }));
+        const indexes = data.results.map((row) => ({
+          name: row.index_name,
+          unique: row.index_type.toUpperCase() === "U",
+          clustered: row.clustered ?? false,
+          columns: row.columns
+        }));
+        Object.assign(audit, { rowCount: indexes.length, connectionId: data.connectionId, cached: cache?.hit });
+
+        return renderToolResult(format, {
+          text: `✅ Found ${indexes.length} indexes on table '${tableName}' in database '${database}':\n\n` +
+                indexes.map((index) =>
+                  `• ${index.name} (${index.columns.join(", ")})${index.unique ? " UNIQUE" : ""}${index.clustered ? " CLUSTERED" : ""}`
+                ).join('\n'),
+          title: `Indexes on table '${tableName}' in database '${database}'`,
+          rows: indexes.map((index) => ({ ...index, columns: index.columns.join(", ") })),
+          notes: cacheNote(cache),
+          structured: { database, table: tableName, indexes, ...(cache && { cache }) }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to get table indexes", error, "get-table-indexes", { tableName, database });
+      }
+    })
+  );
+
+  server.registerTool(
+    "describe-relationships" satisfies ToolName,
+    {
+      title: "Describe Table Relationships",
+      description: "Get the join graph around a table: foreign keys declared on it and referencing it, followed to the chosen depth, with ready-to-use join conditions. Use it to find join columns instead of guessing.",
+      inputSchema: {
+        tableName: identifierParam("tableName").describe("Table at the centre of the graph"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        depth: z.number().int().min(1).max(5).optional().describe("Foreign key hops to follow (defaults to 1, at most 5)"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        table: z.string(),
+        depth: z.number(),
+        tables: z.array(z.object({
+          name: z.string(),
+          distance: z.number().describe("Foreign key hops from the starting table")
+        })),
+        relationships: z.array(z.object({
+          constraint: z.string(),
+          table: z.string(),
+          columns: z.array(z.string()),
+          referencedTable: z.string(),
+          referencedColumns: z.array(z.string()),
+          deleteRule: z.string().nullable(),
+          join: z.string()
+        })),
+        truncated: z.boolean().describe(`True when the graph was cut off at ${MAX_RELATIONSHIP_TABLES} tables`)
+      })
+    },
+    audited("describe-relationships", async ({ tableName, database = 'eadmin', depth = 1, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      Object.assign(audit, { database, tables: [tableName] });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "get-foreign-keys", database, table: tableName }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Describing relationships", { database, table: tableName, depth });
+
+        const graph = await describeRelationships(conn, clientIdOf(extra), database, tableName, depth);
+        const relationships = graph.relationships.map((relationship) => ({ ...relationship, join: joinCondition(relationship) }));
+        Object.assign(audit, { rowCount: relationships.length, tables: graph.tables.map((table) => table.name) });
+
+        return renderToolResult(format, {
+          text: `✅ ${relationships.length} relationships within ${depth} hop(s) of table '${tableName}' in database '${database}'` +
+                `${graph.truncated ? ` (stopped at ${MAX_RELATIONSHIP_TABLES} tables)` : ''}:\n\n` +
+                (relationships.length
+                  ? relationships.map((rel) => `• ${rel.table} → ${rel.referencedTable} via ${rel.constraint}: ${rel.join}`).join('\n')
+                  : "No foreign keys found.") +
+                `\n\nRelated tables: ${graph.tables.map((table) => `${table.name} (${table.distance})`).join(", ")}`,
+          title: `Relationships of table '${tableName}' in database '${database}' (depth ${depth})`,
+          rows: relationships.map((rel) => ({
+            constraint: rel.constraint,
+            table: rel.table,
+            columns: rel.columns.join(", "),
+            referenced_table: rel.referencedTable,
+            referenced_columns: rel.referencedColumns.join(", "),
+            join: rel.join
+          })),
+          structured: {
+            database,
+            table: tableName,
+            depth,
+            tables: graph.tables,
+            relationships,
+            truncated: graph.truncated
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to describe relationships", error, "get-foreign-keys", { tableName, database, depth });
+      }
+    })
+  );
+
+  server.registerTool(
+    "get-sample-data" satisfies ToolName,
+    {
+      title: "Get Sample Data from Table",
+      description: "Get a sample of records from a specific table. Useful for understanding data structure and content before writing queries.",
+      inputSchema: {
+        tableName: identifierParam("tableName").describe("Name of the table to get sample data from"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        limit: limitParam().optional().describe("Records per page (defaults to 10); use 'fetch-next-page' with the returned cursor for more"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        table: z.string(),
+        rows: rowsOutput,
+        rowCount: z.number(),
+        ...pageOutputShape,
+        redactedColumns: redactedColumnsOutput
+      })
+    },
+    audited("get-sample-data", async ({ tableName, database = 'eadmin', limit = 10, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      Object.assign(audit, { database, tables: [tableName] });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "get-top-records", database, table: tableName }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Getting sample records", { database, table: tableName, limit });
+
+        const page = await fetchSamplePage(conn, clientIdOf(extra), database, tableName, 0, limit);
+        Object.assign(audit, { rowCount: page.rows.length, connectionId: page.connectionId });
+        return renderPage(format, page);
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to get sample data", error, "get-top-records", { tableName, database, limit });
+      }
+    })
+  );
+
+  const histogramOutput = z.array(z.object({ from: z.number(), to: z.number(), count: z.number() }));
+
+  server.registerTool(
+    "profile-table" satisfies ToolName,
+    {
+      title: "Profile Table Data",
+      description: `Profile what the columns of a table actually contain: null count and ratio, distinct count, min/max, the most frequent values, string length distribution and numeric histograms, plus the table's exact row count. Tables of more than ${PROFILE_SAMPLE_ROWS} rows are profiled from a sample of that many rows. Redaction rules apply to the values shown.`,
+      inputSchema: {
+        tableName: identifierParam("tableName").describe("Name of the table to profile"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        columns: z.array(identifierParam("column")).min(1).optional().describe("Only profile these columns (defaults to all)"),
+        topK: z.number().int().min(1).max(PROFILE_TOP_K).optional().describe(`Most frequent values to return per column (defaults to 5, at most ${PROFILE_TOP_K})`),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        table: z.string(),
+        rowCount: z.number().describe("Exact number of rows in the table"),
+        sampleRows: z.number().describe("Rows the column statistics were computed from"),
+        sampling: z.enum(["none", "samples-of", "first-rows"]).describe("'none' when every row was read, 'samples-of' for an Informix sample, 'first-rows' for the first sampleRows rows"),
+        columns: z.array(z.object({
+          column: z.string(),
+          type: z.string(),
+          kind: z.enum(["numeric", "text", "temporal", "boolean", "other"]),
+          nullCount: z.number(),
+          nullRatio: z.number(),
+          distinctCount: z.number(),
+          min: z.unknown(),
+          max: z.unknown(),
+          topValues: z.array(z.object({ value: z.unknown(), count: z.number() })),
+          lengths: z.object({ min: z.number(), max: z.number(), mean: z.number(), histogram: histogramOutput }).optional(),
+          histogram: histogramOutput.optional()
+        })),
+        skippedColumns: z.array(z.string()).describe("Large object columns, which are not profiled"),
+        redactedColumns: redactedColumnsOutput,
+        cache: cacheStatusOutput.optional()
+      })
+    },
+    audited("profile-table", async ({ tableName, database = 'eadmin', columns, topK = 5, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      Object.assign(audit, { database, tables: [tableName] });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "profile-table", database, table: tableName }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Profiling table", { database, table: tableName });
+
+        const { value: data, cache } = await profileTable(conn, database, tableName);
+        const { profile: tableProfile } = data;
+        const known = [...tableProfile.columns.map((column) => column.column), ...tableProfile.skippedColumns, ...data.redacted.map((column) => column.column)];
+        const unknown = (columns ?? []).filter((name) => !known.some((column) => column.toLowerCase() === name.toLowerCase()));
+        if (unknown.length > 0) {
+          const issues = unknown.map((name) => ({ field: "columns", message: `Table '${tableName}' has no column '${name}'` }));
+          return {
+            content: [{ type: "text", text: `❌ Invalid parameters for 'profile-table':\n\n${issues.map((issue) => `• ${issue.message}`).join('\n')}` }],
+            structuredContent: { error: "invalid-params", issues },
+            isError: true
+          };
+        }
+
+        const selected = (name: string) => !columns || columns.some((column) => column.toLowerCase() === name.toLowerCase());
+        const profiles = tableProfile.columns.filter((column) => selected(column.column))
+          .map((column) => ({ ...column, topValues: column.topValues.slice(0, topK) }));
+        const redacted = data.redacted.filter((column) => selected(column.column));
+        Object.assign(audit, { rowCount: tableProfile.sampleRows, connectionId: data.connectionId, cached: cache?.hit });
+
+        const percent = (ratio: number) => `${Math.round(ratio * 1000) / 10}%`;
+        const topText = (column: ColumnProfile) => column.topValues.map((entry) => `${JSON.stringify(entry.value)} (${entry.count})`).join(", ");
+        const sampleText = tableProfile.sampling === "none"
+          ? `all ${tableProfile.rowCount} rows`
+          : `${tableProfile.sampleRows} of ${tableProfile.rowCount} rows (${tableProfile.sampling === "samples-of" ? "random sample" : "first rows"})`;
+        return renderToolResult(format, {
+          text: `✅ Profile of table '${tableName}' in database '${database}', from ${sampleText}:\n\n` +
+                profiles.map((column) =>
+                  `• ${column.column} ${column.type}: ${column.nullCount} nulls (${percent(column.nullRatio)}), ${column.distinctCount} distinct` +
+                  (column.min !== null ? `, range ${JSON.stringify(column.min)} – ${JSON.stringify(column.max)}` : '') +
+                  (column.lengths ? `, length ${column.lengths.min}-${column.lengths.max} (mean ${column.lengths.mean})` : '') +
+                  (column.topValues.length ? `\n    top: ${topText(column)}` : '') +
+                  (column.histogram?.length ? `\n    histogram: ${column.histogram.map((bin) => `[${bin.from}, ${bin.to}]: ${bin.count}`).join("; ")}` : '')
+                ).join('\n') +
+                (tableProfile.skippedColumns.length ? `\n\nNot profiled (large objects): ${tableProfile.skippedColumns.join(", ")}` : ''),
+          title: `Profile of table '${tableName}' in database '${database}' (${sampleText})`,
+          rows: profiles.map((column) => ({
+            column: column.column,
+            type: column.type,
+            nulls: column.nullCount,
+            nullRatio: column.nullRatio,
+            distinct: column.distinctCount,
+            min: column.min,
+            max: column.max,
+            topValues: topText(column)
+          })),
+          notes: redactionNote(redacted) + cacheNote(cache),
+          structured: {
+            database,
+            table: tableName,
+            rowCount: tableProfile.rowCount,
+            sampleRows: tableProfile.sampleRows,
+            sampling: tableProfile.sampling,
+            columns: profiles,
+            skippedColumns: tableProfile.skippedColumns.filter(selected),
+            redactedColumns: redacted,
+            ...(cache && { cache })
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to profile table", error, "profile-table", { tableName, database });
+      }
+    })
+  );
+
+  server.registerTool(
+    "export-table" satisfies ToolName,
+    {
+      title: "Export Table to a File",
+      description: `Export the rows of a table to a CSV, NDJSON or Parquet file in the server's export directory, with redaction applied. The export runs as a background job that pages through the table ${EXPORT_PAGE_ROWS} rows at a time. When the call carries a progress token (or wait is true) it reports progress and returns once the file is written, with a resource link to it; otherwise it returns the job id at once, for 'job-status' and 'cancel-job'.`,
+      inputSchema: {
+        tableName: identifierParam("tableName").describe("Name of the table to export"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        fileFormat: z.enum(EXPORT_FORMATS).describe("File format: 'csv' with a header row, 'ndjson' (one JSON object per line) or 'parquet'"),
+        columns: z.array(identifierParam("column")).min(1).optional().describe("Only export these columns (defaults to all)"),
+        where: z.string().optional().describe("Condition for the rows to export, without the WHERE keyword, e.g. \"dept_id = ? AND active = 'Y'\""),
+        params: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional().describe("Values for the positional '?' placeholders in 'where', in order"),
+        orderBy: z.array(identifierParam("column")).min(1).optional().describe("Columns to order the rows by, which keeps the paging stable (defaults to the primary key, or ROWID for a table without one)"),
+        maxRows: z.number().int().positive().optional().describe(`Maximum rows to export (defaults to and capped at ${EXPORT_MAX_ROWS})`),
+        wait: z.boolean().optional().describe("Wait for the export to finish; defaults to true when the call carries a progress token"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        job: jobOutput
+      })
+    },
+    audited("export-table", async ({ tableName, database = 'eadmin', fileFormat, columns, where, params = [], orderBy, maxRows = EXPORT_MAX_ROWS, wait, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      Object.assign(audit, { database, tables: [tableName] });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "export-table", database, table: tableName }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      let tableColumns;
+      try {
+        const { value: schema } = await cachedQuery(conn, "get-table-schema", { tableName, database },
+          () => conn.bridge.query("get-table-schema", { tableName, database }));
+        tableColumns = schema.results[0].columns.map(describeColumn);
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to export table", error, "get-table-schema", { tableName, database });
+      }
+
+      const hasColumn = (name: string) => tableColumns.some((column) => column.name.toLowerCase() === name.toLowerCase());
+      const issues = [
+        ...(columns ?? []).filter((name) => !hasColumn(name)).map((name) => ({ field: "columns", message: `Table '${tableName}' has no column '${name}'` })),
+        ...(orderBy ?? []).filter((name) => !hasColumn(name)).map((name) => ({ field: "orderBy", message: `Table '${tableName}' has no column '${name}'` }))
+      ];
+      const selected = tableColumns.filter((column) => !columns || columns.some((name) => name.toLowerCase() === column.name.toLowerCase()));
+      // Rules are decided per column, so one row of NULLs shows how each column is redacted
+      const { redacted } = redactor.redactRows([Object.fromEntries(selected.map((column) => [column.name, null]))], { database, tables: [tableName] });
+      const strategyOf = (name: string) => redacted.find((column) => column.column === name)?.strategy;
+      const exported: ExportColumn[] = selected
+        .filter((column) => strategyOf(column.name) !== "drop")
+        .map((column) => ({ name: column.name, type: column.type, ...(strategyOf(column.name) && { redacted: true }) }));
+      if (issues.length === 0 && exported.length === 0) {
+        issues.push({ field: "columns", message: `Every selected column of table '${tableName}' is dropped by the redaction rules` });
+      }
+      if (issues.length > 0) {
+        return {
+          content: [{ type: "text", text: `❌ Invalid parameters for 'export-table':\n\n${issues.map((issue) => `• ${issue.message}`).join('\n')}` }],
+          structuredContent: { error: "invalid-params", issues },
+          isError: true
         };
-      } else {
+      }
+
+      // Pages are read with SKIP, which needs a stable order: without orderBy,
+      // order by the primary key, or by ROWID for a table without one
+      let order = orderBy;
+      if (!order) {
+        try {
+          const { value: constraints } = await cachedQuery(conn, "get-table-constraints", { tableName, database },
+            () => conn.bridge.query("get-table-constraints", { tableName, database }));
+          order = constraints.results.find((row) => row.constraint_type.toUpperCase() === "P")?.columns ?? ["ROWID"];
+        } catch (error) {
+          return bridgeErrorResult(conn, "Failed to export table", error, "get-table-constraints", { tableName, database });
+        }
+      }
+
+      const whereClause = where ? ` WHERE ${where}` : '';
+      const query = `${exported.map((column) => column.name).join(", ")} FROM ${tableName}${whereClause} ORDER BY ${order.join(", ")}`;
+      let guarded;
+      let countStatement;
+      try {
+        guarded = guardSelect(`SELECT ${query}`, EXPORT_PAGE_ROWS);
+        countStatement = guardSelect(`SELECT COUNT(*) AS row_count FROM ${tableName}${whereClause}`, 1).sql;
+        if (guarded.placeholderCount !== params.length) {
+          throw new SqlGuardError(`Condition has ${guarded.placeholderCount} '?' placeholder(s) but ${params.length} parameter(s) were supplied`);
+        }
+        // The exported columns are redacted by name; this checks subqueries of the condition
+        redactionScope(guarded, database);
+        const foreign = guarded.tables.find((ref) => ref.database && !conn.profile.databases.includes(ref.database));
+        if (foreign) {
+          throw new SqlGuardError(`Database '${foreign.database}' is not one of the databases of profile '${conn.profile.name}' (${conn.profile.databases.join(", ")})`);
+        }
+      } catch (error) {
+        if (!(error instanceof SqlGuardError)) {
+          throw error;
+        }
         return {
           content: [{
             type: "text",
-            text: `❌ Failed to list databases: ${response.data.message || 'Unknown error'}`
+            text: `❌ Export rejected: ${error.message}\n\n'where' must be a read-only condition, as 'run-select' accepts it.`
           }],
+          structuredContent: { error: "sql-rejected", message: error.message },
           isError: true
         };
       }
-    } catch (error: any) {
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Error listing databases: ${error.message}`
-        }],
-        isError: true
-      };
-    }
-  }
-);
 
-server.registerTool(
-  "list-tables",
-  {
-    title: "List Tables in Database",
-    description: "Get a list of all tables in a specific database. Useful for discovering available tables before querying their schema or data.",
-    inputSchema: {
-      database: z.string().optional().describe("Database name (defaults to 'eadmin'). Available: eadmin, payrolldb, ppc, auditdb")
-    }
-  },
-  async ({ database = 'eadmin' }) => {
-    try {
-      console.error(`🔍 Listing tables in database: ${database}`);
-      
-      const response = await axios.post(PHP_API_URL, {
-        queryName: "list-tables",
-        params: { database }
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-KEY': API_KEY
-        },
-        timeout: 30000
-      });
+      // Tables in subqueries of the condition are checked as 'run-select' checks them
+      audit.tables = guarded.tables.map((ref) => ref.database ? `${ref.database}:${ref.table}` : ref.table);
+      const deniedTable = enforcePolicy(extra, ...guarded.tables.map((ref) => ({ database: ref.database ?? database, table: ref.table })));
+      if (deniedTable) {
+        return deniedTable;
+      }
 
-      if (response.data.status === 'success') {
-        const data = response.data.data;
+      const request: ExportRequest = {
+        conn,
+        database,
+        table: tableName,
+        format: fileFormat,
+        columns: exported,
+        query,
+        countStatement,
+        params,
+        maxRows: Math.min(maxRows, EXPORT_MAX_ROWS),
+        redacted
+      };
+      let job: Job<ExportResult>;
+      try {
+        job = exportJobs.start("export-table", clientIdOf(extra), (context) => runExport(request, context));
+      } catch (error) {
+        if (!(error instanceof QueueFullError)) {
+          throw error;
+        }
         return {
-          content: [{
-            type: "text",
-            text: `✅ Found ${data.results[0].table_count} tables in database '${database}':\n\n` +
-                  data.results[0].tables.map((table: string) => `• ${table}`).join('\n') +
-                  `\n\nUse these table names with 'get-table-schema' or 'get-top-records' queries.`
-          }]
+          content: [{ type: "text", text: `❌ Too many exports in progress (${error.message}). Try again once one has finished.` }],
+          structuredContent: { error: "overloaded", message: error.message },
+          isError: true
         };
-      } else {
+      }
+      logger.info("Export started", { database, table: tableName, format: fileFormat, jobId: job.id });
+
+      const progressToken = extra._meta?.progressToken;
+      if (wait ?? progressToken !== undefined) {
+        // Cancelling the call cancels the export it is waiting for
+        const cancel = () => exportJobs.cancel(job.id);
+        extra.signal.addEventListener("abort", cancel, { once: true });
+        let reported = 0;
+        await exportJobs.wait(job.id, ({ progress }) => {
+          if (progressToken === undefined || progress.rows <= reported) {
+            return;
+          }
+          reported = progress.rows;
+          extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: progress.rows, total: progress.total, message: `${progress.rows} rows exported` }
+          }).catch(() => undefined);
+        });
+        extra.signal.removeEventListener("abort", cancel);
+      }
+
+      audit.rowCount = job.result?.rows;
+      if (job.state === "failed") {
         return {
-          content: [{
-            type: "text",
-            text: `❌ Failed to list tables: ${response.data.message || 'Unknown error'}`
-          }],
+          content: [{ type: "text", text: jobText(job) }],
+          structuredContent: { error: job.failure!.error, message: job.failure!.message, job: jobView(job) },
           isError: true
         };
       }
-    } catch (error: any) {
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Error listing tables: ${error.message}`
-        }],
-        isError: true
-      };
-    }
-  }
-);
+      const result = renderToolResult(format, {
+        text: jobText(job) +
+              (isFinished(job) ? '' : `\n\nCheck on it with 'job-status' or stop it with 'cancel-job' (jobId: ${job.id}).`),
+        title: `Export of table '${tableName}' in database '${database}'`,
+        rows: [jobRow(job)],
+        notes: redactionNote(redacted),
+        structured: { job: jobView(job) }
+      });
+      if (job.result) {
+        result.content.push(exportLink(job.result));
+      }
+      return result;
+    })
+  );
 
-server.registerTool(
-  "get-table-schema",
-  {
-    title: "Get Table Schema",
-    description: "Get detailed column information for a specific table including column names, types, lengths, and nullability. Essential for understanding table structure before querying data.",
-    inputSchema: {
-      tableName: z.string().describe("Name of the table to get schema for"),
-      database: z.string().optional().describe("Database name (defaults to 'eadmin')")
-    }
-  },
-  async ({ tableName, database = 'eadmin' }) => {
-    try {
-      console.error(`🔍 Getting schema for table: ${tableName} in database: ${database}`);
-      
-      const response = await axios.post(PHP_API_URL, {
-        queryName: "get-table-schema",
-        params: { tableName, database }
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-KEY': API_KEY
-        },
-        timeout: 30000
+  // Jobs are only visible to the client that started them
+  const unknownJob = (jobId: string) => ({
+    content: [{ type: "text" as const, text: `❌ No job '${jobId}'. 'job-status' lists your jobs; finished jobs are forgotten after a while.` }],
+    structuredContent: { error: "unknown-job", message: `No job '${jobId}'` },
+    isError: true
+  });
+
+  server.registerTool(
+    "job-status" satisfies ToolName,
+    {
+      title: "Get Background Job Status",
+      description: "Get the state and progress of a background job started by 'export-table', or of all your recent jobs. Finished exports include a resource link to the file.",
+      inputSchema: {
+        jobId: z.string().optional().describe("Job id returned by 'export-table' (defaults to all your jobs, newest first)"),
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        jobs: z.array(jobOutput)
+      })
+    },
+    audited("job-status", async ({ jobId, format = "text" }, extra, audit) => {
+      const caller = clientIdOf(extra);
+      const job = jobId === undefined ? undefined : exportJobs.get(jobId);
+      if (jobId !== undefined && job?.clientId !== caller) {
+        return unknownJob(jobId);
+      }
+      const jobs = job ? [job] : exportJobs.list(caller);
+      audit.rowCount = jobs.length;
+
+      const result = renderToolResult(format, {
+        text: jobs.length ? jobs.map(jobText).join('\n') : "No background jobs.",
+        title: job ? `Job ${job.id}` : `${jobs.length} background jobs`,
+        rows: jobs.map(jobRow),
+        structured: { jobs: jobs.map(jobView) }
       });
+      result.content.push(...jobs.flatMap((entry) => entry.result ? [exportLink(entry.result)] : []));
+      return result;
+    })
+  );
 
-      if (response.data.status === 'success') {
-        const data = response.data.data;
-        const columns = data.results[0].columns;
-        return {
-          content: [{
-            type: "text",
-            text: `✅ Schema for table '${tableName}' in database '${database}':\n\n` +
-                  `Columns (${columns.length}):\n` +
-                  columns.map((col: any) => 
-                    `• ${col.column_name} (${col.type_name}${col.column_length ? `(${col.column_length})` : ''}) ${col.is_nullable === 'YES' ? 'NULL' : 'NOT NULL'}`
-                  ).join('\n') +
-                  `\n\nUse 'get-top-records' to see sample data from this table.`
-          }]
-        };
-      } else {
+  server.registerTool(
+    "cancel-job" satisfies ToolName,
+    {
+      title: "Cancel Background Job",
+      description: "Cancel a queued or running background job started by 'export-table'. A running export stops after the page it is reading, and its partial file is deleted.",
+      inputSchema: {
+        jobId: z.string().describe("Job id returned by 'export-table'"),
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        job: jobOutput
+      })
+    },
+    audited("cancel-job", async ({ jobId, format = "text" }, extra) => {
+      if (exportJobs.get(jobId)?.clientId !== clientIdOf(extra)) {
+        return unknownJob(jobId);
+      }
+      const job = exportJobs.cancel(jobId)!;
+      await exportJobs.wait(jobId);
+
+      return renderToolResult(format, {
+        text: job.state === "cancelled" ? jobText(job) : `ℹ️ Job ${job.id} had already finished:\n\n${jobText(job)}`,
+        title: `Job ${job.id}`,
+        rows: [jobRow(job)],
+        structured: { job: jobView(job) }
+      });
+    })
+  );
+
+  server.registerTool(
+    "fetch-next-page" satisfies ToolName,
+    {
+      title: "Fetch Next Page",
+      description: "Continue a paged result from 'get-sample-data', 'list-tables' or 'query-informix' (get-top-records, list-tables). Pass the nextCursor from the previous response; each page returns a new nextCursor until the last one.",
+      inputSchema: {
+        cursor: z.string().describe("The nextCursor value from the previous page"),
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        source: z.enum(["sample-data", "tables"]),
+        database: z.string(),
+        table: z.string().optional(),
+        rows: rowsOutput,
+        rowCount: z.number(),
+        total: z.number().optional(),
+        ...pageOutputShape,
+        redactedColumns: redactedColumnsOutput,
+        cache: cacheStatusOutput.optional()
+      })
+    },
+    audited("fetch-next-page", async ({ cursor, format = "text" }, extra, audit) => {
+      let position;
+      try {
+        position = cursors.decode(cursor, clientIdOf(extra));
+      } catch (error) {
+        if (!(error instanceof CursorError)) {
+          throw error;
+        }
         return {
-          content: [{
-            type: "text",
-            text: `❌ Failed to get table schema: ${response.data.message || 'Unknown error'}`
-          }],
+          content: [{ type: "text", text: `❌ ${error.message}` }],
+          structuredContent: { error: "invalid-cursor", message: error.message },
           isError: true
         };
       }
-    } catch (error: any) {
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Error getting table schema: ${error.message}`
-        }],
-        isError: true
-      };
-    }
-  }
-);
 
-server.registerTool(
-  "get-sample-data",
-  {
-    title: "Get Sample Data from Table",
-    description: "Get a sample of records from a specific table. Useful for understanding data structure and content before writing queries.",
-    inputSchema: {
-      tableName: z.string().describe("Name of the table to get sample data from"),
-      database: z.string().optional().describe("Database name (defaults to 'eadmin')"),
-      limit: z.number().optional().describe("Number of records to return (defaults to 10)")
-    }
-  },
-  async ({ tableName, database = 'eadmin', limit = 10 }) => {
-    try {
-      console.error(`🔍 Getting ${limit} sample records from table: ${tableName} in database: ${database}`);
-      
-      const response = await axios.post(PHP_API_URL, {
-        queryName: "get-top-records",
-        params: { tableName, database, limit: limit }
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-KEY': API_KEY
-        },
-        timeout: 30000
+      // The policy may have changed since the cursor was issued
+      const { database, offset, pageSize } = position;
+      const conn = connectionFor(position.profile);
+      const table = position.kind === "sample-data" ? position.table : undefined;
+      Object.assign(audit, { params: { ...position, format }, profile: conn.profile.name, database, tables: table ? [table] : undefined });
+      const denied = enforcePolicy(extra, {
+        profile: conn.profile.name,
+        queryName: position.kind === "sample-data" ? "get-top-records" : "list-tables",
+        database,
+        table
+      });
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Fetching next page", { source: position.kind, database, offset });
+
+        const page = position.kind === "sample-data"
+          ? await fetchSamplePage(conn, clientIdOf(extra), database, position.table, offset, pageSize)
+          : await fetchTablesPage(conn, clientIdOf(extra), database, offset, pageSize);
+        Object.assign(audit, { rowCount: page.rows.length, connectionId: page.connectionId, cached: page.cache?.hit });
+        return renderPage(format, page, { source: position.kind });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to fetch next page", error,
+          position.kind === "sample-data" ? "get-top-records" : "list-tables", { database, table, offset, pageSize });
+      }
+    })
+  );
+
+  server.registerTool(
+    "run-select" satisfies ToolName,
+    {
+      title: "Run Read-Only SELECT",
+      description: `Run an ad-hoc SELECT statement against an Informix database. The statement is checked before it is sent: only a single SELECT is accepted (no DDL/DML, INTO TEMP, FOR UPDATE, UNION or procedure calls), and an Informix FIRST clause caps the result at ${RUN_SELECT_MAX_ROWS} rows. Use positional '?' placeholders with 'params' for values.` +
+                   (MAX_QUERY_COST ? ` Statements with an estimated optimizer cost above ${MAX_QUERY_COST} are refused; check the plan with 'explain-query' first.` : ''),
+      inputSchema: {
+        sql: z.string().describe("A single Informix SELECT statement, e.g. \"SELECT emp_id, name FROM employee WHERE dept = ?\""),
+        params: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional().describe("Values for the positional '?' placeholders, in order"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        maxRows: z.number().int().positive().optional().describe(`Maximum rows to return (defaults to and capped at ${RUN_SELECT_MAX_ROWS})`),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        statement: z.string().describe("The statement as sent to Informix, including the FIRST cap"),
+        params: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+        rows: rowsOutput,
+        rowCount: z.number(),
+        capped: z.boolean().describe("True when the row cap was reached and more rows may exist"),
+        executionTime: z.union([z.number(), z.string()]).nullable(),
+        estimatedCost: z.number().optional().describe("Optimizer cost estimate, when the server limits the cost of statements"),
+        redactedColumns: redactedColumnsOutput
+      })
+    },
+    audited("run-select", async ({ sql, params = [], database = 'eadmin', maxRows = RUN_SELECT_MAX_ROWS, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      audit.database = database;
+      const { guarded, redaction, rejected } = guardStatement("run-select", conn, sql, params, Math.min(maxRows, RUN_SELECT_MAX_ROWS), database);
+      if (rejected) {
+        return rejected;
+      }
+
+      audit.tables = guarded.tables.map((ref) => ref.database ? `${ref.database}:${ref.table}` : ref.table);
+      const denied = enforcePolicy(extra,
+        { profile: conn.profile.name, queryName: "run-select", database },
+        ...guarded.tables.map((ref) => ({ database: ref.database ?? database, table: ref.table }))
+      ) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      // Refuse statements the optimizer expects to be too expensive
+      let estimatedCost: number | undefined;
+      if (MAX_QUERY_COST) {
+        try {
+          ({ estimatedCost } = await explainSelect(conn, guarded.sql, params, database));
+        } catch (error) {
+          return bridgeErrorResult(conn, "Failed to estimate the cost of SELECT", error, "explain-select", { sql: guarded.sql, params, database });
+        }
+        if (estimatedCost > MAX_QUERY_COST) {
+          const message = `Estimated cost ${estimatedCost} is above the maximum of ${MAX_QUERY_COST}`;
+          return {
+            content: [{
+              type: "text",
+              text: `❌ Statement refused: ${message}.\n\nUse 'explain-query' to see the plan, then narrow the statement, e.g. with conditions on indexed columns.`
+            }],
+            structuredContent: { error: "cost-exceeded", message, estimatedCost },
+            isError: true
+          };
+        }
+      }
+
+      try {
+        logger.debug("Running SELECT", { database, sql: guarded.sql });
+
+        const data = await conn.bridge.query("run-select", { sql: guarded.sql, params, database });
+        // The bridge should honour FIRST n, but never hand back more than the cap
+        const { rows, redacted } = redactor.redactRows(data.results.slice(0, guarded.rowCap), redaction);
+        Object.assign(audit, { rowCount: rows.length, connectionId: data.connectionId });
+        const capped = rows.length === guarded.rowCap;
+        return renderToolResult(format, {
+          text: `✅ SELECT returned ${rows.length} row(s) from database '${database}'` +
+                `${capped ? ` (capped at ${guarded.rowCap})` : ''}:\n\n` +
+                `Statement: ${guarded.sql}\n` +
+                `Parameters: ${JSON.stringify(params)}\n` +
+                `Rows: ${JSON.stringify(rows, null, 2)}\n` +
+                `Execution Time: ${data.executionTime}s`,
+          title: `SELECT returned ${rows.length} row(s) from database '${database}'${capped ? ` (capped at ${guarded.rowCap})` : ''}`,
+          rows,
+          notes: redactionNote(redacted),
+          structured: {
+            database,
+            statement: guarded.sql,
+            params,
+            rows,
+            rowCount: rows.length,
+            capped,
+            executionTime: data.executionTime ?? null,
+            ...(estimatedCost !== undefined && { estimatedCost }),
+            redactedColumns: redacted
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to run SELECT", error, "run-select", { sql: guarded.sql, params, database });
+      }
+    })
+  );
+
+  server.registerTool(
+    "explain-query" satisfies ToolName,
+    {
+      title: "Explain Query Plan",
+      description: `Show the Informix optimizer plan for a SELECT statement without running it: estimated cost and rows, each table's access path (sequential scan or index, with the index keys and filters), the join order and join methods, and subqueries. Warnings point out sequential scans of large tables (${EXPLAIN_LARGE_TABLE_ROWS} rows or more), temporary indexes and large sorts` +
+                   (MAX_QUERY_COST ? `, and costs above ${MAX_QUERY_COST}, which 'run-select' refuses` : '') +
+                   `. The statement is checked and capped as 'run-select' would run it.`,
+      inputSchema: {
+        sql: z.string().describe("A single Informix SELECT statement, e.g. \"SELECT * FROM employee_audit WHERE emp_id = ?\""),
+        params: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional().describe("Values for the positional '?' placeholders, in order"),
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        maxRows: z.number().int().positive().optional().describe(`Row cap, as for 'run-select' (defaults to and capped at ${RUN_SELECT_MAX_ROWS})`),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        database: z.string(),
+        statement: z.string().describe("The statement as 'run-select' would send it, including the FIRST cap"),
+        params: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+        ...planSectionOutput,
+        estimatedCost: z.number(),
+        subqueries: z.array(z.object(planSectionOutput)),
+        warnings: z.array(z.string()),
+        maxCost: z.number().nullable().describe("Estimated cost above which 'run-select' refuses a statement, null when unlimited"),
+        plan: z.string().describe("The SET EXPLAIN output as Informix wrote it")
+      })
+    },
+    audited("explain-query", async ({ sql, params = [], database = 'eadmin', maxRows = RUN_SELECT_MAX_ROWS, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      audit.database = database;
+      const { guarded, rejected } = guardStatement("explain-query", conn, sql, params, Math.min(maxRows, RUN_SELECT_MAX_ROWS), database);
+      if (rejected) {
+        return rejected;
+      }
+
+      audit.tables = guarded.tables.map((ref) => ref.database ? `${ref.database}:${ref.table}` : ref.table);
+      const denied = enforcePolicy(extra,
+        { profile: conn.profile.name, queryName: "explain-query", database },
+        ...guarded.tables.map((ref) => ({ database: ref.database ?? database, table: ref.table }))
+      ) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Explaining SELECT", { database, sql: guarded.sql });
+
+        const { plan, estimatedCost, text, connectionId } = await explainSelect(conn, guarded.sql, params, database);
+        const tables = await planTables(conn, database, guarded.tables);
+        audit.connectionId = connectionId;
+        const warnings = planWarnings(plan, {
+          tableOf: (name) => tables.get(name.toLowerCase()),
+          largeTableRows: EXPLAIN_LARGE_TABLE_ROWS,
+          maxCost: MAX_QUERY_COST
+        });
+
+        const describeStep = (step: PlanStep) => {
+          const table = tables.get(step.table.toLowerCase());
+          return { ...step, tableName: table?.name ?? step.table, tableRows: table?.rows ?? null };
+        };
+        const section = (part: typeof plan.subqueries[number]) => ({
+          estimatedCost: part.estimatedCost ?? null,
+          estimatedRows: part.estimatedRows ?? null,
+          temporaryFiles: part.temporaryFiles,
+          steps: part.steps.map(describeStep)
+        });
+        const main = section(plan);
+        const subqueries = plan.subqueries.map(section);
+
+        const stepText = (step: ReturnType<typeof describeStep>) =>
+          `  ${step.step}) ${step.tableName}${step.tableName.toLowerCase().endsWith(step.table.toLowerCase()) ? '' : ` (${step.table})`}: ${step.accessPath}` +
+          (step.index ? ` using ${step.index} (${step.indexKeys.join(", ")})${step.keyOnly ? ', key-only' : ''}` : '') +
+          (step.tableRows !== null ? `, ${step.tableRows} rows in table` : '') +
+          step.indexFilters.map((filter) => `\n       index filter: ${filter}`).join('') +
+          step.filters.map((filter) => `\n       filter: ${filter}`).join('') +
+          (step.join ? `\n     ${step.join.method}${step.join.filters.map((filter) => `\n       join filter: ${filter}`).join('')}` : '');
+        const sectionText = (part: ReturnType<typeof section>) =>
+          `Estimated cost: ${part.estimatedCost ?? 'unknown'}, rows: ${part.estimatedRows ?? 'unknown'}` +
+          (part.temporaryFiles.length ? `\nTemporary files for: ${part.temporaryFiles.join(", ")}` : '') +
+          `\n${part.steps.map(stepText).join('\n')}`;
+
+        return renderToolResult(format, {
+          text: `✅ Plan for SELECT in database '${database}':\n\n` +
+                `Statement: ${guarded.sql}\n` +
+                `Parameters: ${JSON.stringify(params)}\n` +
+                sectionText(main) +
+                subqueries.map((part, index) => `\n\nSubquery ${index + 1}:\n${sectionText(part)}`).join(''),
+          title: `Plan for SELECT in database '${database}': estimated cost ${estimatedCost}, ${main.estimatedRows ?? 'unknown'} row(s)`,
+          rows: [main, ...subqueries].flatMap((part, index) => part.steps.map((step) => ({
+            section: index === 0 ? "query" : `subquery ${index}`,
+            step: step.step,
+            table: step.tableName,
+            tableRows: step.tableRows,
+            accessPath: step.accessPath,
+            index: step.index ?? null,
+            filters: [...step.indexFilters, ...step.filters].join(" AND "),
+            join: step.join?.method ?? null
+          }))),
+          notes: warnings.length ? `\n\n⚠️ Warnings:\n${warnings.map((warning) => `• ${warning}`).join('\n')}` : '',
+          structured: {
+            database,
+            statement: guarded.sql,
+            params,
+            ...main,
+            estimatedCost,
+            subqueries,
+            warnings,
+            maxCost: MAX_QUERY_COST ?? null,
+            plan: text
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to explain SELECT", error, "explain-select", { sql: guarded.sql, params, database });
+      }
+    })
+  );
+
+  server.registerTool(
+    "snapshot-schema" satisfies ToolName,
+    {
+      title: "Snapshot Database Schema",
+      description: "Save every table and view of a database, with column types, nullability and view definitions, to a versioned JSON snapshot file. Compare snapshots with 'diff-schema' to find schema drift between environments or over time.",
+      inputSchema: {
+        database: databaseParam(DATABASES).optional().describe("Database name (defaults to 'eadmin')"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        snapshot: z.string().describe("Snapshot file name, for 'diff-schema'"),
+        profile: z.string(),
+        database: z.string(),
+        takenAt: z.string(),
+        tables: z.number(),
+        views: z.number(),
+        columns: z.number()
+      })
+    },
+    audited("snapshot-schema", async ({ database = 'eadmin', profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      audit.profile = conn.profile.name;
+      audit.database = database;
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "get-table-schema", database }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Taking schema snapshot", { database });
+
+        const snapshot = await takeSnapshot(conn, clientIdOf(extra), database);
+        const name = await snapshots.save(snapshot);
+        const objects = Object.entries(snapshot.tables);
+        const views = objects.filter(([, object]) => object.kind === "view").length;
+        const columns = objects.reduce((total, [, object]) => total + object.columns.length, 0);
+        audit.rowCount = objects.length;
+
+        return renderToolResult(format, {
+          text: `✅ Saved schema snapshot '${name}' of database '${database}' on profile '${conn.profile.name}': ` +
+                `${objects.length - views} tables, ${views} views, ${columns} columns.\n\n` +
+                `Compare it with another snapshot or a live database using 'diff-schema'.`,
+          title: `Schema snapshot '${name}' of database '${database}'`,
+          rows: objects.map(([table, object]) => ({ table, kind: object.kind, columns: object.columns.length })),
+          structured: {
+            snapshot: name,
+            profile: conn.profile.name,
+            database,
+            takenAt: snapshot.takenAt,
+            tables: objects.length - views,
+            views,
+            columns
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(conn, "Failed to snapshot schema", error, "get-table-schema", { database });
+      }
+    })
+  );
+
+  server.registerTool(
+    "list-snapshots" satisfies ToolName,
+    {
+      title: "List Schema Snapshots",
+      description: "List the schema snapshots saved by 'snapshot-schema', newest first, to pick snapshots for 'diff-schema'.",
+      inputSchema: {
+        database: databaseParam(DATABASES).optional().describe("Only list snapshots of this database"),
+        profile: profileParam(profileNames).optional().describe("Only list snapshots taken on this connection profile"),
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        snapshots: z.array(z.object({
+          name: z.string(),
+          profile: z.string().optional().describe("Connection profile; absent for snapshots taken before profiles existed"),
+          database: z.string(),
+          takenAt: z.string(),
+          tables: z.number().describe("Tables and views in the snapshot")
+        }))
+      })
+    },
+    audited("list-snapshots", async ({ database, profile, format = "text" }, extra, audit) => {
+      Object.assign(audit, { profile, database });
+      const clientId = clientIdOf(extra);
+      const saved = (await snapshots.list())
+        .filter((snapshot) => (!database || snapshot.database === database) && (!profile || snapshot.profile === profile))
+        .filter((snapshot) => policy.allowsDatabase(clientId, snapshot.database) && (!snapshot.profile || policy.allowsProfile(clientId, snapshot.profile)));
+      audit.rowCount = saved.length;
+
+      return renderToolResult(format, {
+        text: saved.length
+          ? `✅ ${saved.length} schema snapshot(s) in ${snapshots.dir}:\n\n` +
+            saved.map((snapshot) => `• ${snapshot.name} (${snapshot.profile ? `${snapshot.profile}/` : ''}${snapshot.database}, ${snapshot.takenAt}, ${snapshot.tables} tables and views)`).join('\n')
+          : `No schema snapshots${database ? ` of database '${database}'` : ''} in ${snapshots.dir}. Use 'snapshot-schema' to take one.`,
+        title: `Schema snapshots in ${snapshots.dir}`,
+        rows: saved.map((snapshot) => ({ ...snapshot })),
+        structured: { snapshots: saved }
       });
+    })
+  );
+
+  const snapshotColumnOutput = z.object({ name: z.string(), type: z.string(), nullable: z.boolean() });
+  const diffSideOutput = z.object({
+    profile: z.string().optional(),
+    database: z.string(),
+    takenAt: z.string(),
+    snapshot: z.string().optional().describe("Snapshot file name; absent for a live database")
+  });
 
-      if (response.data.status === 'success') {
-        const data = response.data.data;
-        const records = data.results[0].records;
+  server.registerTool(
+    "diff-schema" satisfies ToolName,
+    {
+      title: "Diff Database Schemas",
+      description: "Compare two schemas and report added and removed tables and views, column type changes, nullability changes and view definition changes. Each side is either a saved snapshot (see 'list-snapshots') or a live database.",
+      inputSchema: {
+        fromSnapshot: z.string().optional().describe("Snapshot file name to compare from"),
+        fromDatabase: databaseParam(DATABASES).optional().describe("Live database to compare from"),
+        fromProfile: profileParam(profileNames).optional().describe(`Connection profile of fromDatabase (defaults to '${profiles.defaultProfile}')`),
+        toSnapshot: z.string().optional().describe("Snapshot file name to compare to"),
+        toDatabase: databaseParam(DATABASES).optional().describe("Live database to compare to"),
+        toProfile: profileParam(profileNames).optional().describe(`Connection profile of toDatabase (defaults to '${profiles.defaultProfile}')`),
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        from: diffSideOutput,
+        to: diffSideOutput,
+        identical: z.boolean(),
+        addedTables: z.array(z.object({ name: z.string(), kind: z.enum(["table", "view"]) })),
+        removedTables: z.array(z.object({ name: z.string(), kind: z.enum(["table", "view"]) })),
+        changedTables: z.array(z.object({
+          table: z.string(),
+          kind: z.enum(["table", "view"]),
+          addedColumns: z.array(snapshotColumnOutput),
+          removedColumns: z.array(snapshotColumnOutput),
+          typeChanges: z.array(z.object({ column: z.string(), from: z.string(), to: z.string() })),
+          nullabilityChanges: z.array(z.object({ column: z.string(), from: z.boolean(), to: z.boolean() })),
+          definitionChange: z.object({ from: z.string(), to: z.string() }).optional()
+        }))
+      })
+    },
+    audited("diff-schema", async ({ fromSnapshot, fromDatabase, fromProfile, toSnapshot, toDatabase, toProfile, format = "text" }, extra, audit) => {
+      const issues = [
+        ...(!fromSnapshot === !fromDatabase ? [{ field: "from", message: "Give exactly one of fromSnapshot or fromDatabase" }] : []),
+        ...(!toSnapshot === !toDatabase ? [{ field: "to", message: "Give exactly one of toSnapshot or toDatabase" }] : [])
+      ];
+      if (issues.length) {
         return {
-          content: [{
-            type: "text",
-            text: `✅ Sample data from table '${tableName}' in database '${database}':\n\n` +
-                  `Records (${records.length}):\n` +
-                  records.map((record: any, index: number) => 
-                    `${index + 1}. ${JSON.stringify(record, null, 2)}`
-                  ).join('\n\n')
-          }]
+          content: [{ type: "text", text: `❌ Invalid parameters for diff-schema:\n\n` + issues.map((issue) => `• ${issue.field}: ${issue.message}`).join('\n') }],
+          structuredContent: { error: "invalid-params", issues },
+          isError: true
+        };
+      }
+
+      const clientId = clientIdOf(extra);
+      let saved: { from?: SchemaSnapshot; to?: SchemaSnapshot };
+      try {
+        saved = {
+          from: fromSnapshot ? await snapshots.load(fromSnapshot) : undefined,
+          to: toSnapshot ? await snapshots.load(toSnapshot) : undefined
         };
-      } else {
+      } catch (error) {
+        if (!(error instanceof SnapshotError)) {
+          throw error;
+        }
         return {
-          content: [{
-            type: "text",
-            text: `❌ Failed to get sample data: ${response.data.message || 'Unknown error'}`
-          }],
+          content: [{ type: "text", text: `❌ ${error.message}\n\nUse 'list-snapshots' to see the saved snapshots.` }],
+          structuredContent: { error: "invalid-snapshot", message: error.message },
           isError: true
         };
       }
-    } catch (error: any) {
+
+      // Live sides run on their profile; snapshot sides name the profile they
+      // were taken on
+      const fromConn = connectionFor(fromProfile);
+      const toConn = connectionFor(toProfile);
+      const targets = [
+        { profile: saved.from ? saved.from.profile : fromConn.profile.name, queryName: "get-table-schema", database: saved.from?.database ?? fromDatabase! },
+        { profile: saved.to ? saved.to.profile : toConn.profile.name, queryName: "get-table-schema", database: saved.to?.database ?? toDatabase! }
+      ];
+      Object.assign(audit, { profile: targets[0].profile, database: targets[0].database });
+      const denied = enforcePolicy(extra, ...targets) ??
+        (fromDatabase ? checkProfileDatabase(fromConn, fromDatabase) : undefined) ??
+        (toDatabase ? checkProfileDatabase(toConn, toDatabase) : undefined);
+      if (denied) {
+        return denied;
+      }
+
+      try {
+        logger.debug("Diffing schema", { from: fromSnapshot ?? fromDatabase, to: toSnapshot ?? toDatabase });
+
+        const from = saved.from ? visibleSnapshot(clientId, saved.from) : await takeSnapshot(fromConn, clientId, fromDatabase!);
+        const to = saved.to ? visibleSnapshot(clientId, saved.to) : await takeSnapshot(toConn, clientId, toDatabase!);
+        const diff = diffSnapshots(from, to);
+        const rows = diffRows(diff);
+        audit.rowCount = rows.length;
+
+        const label = (snapshot: SchemaSnapshot, name?: string) => name
+          ? `${name} (${snapshot.profile ? `${snapshot.profile}/` : ''}${snapshot.database}, ${snapshot.takenAt})`
+          : `live database '${snapshot.database}' on profile '${snapshot.profile}'`;
+        const side = (snapshot: SchemaSnapshot, name?: string) => ({
+          ...(snapshot.profile && { profile: snapshot.profile }),
+          database: snapshot.database,
+          takenAt: snapshot.takenAt,
+          ...(name && { snapshot: name })
+        });
+        return renderToolResult(format, {
+          text: `${diff.identical ? '✅' : '⚠️'} ${formatDiffReport(diff, label(from, fromSnapshot), label(to, toSnapshot))}`,
+          title: `Schema diff: ${label(from, fromSnapshot)} → ${label(to, toSnapshot)}`,
+          rows,
+          columns: ["change", "table", "column", "from", "to"],
+          structured: {
+            from: side(from, fromSnapshot),
+            to: side(to, toSnapshot),
+            ...diff
+          }
+        });
+      } catch (error) {
+        return bridgeErrorResult(fromDatabase ? fromConn : toConn, "Failed to diff schemas", error, "get-table-schema",
+          { fromSnapshot, fromDatabase, fromProfile, toSnapshot, toDatabase, toProfile });
+      }
+    })
+  );
+
+  server.registerTool(
+    "search-schema" satisfies ToolName,
+    {
+      title: "Search Schema",
+      description: "Find tables, views and columns across databases by describing them in plain words, e.g. 'where is the employee termination date stored'. Names, column types, view definitions and table/column comments are matched by keyword, common abbreviation, prefix and near-miss spelling, and ranked hits come back as database.table.column with their types. Searches a local index that is refreshed incrementally from the catalog.",
+      inputSchema: {
+        query: z.string().min(1).max(200).describe("What to look for, in plain words"),
+        database: databaseParam(DATABASES).optional().describe("Only search this database (defaults to every database of the profile)"),
+        limit: limitParam(100).optional().describe("Maximum number of hits (defaults to 20)"),
+        refresh: z.boolean().optional().describe("Check the catalog for changes before searching, however recent the index is"),
+        profile: profileInput,
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        query: z.string(),
+        terms: z.array(z.string()).describe("Query words that were searched for, stemmed and without stop words"),
+        hits: z.array(z.object({
+          database: z.string(),
+          table: z.string(),
+          column: z.string().optional(),
+          path: z.string().describe("database.table.column, or database.table for tables and views"),
+          kind: z.enum(["table", "view", "column"]),
+          type: z.string().optional(),
+          nullable: z.boolean().optional(),
+          comment: z.string().optional(),
+          score: z.number().describe("From 0 to 1; higher is a better match"),
+          matches: z.array(z.object({
+            term: z.string(),
+            word: z.string(),
+            field: z.enum(["column", "column-comment", "table", "table-comment", "definition"]),
+            kind: z.enum(["exact", "abbreviation", "prefix", "fuzzy"])
+          }))
+        })),
+        count: z.number(),
+        databases: z.array(z.object({
+          database: z.string(),
+          checked: z.boolean().describe("Whether the catalog was checked for changes during this search"),
+          added: z.number(),
+          changed: z.number(),
+          removed: z.number(),
+          tables: z.number(),
+          refreshedAt: z.string()
+        })).describe("Index state of each database searched")
+      })
+    },
+    audited("search-schema", async ({ query, database, limit = 20, refresh = false, profile, format = "text" }, extra, audit) => {
+      const conn = connectionFor(profile);
+      const clientId = clientIdOf(extra);
+      Object.assign(audit, { profile: conn.profile.name, database });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, queryName: "get-table-schema", database }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      const databases = database ? [database] : conn.profile.databases.filter((name) => policy.allowsDatabase(clientId, name));
+      const refreshes: SchemaIndexRefresh[] = [];
+      const failures: string[] = [];
+      const indexed: IndexedDatabase[] = [];
+      let lastError: unknown;
+      for (const name of databases) {
+        try {
+          refreshes.push(await refreshSchemaIndex(conn, name, refresh));
+        } catch (error) {
+          // Fall back to the last good index of the database, if any
+          lastError = error;
+          failures.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn("Failed to refresh schema index", { database: name, error });
+        }
+        const entry = schemaIndex.get(conn.profile.name, name);
+        if (entry) {
+          indexed.push(entry);
+        }
+      }
+      if (indexed.length === 0 && lastError) {
+        return bridgeErrorResult(conn, "Failed to index the schema", lastError,
+          lastError instanceof BridgeError ? lastError.queryName : "run-select", { database: database ?? databases.join(",") });
+      }
+
+      const hits = searchSchema(indexed, query, { limit, visible: (db, table) => policy.allowsTable(clientId, db, table) });
+      const terms = queryTerms(query);
+      audit.rowCount = hits.length;
+
+      const checked = refreshes.filter((entry) => entry.checked);
+      const notes = [
+        checked.length ? `🔄 Checked ${checked.map((entry) => `'${entry.database}' (${entry.added} added, ${entry.changed} changed, ${entry.removed} removed)`).join(", ")} for schema changes.` : '',
+        failures.length ? `⚠️ Could not refresh the index of ${failures.join("; ")}. Searched the last indexed schema instead.` : ''
+      ].filter(Boolean).join("\n");
+
+      return renderToolResult(format, {
+        text: hits.length
+          ? `🔎 ${hits.length} schema ${hits.length === 1 ? 'match' : 'matches'} for "${query}" in ${indexed.map((entry) => entry.database).join(", ")}:\n\n` +
+            hits.map((hit) => `- ${hit.path}` +
+              (hit.kind === "column" ? ` ${hit.type}${hit.nullable ? '' : ' NOT NULL'}` : ` (${hit.kind})`) +
+              ` — ${hit.score} (matched ${hit.matches.map((match) => match.term === match.word ? match.word : `${match.term}→${match.word}`).join(", ")})` +
+              (hit.comment ? `\n  ${hit.comment}` : '')).join("\n")
+          : `🔎 No tables, views or columns match "${query}" in ${indexed.map((entry) => entry.database).join(", ") || "any database"}.`,
+        title: `Schema matches for "${query}"`,
+        rows: hits.map((hit) => ({ path: hit.path, kind: hit.kind, type: hit.type ?? null, nullable: hit.nullable ?? null, score: hit.score, comment: hit.comment ?? null })),
+        notes: notes ? `\n\n${notes}` : '',
+        structured: { query, terms, hits, count: hits.length, databases: refreshes }
+      });
+    })
+  );
+
+  server.registerTool(
+    "refresh-metadata" satisfies ToolName,
+    {
+      title: "Refresh Cached Metadata",
+      description: "Drop cached database lists, table lists, schemas and object types so the next lookup reloads them from Informix. Use after schema changes; without arguments the entries of every database you may use in the default profile are dropped.",
+      inputSchema: {
+        profile: profileParam(profileNames).optional().describe(`Connection profile whose entries to drop (defaults to '${profiles.defaultProfile}')`),
+        database: databaseParam(DATABASES).optional().describe("Only drop entries for this database"),
+        objectName: identifierParam("objectName").optional().describe("Only drop entries for this table, view or other object"),
+        queryName: z.enum(Object.keys(metadataCache.ttls) as [string, ...string[]]).optional().describe("Only drop entries for this query")
+      },
+      outputSchema: toolOutputShape({
+        dropped: z.number().describe("Number of cache entries dropped")
+      })
+    },
+    audited("refresh-metadata", async ({ profile, database, objectName, queryName }, extra, audit) => {
+      const conn = connectionFor(profile);
+      Object.assign(audit, { profile: conn.profile.name, database, tables: objectName ? [objectName] : undefined });
+      const denied = enforcePolicy(extra, { profile: conn.profile.name, database }) ?? checkProfileDatabase(conn, database);
+      if (denied) {
+        return denied;
+      }
+
+      // The cache is shared by every client: without a database, only drop the
+      // entries of the databases the caller may use
+      const scope = database ? { database } : { databases: conn.profile.databases.filter((name) => policy.allowsDatabase(clientIdOf(extra), name)) };
+      const dropped = metadataCache.invalidate({ profile: conn.profile.name, ...scope, object: objectName, queryName });
+      audit.rowCount = dropped;
+      logger.info("Dropped metadata cache entries", { dropped, profile: conn.profile.name, database, objectName, queryName });
       return {
         content: [{
           type: "text",
-          text: `❌ Error getting sample data: ${error.message}`
+          text: `✅ Dropped ${dropped} cached metadata ${dropped === 1 ? 'entry' : 'entries'}` +
+                ` matching ${JSON.stringify({ profile: conn.profile.name, database, objectName, queryName })}.\n\n` +
+                `The next lookup will be loaded from Informix.`
         }],
-        isError: true
+        structuredContent: { dropped }
       };
-    }
-  }
-);
+    })
+  );
 
-// Register a resource for server information
-server.registerResource(
-  "server-info",
-  "info://server",
-  {
-    title: "Server Information",
-    description: "Information about the Informix MCP Server",
-    mimeType: "application/json"
-  },
-  async (uri) => ({
-    contents: [{
-      uri: uri.href,
-      text: JSON.stringify({
-        name: "informix-mcp-server",
-        version: "1.0.0",
-        description: "Model Context Protocol server for Informix database access",
-        capabilities: {
-          tools: ["test-connection", "query-informix", "list-databases", "list-tables", "get-table-schema", "get-sample-data"],
-          resources: ["server-info", "query-reference", "database-status"]
-        },
-        configuration: {
-          phpApiUrl: PHP_API_URL,
-          apiKeyConfigured: !!API_KEY,
-          apiKeyLength: API_KEY ? API_KEY.length : 0
-        },
-        status: "running",
-        timestamp: new Date().toISOString()
-      }, null, 2)
-    }]
-  })
-);
+  server.registerTool(
+    "list-profiles" satisfies ToolName,
+    {
+      title: "List Connection Profiles",
+      description: "List the named connection profiles (Informix instances such as dev, UAT and prod) that tools can target with their 'profile' argument, with the databases each serves and whether it is read-only.",
+      inputSchema: {
+        format: formatParam()
+      },
+      outputSchema: toolOutputShape({
+        defaultProfile: z.string(),
+        profiles: z.array(z.object({
+          name: z.string(),
+          description: z.string().nullable(),
+          url: z.string(),
+          databases: z.array(z.string()),
+          readOnly: z.boolean(),
+          timeoutMs: z.number(),
+          default: z.boolean()
+        }))
+      })
+    },
+    audited("list-profiles", async ({ format = "text" }, extra, audit) => {
+      const clientId = clientIdOf(extra);
+      // API keys are never reported
+      const visible = profiles.profiles
+        .filter((profile) => policy.allowsProfile(clientId, profile.name))
+        .map((profile) => ({
+          name: profile.name,
+          description: profile.description ?? null,
+          url: profile.url,
+          databases: profile.databases.filter((database) => policy.allowsDatabase(clientId, database)),
+          readOnly: profile.readOnly,
+          timeoutMs: profile.timeoutMs,
+          default: profile.name === profiles.defaultProfile
+        }));
+      audit.rowCount = visible.length;
 
-// Register a resource for query reference and examples
-server.registerResource(
-  "query-reference",
-  "info://queries",
-  {
-    title: "Query Reference and Examples",
-    description: "Complete reference of all available database queries with examples and parameter descriptions",
-    mimeType: "application/json"
-  },
-  async (uri) => ({
-    contents: [{
-      uri: uri.href,
-      text: JSON.stringify({
-        title: "Informix Database Query Reference",
-        description: "Complete guide to all available database queries through the MCP server",
-        availableDatabases: ["eadmin", "payrolldb", "ppc", "auditdb"],
-        queries: {
-          "test-connection": {
-            description: "Test database connection and verify server is responding",
-            parameters: {},
-            example: { queryName: "test-connection", params: {} },
-            useCase: "Verify the MCP server can connect to the database"
-          },
-          "list-databases": {
-            description: "Get a list of all user databases in the Informix instance",
-            parameters: {},
-            example: { queryName: "list-databases", params: {} },
-            useCase: "Discover available databases before querying specific ones"
-          },
-          "get-database-count": {
-            description: "Get the count of user databases (excluding system databases)",
-            parameters: {},
-            example: { queryName: "get-database-count", params: {} },
-            useCase: "Quick overview of how many databases are available"
-          },
-          "list-tables": {
-            description: "Get a list of all tables in a specific database",
-            parameters: {
-              database: "string (optional, defaults to 'eadmin')"
-            },
-            example: { queryName: "list-tables", params: { database: "eadmin" } },
-            useCase: "Discover available tables before querying their schema or data"
+      return renderToolResult(format, {
+        text: `✅ ${visible.length} connection profile(s):\n\n` +
+              visible.map((profile) =>
+                `• ${profile.name}${profile.default ? ' (default)' : ''}${profile.readOnly ? ' [read-only]' : ''}: ${profile.url}` +
+                `${profile.description ? ` - ${profile.description}` : ''}\n  Databases: ${profile.databases.join(", ")}`
+              ).join('\n') +
+              `\n\nPass 'profile' to other tools to run them against a profile.`,
+        title: `${visible.length} connection profiles`,
+        rows: visible,
+        columns: ["name", "default", "readOnly", "url", "databases", "timeoutMs", "description"],
+        structured: { defaultProfile: profiles.defaultProfile, profiles: visible }
+      });
+    })
+  );
+
+  // Register a resource for server information
+  server.registerResource(
+    "server-info" satisfies ResourceName,
+    "info://server",
+    {
+      title: "Server Information",
+      description: "Information about the Informix MCP Server",
+      mimeType: "application/json"
+    },
+    async (uri, extra) => ({
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({
+          name: "informix-mcp-server",
+          version: "1.0.0",
+          description: "Model Context Protocol server for Informix database access",
+          capabilities: {
+            tools: OFFERED.tools,
+            resources: OFFERED.resources,
+            prompts: OFFERED.prompts,
+            queries: queryNames
           },
-          "get-table-schema": {
-            description: "Get detailed column information for a specific table",
-            parameters: {
-              tableName: "string (required)",
-              database: "string (optional, defaults to 'eadmin')"
-            },
-            example: { queryName: "get-table-schema", params: { tableName: "users", database: "eadmin" } },
-            useCase: "Understand table structure before writing queries or analyzing data"
+          queryCatalog: {
+            source: catalog.source,
+            count: queryNames.length
           },
-          "get-top-records": {
-            description: "Get sample records from a specific table",
-            parameters: {
-              tableName: "string (required)",
-              database: "string (optional, defaults to 'eadmin')",
-              limit: "number (optional, defaults to 10)"
-            },
-            example: { queryName: "get-top-records", params: { tableName: "users", database: "eadmin", limit: 5 } },
-            useCase: "Examine sample data to understand content and structure"
+          accessPolicy: policy.source,
+          redactionRules: redactor.source,
+          auditSinks: auditLog.sinks.map((sink) => sink.name),
+          metadataCache: {
+            file: metadataCache.file ?? null,
+            ttlSeconds: metadataCache.ttls,
+            ...metadataCache.stats()
           },
-          "get-object-type": {
-            description: "Get the type of a database object (table, view, synonym, etc.)",
-            parameters: {
-              objectName: "string (required)",
-              database: "string (optional, defaults to 'eadmin')"
-            },
-            example: { queryName: "get-object-type", params: { objectName: "users", database: "eadmin" } },
-            useCase: "Determine what type of object you're working with"
+          configuration: {
+            logging: { level: LOG_LEVEL, format: LOG_FORMAT },
+            metricsEndpoint: METRICS_PORT ? `http://${METRICS_HOST}:${METRICS_PORT}/metrics` : null,
+            profilesSource: profiles.source,
+            defaultProfile: profiles.defaultProfile,
+            // Only the profiles the client may use, as 'list-profiles' shows them
+            profiles: profiles.profiles.filter((profile) => policy.allowsProfile(clientIdOf(extra), profile.name)).map((profile) => ({
+              name: profile.name,
+              phpApiUrl: profile.url,
+              apiKeyConfigured: !!profile.apiKey
+            }))
           },
-          "get-view-schema": {
-            description: "Get the definition of a database view",
-            parameters: {
-              viewName: "string (required)",
-              database: "string (optional, defaults to 'eadmin')"
-            },
-            example: { queryName: "get-view-schema", params: { viewName: "user_summary", database: "eadmin" } },
-            useCase: "Understand how a view is constructed and what data it contains"
-          }
-        },
-        workflow: {
-          "1_discover": "Use 'list-databases' to see available databases",
-          "2_explore": "Use 'list-tables' to see tables in a specific database",
-          "3_understand": "Use 'get-table-schema' to understand table structure",
-          "4_sample": "Use 'get-top-records' to see sample data",
-          "5_analyze": "Use other queries based on your analysis needs"
-        },
-        tips: [
-          "Always start with 'list-databases' to discover available databases",
-          "Use 'list-tables' to explore what's available in each database",
-          "Check table schema before querying data to understand the structure",
-          "Sample data with 'get-top-records' to understand content patterns",
-          "Use 'get-object-type' to distinguish between tables, views, and other objects"
-        ]
-      }, null, 2)
-    }]
-  })
-);
+          status: "running",
+          timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    })
+  );
 
-// Register a resource for database status and health
-server.registerResource(
-  "database-status",
-  "info://status",
-  {
-    title: "Database Status and Health",
-    description: "Current status of database connections and server health",
-    mimeType: "application/json"
-  },
-  async (uri) => {
-    try {
-      // Test database connection
-      const response = await axios.post(PHP_API_URL, {
-        queryName: "test-connection",
-        params: {}
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-KEY': API_KEY
-        },
-        timeout: 10000
-      });
+  // Register a resource for query reference and examples
+  server.registerResource(
+    "query-reference" satisfies ResourceName,
+    "info://queries",
+    {
+      title: "Query Reference and Examples",
+      description: "Complete reference of all available database queries with examples and parameter descriptions",
+      mimeType: "application/json"
+    },
+    async (uri, extra) => ({
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({
+          title: "Informix Database Query Reference",
+          description: "Complete guide to all available database queries through the MCP server",
+          availableDatabases: DATABASES.filter((database) => policy.allowsDatabase(clientIdOf(extra), database)),
+          catalogSource: catalog.source,
+          queries: Object.fromEntries(catalog.queries.filter((query) => policy.allowsQuery(clientIdOf(extra), query.name)).map((query) => [query.name, {
+            description: query.description,
+            parameters: Object.fromEntries(
+              Object.entries(query.parameters).map(([name, spec]) => [name, describeParameter(spec)])
+            ),
+            example: { queryName: query.name, params: query.example ?? {} },
+            useCase: query.useCase,
+            readOnly: query.readOnly !== false
+          }])),
+          workflow: {
+            "1_discover": "Use 'list-databases' to see available databases",
+            "2_explore": "Use 'list-tables' to see tables in a specific database",
+            "3_understand": "Use 'get-table-schema' to understand table structure",
+            "4_sample": "Use 'get-top-records' to see sample data",
+            "5_analyze": "Use other queries based on your analysis needs"
+          },
+          tips: [
+            "Always start with 'list-databases' to discover available databases",
+            "Use 'list-tables' to explore what's available in each database",
+            "Check table schema before querying data to understand the structure",
+            "Sample data with 'get-top-records' to understand content patterns",
+            "Use 'get-object-type' to distinguish between tables, views, and other objects"
+          ]
+        }, null, 2)
+      }]
+    })
+  );
 
-      const isHealthy = response.data.status === 'success';
-      const dbInfo = isHealthy ? response.data.data.results[0] : null;
+  // Register a resource for database status and health, checked on every
+  // profile the client may use. The check is not retried, and fails fast while
+  // a profile's circuit breaker is open.
+  server.registerResource(
+    "database-status" satisfies ResourceName,
+    "info://status",
+    {
+      title: "Database Status and Health",
+      description: "Current status of the database connection of each profile, and server health",
+      mimeType: "application/json"
+    },
+    async (uri, extra) => {
+      const checked = profiles.profiles.filter((profile) => policy.allowsProfile(clientIdOf(extra), profile.name));
+      const results = await Promise.all(checked.map(async (profile) => {
+        const { bridge } = connectionFor(profile.name);
+        // A recent successful request shows the bridge is up without adding a probe
+        const recent = bridgeActivity.get(profile.name);
+        if (recent && !recent.error && Date.now() - recent.at <= STATUS_MAX_AGE_MS && bridge.health().circuit.state === "closed") {
+          return {
+            profile: profile.name,
+            phpApiUrl: profile.url,
+            connected: true,
+            checkedBy: "recent-request",
+            checkedAt: new Date(recent.at).toISOString(),
+            lastQuery: recent.queryName,
+            latencyMs: recent.durationMs,
+            bridge: bridge.health()
+          };
+        }
+        const started = Date.now();
+        try {
+          const response = await bridge.query("test-connection", {}, { timeoutMs: Math.min(profile.timeoutMs, 10000), retry: false });
+          const dbInfo = response.results[0];
+          return {
+            profile: profile.name,
+            phpApiUrl: profile.url,
+            connected: true,
+            checkedBy: "probe",
+            checkedAt: new Date(started).toISOString(),
+            currentTime: dbInfo.current_time || null,
+            testResult: dbInfo.test_result || null,
+            latencyMs: Date.now() - started,
+            bridge: bridge.health()
+          };
+        } catch (error: any) {
+          return {
+            profile: profile.name,
+            phpApiUrl: profile.url,
+            connected: false,
+            checkedBy: "probe",
+            checkedAt: new Date(started).toISOString(),
+            error: error.message,
+            errorClass: error instanceof BridgeError ? error.kind : "internal",
+            bridge: bridge.health()
+          };
+        }
+      }));
+      const connected = results.filter((result) => result.connected).length;
 
       return {
         contents: [{
           uri: uri.href,
           text: JSON.stringify({
-            status: isHealthy ? "healthy" : "unhealthy",
+            status: connected === results.length ? "healthy" : connected > 0 ? "degraded" : "unhealthy",
             timestamp: new Date().toISOString(),
-            database: {
-              connected: isHealthy,
-              currentTime: dbInfo?.current_time || null,
-              testResult: dbInfo?.test_result || null
-            },
+            defaultProfile: profiles.defaultProfile,
+            profiles: results,
             server: {
-              phpApiUrl: PHP_API_URL,
-              apiKeyConfigured: !!API_KEY,
+              profilesSource: profiles.source,
               version: "1.0.0"
             },
             lastChecked: new Date().toISOString()
           }, null, 2)
         }]
       };
-    } catch (error: any) {
+    }
+  );
+
+  // Register a resource for the server metrics, the same as GET /metrics
+  server.registerResource(
+    "metrics" satisfies ResourceName,
+    "info://metrics",
+    {
+      title: "Server Metrics",
+      description: "Tool calls, errors by class, bridge latency, in-flight requests and metadata cache hit rate since the server started",
+      mimeType: "application/json"
+    },
+    async (uri) => ({
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({
+          timestamp: new Date().toISOString(),
+          metricsEndpoint: METRICS_PORT ? `http://${METRICS_HOST}:${METRICS_PORT}/metrics` : null,
+          metrics: metrics.snapshot()
+        }, null, 2)
+      }]
+    })
+  );
+
+  // Register resources for the audit log, scoped to the calling client
+  const activityResult = (uri: URL, extra: { authInfo?: AuthInfo }, tool?: string) => ({
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify({
+        clientId: clientIdOf(extra),
+        tool: tool ?? null,
+        sinks: auditLog.sinks.map((sink) => sink.name),
+        entries: auditLog.recent({ clientId: clientIdOf(extra), tool, limit: 100 })
+      }, null, 2)
+    }]
+  });
+
+  server.registerResource(
+    "recent-activity" satisfies ResourceName,
+    "info://activity",
+    {
+      title: "Recent Activity",
+      description: "The last 100 tool calls made by this client, newest first, from the audit log",
+      mimeType: "application/json"
+    },
+    async (uri, extra) => activityResult(uri, extra)
+  );
+
+  server.registerResource(
+    "recent-activity-by-tool" satisfies ResourceName,
+    new ResourceTemplate("info://activity/{tool}", { list: undefined }),
+    {
+      title: "Recent Activity for a Tool",
+      description: "The last 100 calls this client made to one tool, e.g. info://activity/run-select",
+      mimeType: "application/json"
+    },
+    async (uri, { tool }, extra) => activityResult(uri, extra, String(tool))
+  );
+
+  // Files written by this client's 'export-table' jobs. CSV and NDJSON are
+  // returned as text, Parquet as a base64 blob.
+  const exportsOf = (caller: string) => exportJobs.list(caller).flatMap((job) => job.result ? [job.result] : []);
+  server.registerResource(
+    "export-file" satisfies ResourceName,
+    new ResourceTemplate("export://{file}", {
+      list: async () => ({
+        resources: exportsOf(clientId).map((result) => ({ uri: result.uri, name: result.file, mimeType: EXPORT_MIME_TYPES[result.format] }))
+      }),
+      complete: { file: (value) => completeFrom(exportsOf(clientId).map((result) => result.file), value) }
+    }),
+    {
+      title: "Export File",
+      description: `A file written by 'export-table', e.g. export://main-eadmin-employee-2026-01-31T09-00-00-000Z.csv. Files over ${EXPORT_RESOURCE_MAX_BYTES} bytes are not served; read them from the export directory instead.`
+    },
+    async (uri, variables, extra) => {
+      const file = resourceVariable(variables, "file", z.string().regex(EXPORT_FILE_NAME, "expected an export file name"));
+      const result = exportsOf(clientIdOf(extra)).find((entry) => entry.file === file);
+      if (!result) {
+        throw new Error(`Export file '${file}' not found; 'job-status' lists your finished exports`);
+      }
+      const path = join(EXPORT_DIR, file);
+      const { size } = await stat(path);
+      if (size > EXPORT_RESOURCE_MAX_BYTES) {
+        throw new Error(`Export file '${file}' is ${size} bytes, more than the ${EXPORT_RESOURCE_MAX_BYTES} served as a resource; read it from ${path}`);
+      }
+      const data = await readFile(path);
+      const mimeType = EXPORT_MIME_TYPES[result.format];
       return {
-        contents: [{
-          uri: uri.href,
-          text: JSON.stringify({
-            status: "unhealthy",
-            timestamp: new Date().toISOString(),
-            error: error.message,
-            database: {
-              connected: false
-            },
-            server: {
-              phpApiUrl: PHP_API_URL,
-              apiKeyConfigured: !!API_KEY,
-              version: "1.0.0"
-            }
-          }, null, 2)
-        }]
+        contents: [result.format === "parquet"
+          ? { uri: uri.href, mimeType, blob: data.toString("base64") }
+          : { uri: uri.href, mimeType, text: data.toString("utf8") }]
       };
     }
-  }
-);
+  );
+
+  // Browsable schema: informix://{database}/... resources that clients can list,
+  // complete and attach as context without a tool call. Listing and completion
+  // run for the session's client; reads check the policy on every call. They,
+  // and the prompts below, use the default profile.
+  const conn = connectionFor();
+  const allowedDatabases = () => policy.allowsProfile(clientId, conn.profile.name)
+    ? conn.profile.databases.filter((database) => policy.allowsDatabase(clientId, database))
+    : [];
+  const tablesOf = async (database: string) => {
+    const { value } = await cachedQuery(conn, "list-tables", { database }, () => conn.bridge.query("list-tables", { database }));
+    return value.results[0].tables.filter((table) => policy.allowsTable(clientId, database, table));
+  };
+  const viewsOf = (database: string) => listViews(conn, clientId, database);
+  const completeDatabase = (value: string) => completeFrom(allowedDatabases(), value);
+  const completeObject = (load: (database: string) => Promise<string[]>) =>
+    async (value: string, context?: { arguments?: Record<string, string> }) => {
+      const database = context?.arguments?.database;
+      if (!database || !allowedDatabases().includes(database)) {
+        return [];
+      }
+      return completeFrom(await load(database).catch(() => []), value);
+    };
+
+  // One resource per table or view of every allowed database, for the list
+  // callbacks; databases the bridge cannot list are skipped
+  const listObjects = async (queryName: string, load: (database: string) => Promise<string[]>, path: string, label: string) => {
+    if (!policy.allowsQuery(clientId, queryName)) {
+      return { resources: [] };
+    }
+    const resources = [];
+    for (const database of allowedDatabases()) {
+      const names = await load(database).catch((error) => {
+        logger.warn(`Cannot list ${label} resources`, { database, error });
+        return [] as string[];
+      });
+      resources.push(...names.map((name) => ({
+        uri: `informix://${database}/${path.replace("{name}", name)}`,
+        name: `${database}.${name} ${label}`,
+        mimeType: "application/json"
+      })));
+    }
+    return { resources };
+  };
+
+  const jsonContents = (uri: URL, value: unknown) => ({
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, null, 2) }]
+  });
+
+  server.registerResource(
+    "database-tables" satisfies ResourceName,
+    new ResourceTemplate("informix://{database}/tables", {
+      list: async () => ({
+        resources: policy.allowsQuery(clientId, "list-tables")
+          ? allowedDatabases().map((database) => ({ uri: `informix://${database}/tables`, name: `${database} tables`, mimeType: "application/json" }))
+          : []
+      }),
+      complete: { database: completeDatabase }
+    }),
+    {
+      title: "Database Tables",
+      description: "Tables of a database, e.g. informix://eadmin/tables",
+      mimeType: "application/json"
+    },
+    async (uri, variables, extra) => {
+      const database = resourceVariable(variables, "database", databaseParam(conn.profile.databases));
+      policy.check(clientIdOf(extra), { profile: conn.profile.name, queryName: "list-tables", database });
+      const { value: data } = await cachedQuery(conn, "list-tables", { database }, () => conn.bridge.query("list-tables", { database }));
+      const tables = data.results[0].tables.filter((table) => policy.allowsTable(clientIdOf(extra), database, table));
+      return jsonContents(uri, { database, tables, count: tables.length });
+    }
+  );
+
+  server.registerResource(
+    "table-schema" satisfies ResourceName,
+    new ResourceTemplate("informix://{database}/table/{table}/schema", {
+      list: () => listObjects("get-table-schema", tablesOf, "table/{name}/schema", "schema"),
+      complete: { database: completeDatabase, table: completeObject(tablesOf) }
+    }),
+    {
+      title: "Table Schema",
+      description: "Columns of a table with their declared types and nullability, e.g. informix://eadmin/table/employee/schema",
+      mimeType: "application/json"
+    },
+    async (uri, variables, extra) => {
+      const database = resourceVariable(variables, "database", databaseParam(conn.profile.databases));
+      const table = resourceVariable(variables, "table", identifierParam("table"));
+      policy.check(clientIdOf(extra), { profile: conn.profile.name, queryName: "get-table-schema", database, table });
+      return jsonContents(uri, await tableSchemaContext(conn, database, table));
+    }
+  );
+
+  server.registerResource(
+    "table-sample" satisfies ResourceName,
+    new ResourceTemplate("informix://{database}/table/{table}/sample", {
+      list: () => listObjects("get-top-records", tablesOf, "table/{name}/sample", "sample"),
+      complete: { database: completeDatabase, table: completeObject(tablesOf) }
+    }),
+    {
+      title: "Table Sample",
+      description: "The first 10 rows of a table, redacted like 'get-sample-data', e.g. informix://eadmin/table/employee/sample",
+      mimeType: "application/json"
+    },
+    async (uri, variables, extra) => {
+      const database = resourceVariable(variables, "database", databaseParam(conn.profile.databases));
+      const table = resourceVariable(variables, "table", identifierParam("table"));
+      policy.check(clientIdOf(extra), { profile: conn.profile.name, queryName: "get-top-records", database, table });
+      return jsonContents(uri, await tableSampleContext(conn, clientIdOf(extra), database, table, 10));
+    }
+  );
+
+  server.registerResource(
+    "view-definition" satisfies ResourceName,
+    new ResourceTemplate("informix://{database}/view/{view}/definition", {
+      list: () => listObjects("get-view-schema", viewsOf, "view/{name}/definition", "definition"),
+      complete: { database: completeDatabase, view: completeObject(viewsOf) }
+    }),
+    {
+      title: "View Definition",
+      description: "The SQL text of a view, e.g. informix://eadmin/view/active_employees/definition",
+      mimeType: "application/json"
+    },
+    async (uri, variables, extra) => {
+      const database = resourceVariable(variables, "database", databaseParam(conn.profile.databases));
+      const view = resourceVariable(variables, "view", identifierParam("view"));
+      policy.check(clientIdOf(extra), { profile: conn.profile.name, queryName: "get-view-schema", database, table: view });
+      const { value: data } = await cachedQuery(conn, "get-view-schema", { viewName: view, database },
+        () => conn.bridge.query("get-view-schema", { viewName: view, database }));
+      return jsonContents(uri, { database, view, definition: viewDefinition(data.results) });
+    }
+  );
+
+  // Prompts for common analysis workflows. Each gathers its context with the
+  // same lookups as the tools, so the policy, redaction and cache apply.
+  server.registerPrompt(
+    "explain-table" satisfies PromptName,
+    {
+      title: "Explain a Table",
+      description: "Explain what a table holds and how it joins to others, from its schema, keys, relationships and sample rows",
+      argsSchema: {
+        database: completable(databaseParam(conn.profile.databases), completeDatabase),
+        table: completable(identifierParam("table"), completeObject(tablesOf))
+      }
+    },
+    async ({ database, table }, extra) => {
+      const caller = clientIdOf(extra);
+      policy.check(caller, { profile: conn.profile.name, queryName: "get-table-schema", database, table });
+
+      const messages = [
+        promptText(
+          `Explain the table '${table}' in the Informix database '${database}' for a data analyst:\n\n` +
+          `1. What one row represents and what the table is used for\n` +
+          `2. The meaning of each column, including units, codes and flags where they can be inferred\n` +
+          `3. Its keys, and how it joins to related tables (give the join conditions)\n` +
+          `4. Anything notable in the sample rows, such as empty columns or suspicious values\n\n` +
+          `Base the explanation only on the context below and say when something is a guess.`
+        ),
+        promptResource(`informix://${database}/table/${table}/schema`, await tableSchemaContext(conn, database, table))
+      ];
+
+      if (policy.allowsQuery(caller, "get-table-constraints") && policy.allowsQuery(caller, "get-table-indexes")) {
+        const [{ value: constraints }, { value: indexes }] = await Promise.all([
+          cachedQuery(conn, "get-table-constraints", { tableName: table, database }, () => conn.bridge.query("get-table-constraints", { tableName: table, database })),
+          cachedQuery(conn, "get-table-indexes", { tableName: table, database }, () => conn.bridge.query("get-table-indexes", { tableName: table, database }))
+        ]);
+        messages.push(promptText(`Constraints and indexes of '${table}':\n\n` + JSON.stringify({
+          constraints: filterResultsByPolicy(caller, "get-table-constraints", database, constraints.results),
+          indexes: indexes.results
+        }, null, 2)));
+      }
+      if (policy.allowsQuery(caller, "get-foreign-keys")) {
+        const graph = await describeRelationships(conn, caller, database, table, 1);
+        messages.push(promptText(`Foreign keys to and from '${table}':\n\n` + (graph.relationships.length
+          ? graph.relationships.map((relationship) => `• ${relationship.constraint}: ${joinCondition(relationship)}`).join('\n')
+          : "None.")));
+      }
+      if (policy.allowsQuery(caller, "get-top-records")) {
+        messages.push(promptResource(`informix://${database}/table/${table}/sample`, await tableSampleContext(conn, caller, database, table, 5)));
+      }
+
+      return { description: `Explain table ${database}.${table}`, messages };
+    }
+  );
+
+  server.registerPrompt(
+    "draft-select" satisfies PromptName,
+    {
+      title: "Draft a SELECT",
+      description: "Draft an Informix SELECT that answers a question, from the schemas of the tables the question mentions and the joins between them",
+      argsSchema: {
+        question: z.string().describe("The question the query should answer, in plain language"),
+        database: completable(databaseParam(conn.profile.databases), completeDatabase)
+      }
+    },
+    async ({ question, database }, extra) => {
+      const caller = clientIdOf(extra);
+      policy.check(caller, { profile: conn.profile.name, queryName: "get-table-schema", database });
+
+      const { tables, relevant } = await relevantTables(conn, caller, database, question);
+      const messages = [promptText(
+        `Draft one Informix SELECT statement against the database '${database}' that answers:\n\n${question}\n\n` +
+        `Rules:\n` +
+        `• Use only the tables and columns in the context below\n` +
+        `• Use Informix syntax: 'SELECT FIRST n' and 'SKIP n' instead of LIMIT/OFFSET\n` +
+        `• Use ? placeholders for literal values and list the values separately, so the statement can be run with the 'run-select' tool (at most ${RUN_SELECT_MAX_ROWS} rows)\n` +
+        `• Explain which joins you used and why\n\n` +
+        `If the context cannot answer the question, say what is missing instead of guessing table or column names.`
+      )];
+
+      for (const table of relevant) {
+        messages.push(promptResource(`informix://${database}/table/${table}/schema`, await tableSchemaContext(conn, database, table)));
+      }
+      if (relevant.length > 0 && policy.allowsQuery(caller, "get-foreign-keys")) {
+        const joins = new Map<string, string>();
+        for (const table of relevant) {
+          const graph = await describeRelationships(conn, caller, database, table, 1);
+          graph.relationships
+            .filter((relationship) => relevant.includes(relationship.table) && relevant.includes(relationship.referencedTable))
+            .forEach((relationship) => joins.set(relationship.constraint, joinCondition(relationship)));
+        }
+        messages.push(promptText(`Foreign keys between these tables:\n\n` +
+          (joins.size ? [...joins].map(([constraint, join]) => `• ${constraint}: ${join}`).join('\n') : "None.")));
+      }
+      if (relevant.length === 0) {
+        messages.push(promptText(
+          `No table names matched the question. Tables in '${database}':\n\n${tables.join(", ")}\n\n` +
+          `Pick the likely tables and read their schema with 'get-table-schema' before drafting the query.`
+        ));
+      }
+
+      return { description: `Draft a SELECT against ${database}`, messages };
+    }
+  );
+
+  server.registerPrompt(
+    "investigate-audit-trail" satisfies PromptName,
+    {
+      title: "Investigate an Audit Trail",
+      description: `Trace the changes recorded for an entity (a person, account, document, ...) in the '${AUDIT_DATABASE}' database and summarise them in time order`,
+      argsSchema: {
+        entity: z.string().describe("The entity to investigate, e.g. 'employee 10452' or 'payroll run 2024-03'"),
+        table: identifierParam("table").optional().describe("Audit table to focus on; by default the tables whose names match the entity")
+      }
+    },
+    async ({ entity, table }, extra) => {
+      if (!conn.profile.databases.includes(AUDIT_DATABASE)) {
+        throw new Error(`The audit database '${AUDIT_DATABASE}' is not a database of profile '${conn.profile.name}'`);
+      }
+      const caller = clientIdOf(extra);
+      policy.check(caller, { profile: conn.profile.name, queryName: "get-table-schema", database: AUDIT_DATABASE, table });
+
+      const { tables, relevant } = table ? { tables: [table], relevant: [table] } : await relevantTables(conn, caller, AUDIT_DATABASE, entity);
+      const chosen = relevant.length > 0 ? relevant : tables.slice(0, MAX_PROMPT_TABLES);
+      const messages = [promptText(
+        `Investigate the audit trail for ${entity} in the Informix database '${AUDIT_DATABASE}':\n\n` +
+        `1. Find the columns in the audit tables below that identify ${entity} (ids, keys, names) and the columns that hold timestamps and users\n` +
+        `2. Fetch the matching audit rows with the 'run-select' tool (database '${AUDIT_DATABASE}', ? placeholders for values), ordered by time. Audit tables can be large: check the statement with 'explain-query' first and avoid sequential scans\n` +
+        `3. Summarise chronologically who changed what and when\n` +
+        `4. Flag anything unusual, such as changes outside working hours, bulk changes or deletions\n\n` +
+        `Cite the table and row behind each finding.` +
+        (tables.length > chosen.length ? `\n\nOther tables in '${AUDIT_DATABASE}': ${tables.filter((name) => !chosen.includes(name)).join(", ")}` : '')
+      )];
+      for (const name of chosen) {
+        messages.push(promptResource(`informix://${AUDIT_DATABASE}/table/${name}/schema`, await tableSchemaContext(conn, AUDIT_DATABASE, name)));
+      }
+
+      return { description: `Investigate the audit trail for ${entity}`, messages };
+    }
+  );
+
+  return server;
+}
 
 // Start the server
 async function main() {
   try {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("🚀 Informix MCP Server started successfully!");
-    console.error("📡 Server is listening for MCP protocol messages via stdio");
-    console.error("🔧 Available tools: test-connection, query-informix, list-databases, list-tables, get-table-schema, get-sample-data");
-    console.error("📄 Available resources: server-info, query-reference, database-status");
-    console.error("💡 Use 'query-reference' resource to discover all available queries and examples");
+    if (MCP_TRANSPORT === "http") {
+      await startHttpServer({
+        host: MCP_HTTP_HOST,
+        port: MCP_HTTP_PORT,
+        tokens: MCP_AUTH_TOKENS,
+        createServer,
+        idleTimeoutMs: MCP_SESSION_IDLE_SECONDS * 1000,
+        maxSessions: MCP_MAX_SESSIONS
+      });
+      logger.info("Informix MCP Server started", {
+        transport: "http",
+        url: `http://${MCP_HTTP_HOST}:${MCP_HTTP_PORT}/mcp`,
+        sseUrl: `http://${MCP_HTTP_HOST}:${MCP_HTTP_PORT}/sse`,
+        clients: MCP_AUTH_TOKENS.map((entry) => entry.clientId)
+      });
+    } else {
+      const transport = new StdioServerTransport();
+      await createServer().connect(transport);
+      logger.info("Informix MCP Server started", { transport: "stdio" });
+    }
+    if (METRICS_PORT) {
+      await startMetricsServer({ host: METRICS_HOST, port: METRICS_PORT, registry: metrics });
+      logger.info("Serving Prometheus metrics", { url: `http://${METRICS_HOST}:${METRICS_PORT}/metrics` });
+    }
+    logger.info("Available tools", { tools: OFFERED.tools });
+    if (mockBridge) {
+      logger.info("Mock mode: answering queries from the built-in demo data", { url: mockBridge.url });
+    }
+    logger.info("Connection profiles", { source: profiles.source, profiles: profileNames, defaultProfile: profiles.defaultProfile });
+    logger.info("Available resources", { resources: OFFERED.resources });
+    logger.info("Available prompts", { prompts: OFFERED.prompts });
+    logger.info("Query catalog", { source: catalog.source, queries: queryNames });
   } catch (error) {
-    console.error("❌ Failed to start MCP server:", error);
+    logger.error("Failed to start MCP server", { error });
     process.exit(1);
   }
 }
 
 // Handle graceful shutdown
 process.on('SIGINT', () => {
-  console.error("🛑 Received SIGINT, shutting down gracefully...");
+  logger.info("Received SIGINT, shutting down");
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
-  console.error("🛑 Received SIGTERM, shutting down gracefully...");
+  logger.info("Received SIGTERM, shutting down");
   process.exit(0);
 });
 
 // Start the server
 main().catch((error) => {
-  console.error("💥 Unhandled error:", error);
+  logger.error("Unhandled error", { error });
   process.exit(1);
 });
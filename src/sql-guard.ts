@@ -0,0 +1,452 @@
+// Read-only guard for ad-hoc SQL sent through the `run-select` tool.
+//
+// The statement is tokenised on the TypeScript side (comments removed, string
+// literals kept opaque) and must be a single SELECT without any clause that can
+// write, lock, create objects or invoke user-defined routines. Anything not
+// provably read-only is rejected before it reaches the PHP API bridge.
+
+export class SqlGuardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SqlGuardError";
+  }
+}
+
+type TokenType = "word" | "number" | "string" | "placeholder" | "symbol";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Keywords that never belong in a read-only SELECT. `INTO` covers INTO TEMP,
+// INTO SCRATCH, INTO EXTERNAL and host variables; `UPDATE` covers FOR UPDATE.
+const FORBIDDEN_KEYWORDS = new Set([
+  "insert", "update", "delete", "merge", "create", "drop", "alter", "rename",
+  "truncate", "grant", "revoke", "execute", "call", "procedure", "function",
+  "load", "unload", "lock", "unlock", "set", "database", "begin", "commit",
+  "rollback", "savepoint", "release", "into", "output", "system", "connect",
+  "disconnect", "prepare", "declare", "open", "fetch", "put", "flush", "close",
+  "free", "whenever", "start", "stop"
+]);
+
+// Set operators make a single top-level FIRST clause ambiguous in Informix.
+const SET_OPERATORS = new Set(["union", "intersect", "minus", "except"]);
+
+// Keywords that may legitimately be followed by an opening parenthesis.
+const PAREN_KEYWORDS = new Set([
+  "select", "from", "where", "and", "or", "not", "in", "exists", "any", "all",
+  "some", "on", "as", "join", "outer", "between", "when", "then", "else", "case",
+  "is", "like", "matches", "having", "by", "distinct", "unique", "cast", "interval"
+]);
+
+// Built-in functions that cannot modify data. Any other `name(` is treated as a
+// user-defined routine call and rejected.
+const BUILTIN_FUNCTIONS = new Set([
+  "count", "sum", "avg", "min", "max", "stdev", "variance", "range",
+  "abs", "mod", "pow", "power", "sqrt", "exp", "logn", "log10", "round", "trunc",
+  "ceil", "floor", "sign", "root",
+  "upper", "lower", "initcap", "trim", "ltrim", "rtrim", "length", "char_length",
+  "character_length", "octet_length", "substr", "substring", "replace", "lpad",
+  "rpad", "concat", "instr", "hex", "ascii",
+  "nvl", "decode", "coalesce", "nullif",
+  "date", "day", "month", "year", "weekday", "mdy", "extend", "to_char", "to_date",
+  "to_number", "add_months", "last_day", "months_between", "current", "dbinfo"
+]);
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Comments: -- line, /* block */ and Informix { block }
+    if (ch === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+    if (ch === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new SqlGuardError("Unterminated /* comment");
+      }
+      i = end + 2;
+      continue;
+    }
+    if (ch === "{") {
+      const end = sql.indexOf("}", i + 1);
+      if (end === -1) {
+        throw new SqlGuardError("Unterminated { comment");
+      }
+      i = end + 1;
+      continue;
+    }
+
+    // String literals; a doubled quote escapes itself
+    if (ch === "'" || ch === '"') {
+      let j = i + 1;
+      for (;;) {
+        if (j >= sql.length) {
+          throw new SqlGuardError("Unterminated string literal");
+        }
+        if (sql[j] === ch) {
+          if (sql[j + 1] === ch) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      tokens.push({ type: "string", text: sql.slice(i, j + 1), start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i));
+    if (word) {
+      tokens.push({ type: "word", text: word[0], start: i, end: i + word[0].length });
+      i += word[0].length;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(sql.slice(i));
+    if (number) {
+      tokens.push({ type: "number", text: number[0], start: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    tokens.push({ type: ch === "?" ? "placeholder" : "symbol", text: ch, start: i, end: i + 1 });
+    i++;
+  }
+
+  return tokens;
+}
+
+// Clause keywords that end a FROM list at the same nesting level.
+const FROM_TERMINATORS = new Set(["where", "group", "having", "order"]);
+
+// Built-in functions whose argument syntax uses the FROM keyword.
+const FROM_SYNTAX_FUNCTIONS = new Set(["substring", "trim"]);
+
+// Words that may follow a table reference without being its alias.
+const NOT_ALIASES = new Set([
+  ...FROM_TERMINATORS, "join", "inner", "left", "right", "full", "outer", "cross",
+  "natural", "on", "using", "samples", "for", "limit"
+]);
+
+export interface TableReference {
+  /** Database named by a `database:table` reference, if any. */
+  database?: string;
+  /** Table name, including an `owner.` prefix if one was given. */
+  table: string;
+  /** Alias given with or without AS, e.g. `e` in `FROM employee e`. */
+  alias?: string;
+}
+
+function readTableReference(tokens: Token[], index: number): { ref: TableReference; next: number } {
+  const expectWord = (at: number) => {
+    const token = tokens[at];
+    if (token?.type !== "word") {
+      throw new SqlGuardError(`Expected a table name in FROM clause (found '${token?.text ?? "end of statement"}')`);
+    }
+    return token.text;
+  };
+
+  // [database[@server]:][owner.]table
+  let i = index;
+  let name = expectWord(i++);
+  let database: string | undefined;
+  if (tokens[i]?.text === "@") {
+    expectWord(i + 1);
+    i += 2;
+  }
+  if (tokens[i]?.text === ":") {
+    database = name;
+    name = expectWord(i + 1);
+    i += 2;
+  }
+  if (tokens[i]?.text === ".") {
+    name = `${name}.${expectWord(i + 1)}`;
+    i += 2;
+  }
+
+  // [AS] alias
+  let alias: string | undefined;
+  const lower = tokens[i]?.type === "word" ? tokens[i].text.toLowerCase() : "";
+  if (lower === "as") {
+    if (tokens[i + 1]?.type !== "word") {
+      throw new SqlGuardError(`Expected an alias after AS (found '${tokens[i + 1]?.text ?? "end of statement"}')`);
+    }
+    alias = tokens[i + 1].text;
+    i += 2;
+  } else if (lower && !NOT_ALIASES.has(lower)) {
+    alias = tokens[i].text;
+    i++;
+  }
+  return { ref: { database, table: name, ...(alias && { alias }) }, next: i };
+}
+
+// Find every table named in a FROM list or JOIN, at any nesting level. FROM
+// directly inside SUBSTRING(x FROM 1) or TRIM(' ' FROM x) is not a table list.
+function collectTableReferences(tokens: Token[]): TableReference[] {
+  const tables: TableReference[] = [];
+  // Per nesting level: whether we are inside a FROM list, and whether the
+  // enclosing parenthesis belongs to SUBSTRING/TRIM.
+  const inFrom: boolean[] = [false];
+  const isCall: boolean[] = [false];
+  let depth = 0;
+  let expectTable = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const lower = token.text.toLowerCase();
+
+    if (expectTable) {
+      if (lower === "outer") {
+        continue;
+      }
+      if (token.text === "(") {
+        // A derived table is handled by its own FROM; OUTER (a, b) lists tables
+        depth++;
+        isCall[depth] = false;
+        inFrom[depth] = tokens[i + 1]?.text.toLowerCase() !== "select";
+        expectTable = inFrom[depth];
+        continue;
+      }
+      const { ref, next } = readTableReference(tokens, i);
+      tables.push(ref);
+      i = next - 1;
+      expectTable = false;
+      continue;
+    }
+
+    if (token.text === "(") {
+      const previous = tokens[i - 1];
+      depth++;
+      isCall[depth] = previous?.type === "word" && FROM_SYNTAX_FUNCTIONS.has(previous.text.toLowerCase());
+      inFrom[depth] = false;
+    } else if (token.text === ")") {
+      depth--;
+    } else if ((lower === "from" || lower === "join") && token.type === "word" && !isCall[depth]) {
+      inFrom[depth] = true;
+      expectTable = true;
+    } else if (token.text === "," && inFrom[depth]) {
+      expectTable = true;
+    } else if (token.type === "word" && FROM_TERMINATORS.has(lower)) {
+      inFrom[depth] = false;
+    }
+  }
+
+  return tables;
+}
+
+// SKIP, FIRST and LIMIT are keywords after SELECT only when a count follows;
+// otherwise they are column names, as in SELECT first FROM t
+function isCountClause(tokens: Token[], at: number, keywords: string[]): boolean {
+  return tokens[at]?.type === "word" && keywords.includes(tokens[at].text.toLowerCase()) &&
+    (tokens[at + 1]?.type === "number" || tokens[at + 1]?.type === "placeholder");
+}
+
+export interface SelectItem {
+  /** The item as written, e.g. `UPPER(ssn) AS code`. */
+  text: string;
+  /** A bare column reference (`ssn`, `e.ssn`) or `*`, named after the column it returns. */
+  direct: boolean;
+  /** Result column name given with AS, lower-cased. */
+  alias?: string;
+  /** Columns the item reads, without table qualifiers. Quoted identifiers count as columns. */
+  columns: string[];
+  /** Whether the item belongs to the outermost select list, whose columns are returned. */
+  outermost: boolean;
+}
+
+// Split the select list starting at `tokens[index]` (a SELECT) into its items.
+function readSelectItems(tokens: Token[], index: number): SelectItem[] {
+  let i = index + 1;
+  if (isCountClause(tokens, i, ["skip"])) {
+    i += 2;
+  }
+  if (isCountClause(tokens, i, ["first", "limit"])) {
+    i += 2;
+  }
+  if (tokens[i]?.type === "word" && ["distinct", "unique", "all"].includes(tokens[i].text.toLowerCase())) {
+    i++;
+  }
+
+  const items: Token[][] = [[]];
+  for (let depth = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.text === "(") depth++;
+    if (token.text === ")" && --depth < 0) break;
+    if (depth === 0 && token.type === "word" && token.text.toLowerCase() === "from") break;
+    if (depth === 0 && token.text === ",") {
+      items.push([]);
+      continue;
+    }
+    items[items.length - 1].push(token);
+  }
+
+  return items.filter((item) => item.length > 0).map((item) => {
+    const text = item.map((token) => token.text).join(" ").replace(/ ?([.(),]) ?/g, "$1");
+    const hasAlias = item.length >= 3 && item[item.length - 2].type === "word" && item[item.length - 2].text.toLowerCase() === "as";
+    const expression = hasAlias ? item.slice(0, -2) : item;
+    const columns = expression
+      .filter((token, at) => (token.type === "word" && expression[at + 1]?.text !== "(" && expression[at + 1]?.text !== ".") ||
+        (token.type === "string" && token.text.startsWith('"')))
+      .map((token) => token.type === "string" ? token.text.slice(1, -1).replace(/""/g, '"') : token.text);
+    // column, table.column, owner.table.column, * and table.*
+    const direct = item.every((token, at) => at % 2 === 1 ? token.text === "." : token.type === "word" || token.text === "*" || token.text.startsWith('"')) &&
+      item.length % 2 === 1 && item.length <= 5;
+    return {
+      text,
+      direct,
+      ...(hasAlias && { alias: item[item.length - 1].text.replace(/^"|"$/g, "").toLowerCase() }),
+      columns: [...new Set(columns)],
+      outermost: index === 0
+    };
+  });
+}
+
+function collectSelectItems(tokens: Token[]): SelectItem[] {
+  return tokens.flatMap((token, index) => token.type === "word" && token.text.toLowerCase() === "select" ? readSelectItems(tokens, index) : []);
+}
+
+export interface GuardedSelect {
+  /** Statement to send to the bridge, with comments removed and the row cap applied. */
+  sql: string;
+  /** Number of positional `?` parameters the statement expects. */
+  placeholderCount: number;
+  /** Effective FIRST n applied to the outermost SELECT. */
+  rowCap: number;
+  /** Every table the statement reads from. */
+  tables: TableReference[];
+  /** Items of every select list, the outermost first. */
+  selectItems: SelectItem[];
+}
+
+/**
+ * Validate that `sql` is a single read-only SELECT and cap it with an Informix
+ * `FIRST n` clause. Throws `SqlGuardError` describing the first violation found.
+ */
+export function guardSelect(sql: string, maxRows: number): GuardedSelect {
+  let tokens = tokenize(sql);
+
+  // Allow a single trailing semicolon; any other one means multiple statements
+  if (tokens.length && tokens[tokens.length - 1].text === ";") {
+    tokens = tokens.slice(0, -1);
+  }
+  if (tokens.length === 0) {
+    throw new SqlGuardError("Statement is empty");
+  }
+  if (tokens.some((token) => token.text === ";")) {
+    throw new SqlGuardError("Multiple statements are not allowed");
+  }
+  if (tokens[0].type !== "word" || tokens[0].text.toLowerCase() !== "select") {
+    throw new SqlGuardError(`Only SELECT statements are allowed (found '${tokens[0].text}')`);
+  }
+
+  let depth = 0;
+  let placeholderCount = 0;
+  tokens.forEach((token, index) => {
+    if (token.text === "(") depth++;
+    if (token.text === ")") depth--;
+    if (depth < 0) {
+      throw new SqlGuardError("Unbalanced parentheses");
+    }
+    if (token.type === "placeholder") {
+      placeholderCount++;
+    }
+    const next = tokens[index + 1];
+    // With DELIMIDENT set, "name"( calls a routine just like name(
+    if (token.type === "string" && token.text.startsWith('"') && next?.text === "(") {
+      throw new SqlGuardError(`Call to ${token.text} is not allowed; only built-in functions may be used`);
+    }
+    if (token.type !== "word") {
+      return;
+    }
+
+    const lower = token.text.toLowerCase();
+    if (FORBIDDEN_KEYWORDS.has(lower)) {
+      throw new SqlGuardError(`Keyword '${token.text.toUpperCase()}' is not allowed in a read-only query`);
+    }
+    if (SET_OPERATORS.has(lower)) {
+      throw new SqlGuardError(`${token.text.toUpperCase()} queries are not supported; run each SELECT separately`);
+    }
+
+    // owner.name( or db:name( calls a stored routine, even one named like a built-in
+    const previous = tokens[index - 1];
+    if (next?.text === "(" && (previous?.text === "." || previous?.text === ":")) {
+      throw new SqlGuardError(`Call to qualified routine '${token.text}' is not allowed; only built-in functions may be used`);
+    }
+    if (next?.text === "(" && !PAREN_KEYWORDS.has(lower) && !BUILTIN_FUNCTIONS.has(lower)) {
+      throw new SqlGuardError(`Call to '${token.text}' is not allowed; only built-in functions may be used`);
+    }
+  });
+  if (depth !== 0) {
+    throw new SqlGuardError("Unbalanced parentheses");
+  }
+
+  // Apply the row cap: Informix accepts SELECT [SKIP n] [FIRST n | LIMIT n] ...
+  let cursor = 1;
+  if (isCountClause(tokens, cursor, ["skip"])) {
+    if (tokens[cursor + 1]?.type !== "number") {
+      throw new SqlGuardError("SKIP must be followed by a literal row count");
+    }
+    cursor += 2;
+  }
+
+  let rowCap = maxRows;
+  let body: string;
+  const limitToken = tokens[cursor];
+  if (isCountClause(tokens, cursor, ["first", "limit"])) {
+    const count = tokens[cursor + 1];
+    if (count?.type !== "number" || !/^\d+$/.test(count.text)) {
+      throw new SqlGuardError(`${limitToken.text.toUpperCase()} must be followed by a literal row count`);
+    }
+    rowCap = Math.min(Number(count.text), maxRows);
+    body = rebuild(sql, tokens, limitToken.start, count.end, `FIRST ${rowCap}`);
+  } else {
+    const at = tokens[cursor - 1].end;
+    body = rebuild(sql, tokens, at, at, `FIRST ${rowCap}`);
+  }
+
+  return { sql: body, placeholderCount, rowCap, tables: collectTableReferences(tokens), selectItems: collectSelectItems(tokens) };
+}
+
+// Reassemble the statement from its tokens (dropping comments and the trailing
+// semicolon) while replacing the source range [from, to) with `replacement`.
+function rebuild(sql: string, tokens: Token[], from: number, to: number, replacement: string): string {
+  const parts: string[] = [];
+  let last = tokens[0].start;
+  let replaced = false;
+
+  for (const token of tokens) {
+    if (token.start >= from && token.end <= to) {
+      continue;
+    }
+    if (!replaced && token.start >= to) {
+      parts.push(" ", replacement, " ");
+      replaced = true;
+    } else if (parts.length && token.start > last) {
+      parts.push(" ");
+    }
+    parts.push(sql.slice(token.start, token.end));
+    last = token.end;
+  }
+  if (!replaced) {
+    parts.push(" ", replacement);
+  }
+
+  return parts.join("");
+}
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { DEFAULT_CACHE_TTLS, createMetadataCache, parseCacheTtls } from "../src/cache.js";
+
+// A load that finishes when `resolve` is called
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe("parseCacheTtls", () => {
+  it("overrides the default TTLs", () => {
+    assert.deepEqual(parseCacheTtls(" list-tables=60, profile-table=0 "), { ...DEFAULT_CACHE_TTLS, "list-tables": 60, "profile-table": 0 });
+    assert.throws(() => parseCacheTtls("run-select=60"), /Unknown cacheable query 'run-select'/);
+    assert.throws(() => parseCacheTtls("list-tables=soon"), /Invalid TTL for 'list-tables'/);
+  });
+});
+
+describe("createMetadataCache", () => {
+  it("serves repeated lookups from the cache", async () => {
+    const cache = await createMetadataCache();
+    let loads = 0;
+    const load = async () => ++loads;
+    const first = await cache.get({ queryName: "list-tables", profile: "default", database: "eadmin" }, load);
+    const second = await cache.get({ queryName: "list-tables", profile: "DEFAULT", database: "EADMIN" }, load);
+    assert.deepEqual([first.value, first.cache.hit, second.value, second.cache.hit], [1, false, 1, true]);
+    assert.deepEqual(cache.stats(), { entries: 1, hits: 1, misses: 1 });
+  });
+
+  it("does not cache queries with a TTL of 0", async () => {
+    const cache = await createMetadataCache({ ttls: { ...DEFAULT_CACHE_TTLS, "list-tables": 0 } });
+    let loads = 0;
+    await cache.get({ queryName: "list-tables" }, async () => ++loads);
+    await cache.get({ queryName: "list-tables" }, async () => ++loads);
+    assert.equal(cache.isCacheable("list-tables"), false);
+    assert.deepEqual([loads, cache.stats().entries], [2, 0]);
+  });
+
+  it("shares one load between concurrent misses", async () => {
+    const cache = await createMetadataCache();
+    const pending = deferred<string>();
+    let loads = 0;
+    const load = () => {
+      loads++;
+      return pending.promise;
+    };
+    const lookups = [cache.get({ queryName: "list-databases" }, load), cache.get({ queryName: "list-databases" }, load)];
+    pending.resolve("databases");
+    assert.deepEqual((await Promise.all(lookups)).map((result) => result.value), ["databases", "databases"]);
+    assert.equal(loads, 1);
+  });
+
+  it("drops the entries matching every field of the filter", async () => {
+    const cache = await createMetadataCache();
+    const keys = [
+      { queryName: "list-databases", profile: "default" },
+      { queryName: "list-tables", profile: "default", database: "eadmin" },
+      { queryName: "get-table-schema", profile: "default", database: "eadmin", object: "employee" },
+      { queryName: "get-table-schema", profile: "default", database: "payrolldb", object: "emp_salary" },
+      { queryName: "get-table-schema", profile: "uat", database: "eadmin", object: "employee" }
+    ];
+    const fill = () => Promise.all(keys.map((key) => cache.get(key, async () => key)));
+
+    await fill();
+    assert.equal(cache.invalidate({ profile: "default", object: "EMPLOYEE" }), 1);
+    await fill();
+    assert.equal(cache.invalidate({ profile: "default", databases: ["eadmin"] }), 3);
+    assert.equal(cache.stats().entries, 2);
+    await fill();
+    assert.equal(cache.invalidate(), 5);
+  });
+
+  it("does not cache a load that was running when the cache was invalidated", async () => {
+    const cache = await createMetadataCache();
+    const key = { queryName: "get-table-schema", profile: "default", database: "eadmin", object: "employee" };
+    const stale = deferred<string>();
+    const lookup = cache.get(key, () => stale.promise);
+    cache.invalidate({ profile: "default", database: "eadmin" });
+
+    // A lookup after the invalidation loads again instead of joining the stale load
+    const fresh = await cache.get(key, async () => "new schema");
+    stale.resolve("old schema");
+    assert.equal((await lookup).value, "old schema");
+    assert.equal(fresh.value, "new schema");
+    const cached = await cache.get(key, async () => "reloaded");
+    assert.deepEqual([cached.value, cached.cache.hit], ["new schema", true]);
+  });
+
+  it("keeps entries in its file across restarts", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "informix-mcp-cache-"));
+    try {
+      const file = join(dir, "cache.json");
+      const cache = await createMetadataCache({ file });
+      await cache.get({ queryName: "list-tables", profile: "default", database: "eadmin" }, async () => ["employee"]);
+      // Writes are asynchronous; wait for the file
+      for (let attempt = 0; attempt < 50 && !(await readFile(file, "utf8").catch(() => "")); attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      const restored = await createMetadataCache({ file });
+      const { value, cache: status } = await restored.get({ queryName: "list-tables", profile: "default", database: "eadmin" }, async () => []);
+      assert.deepEqual([value, status.hit], [["employee"], true]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
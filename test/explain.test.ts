@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseExplain, planWarnings } from "../src/explain.js";
+
+const PLAN = `
+QUERY: (OPTIMIZATION TIMESTAMP: 03-01-2024 09:12:44)
+------
+select first 100 a.emp_id, e.last_name from auditdb:employee_audit a, employee e
+where a.emp_id = e.id and a.action = 'UPDATE'
+and e.dept_id in (select id from department where name = 'Finance') order by a.changed_at
+
+Estimated Cost: 412580
+Estimated # of Rows Returned: 240000
+Temporary Files Required For: Order By
+
+  1) informix.a: SEQUENTIAL SCAN
+
+        Filters: informix.a.action = 'UPDATE' AND informix.a.changed_by IS NOT NULL
+            AND informix.a.changed_at > DATETIME (2024-01-01 00:00:00) YEAR TO SECOND
+
+  2) informix.e: INDEX PATH
+
+        Filters: informix.e.dept_id = ANY <subquery>
+
+    (1) Index Name: informix.ix_employee_pk
+        Index Keys: id   (Key-Only)  (Serial, fragments: ALL)
+        Lower Index Filter: informix.a.emp_id = informix.e.id
+
+    Subquery:
+    ---------
+    Estimated Cost: 2
+    Estimated # of Rows Returned: 1
+
+      1) informix.department: INDEX PATH
+
+        (1) Index Name: informix.ix_department_name
+            Index Keys: name   (Serial, fragments: ALL)
+            Lower Index Filter: informix.department.name = 'Finance'
+
+DYNAMIC HASH JOIN (Build Outer)
+    Dynamic Hash Filters: informix.a.emp_id = informix.e.id
+
+
+Query statistics:
+-----------------
+  Table map :
+`;
+
+describe("parseExplain", () => {
+  const plan = parseExplain(PLAN);
+
+  it("reads the estimates and temporary files", () => {
+    assert.deepEqual([plan.estimatedCost, plan.estimatedRows, plan.temporaryFiles], [412580, 240000, ["Order By"]]);
+  });
+
+  it("reads access paths, indexes and filters in join order", () => {
+    const [scan, index] = plan.steps;
+    assert.deepEqual(scan, {
+      step: 1,
+      table: "a",
+      owner: "informix",
+      accessPath: "SEQUENTIAL SCAN",
+      indexKeys: [],
+      keyOnly: false,
+      indexFilters: [],
+      filters: ["informix.a.action = 'UPDATE' AND informix.a.changed_by IS NOT NULL AND informix.a.changed_at > DATETIME (2024-01-01 00:00:00) YEAR TO SECOND"]
+    });
+    assert.deepEqual([index.accessPath, index.index, index.indexKeys, index.keyOnly], ["INDEX PATH", "ix_employee_pk", ["id"], true]);
+    assert.deepEqual(index.indexFilters, ["informix.a.emp_id = informix.e.id"]);
+    assert.deepEqual(index.join, { method: "DYNAMIC HASH JOIN (Build Outer)", filters: ["informix.a.emp_id = informix.e.id"] });
+  });
+
+  it("reads subqueries separately", () => {
+    assert.equal(plan.steps.length, 2);
+    assert.equal(plan.subqueries.length, 1);
+    const [subquery] = plan.subqueries;
+    assert.deepEqual([subquery.estimatedCost, subquery.steps[0].table, subquery.steps[0].index], [2, "department", "ix_department_name"]);
+  });
+
+  it("reads only the first query", () => {
+    const twice = parseExplain(`${PLAN}\nQUERY:\n------\nselect * from x\n\nEstimated Cost: 1\n`);
+    assert.equal(twice.estimatedCost, 412580);
+  });
+});
+
+describe("planWarnings", () => {
+  const plan = parseExplain(PLAN);
+  const tables: Record<string, { name: string; rows?: number }> = {
+    a: { name: "auditdb:employee_audit", rows: 2400000 },
+    e: { name: "employee", rows: 5000 },
+    department: { name: "department" }
+  };
+  const tableOf = (name: string) => tables[name];
+
+  it("warns about sequential scans of large tables and large sorts", () => {
+    const warnings = planWarnings(plan, { tableOf, largeTableRows: 100000 });
+    assert.equal(warnings.length, 2);
+    assert.match(warnings[0], /^Sequential scan on large table 'auditdb:employee_audit' \(2400000 rows\); an index on the filtered columns may help/);
+    assert.equal(warnings[1], "About 240000 rows are sorted in temporary files for Order By");
+  });
+
+  it("warns about costs above the maximum and temporary indexes", () => {
+    const autoindex = parseExplain("Estimated Cost: 90\nEstimated # of Rows Returned: 3\n\n  1) informix.t: AUTOINDEX PATH\n");
+    assert.deepEqual(planWarnings(autoindex, { tableOf, largeTableRows: 100000, maxCost: 50 }), [
+      "Estimated cost 90 is above the configured maximum of 50; 'run-select' refuses this statement",
+      "Informix builds a temporary index on 't' for every run; a permanent index on its join columns avoids this"
+    ]);
+  });
+
+  it("says nothing about small or unknown tables", () => {
+    assert.deepEqual(planWarnings(plan, { tableOf: () => undefined, largeTableRows: 1000000 }), []);
+  });
+});
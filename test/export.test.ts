@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { asyncBufferFromFile, parquetReadObjects } from "hyparquet";
+import { ExportError, createExportFile, parquetType } from "../src/export.js";
+
+const columns = [
+  { name: "id", type: "SERIAL" },
+  { name: "note", type: "VARCHAR(40)" },
+  { name: "amount", type: "DECIMAL(8,2)" }
+];
+
+const rows = [
+  { id: 1, note: "plain", amount: "10.50" },
+  { id: 2, note: "with, comma and \"quotes\"", amount: null, extra: "ignored" }
+];
+
+describe("parquetType", () => {
+  it("maps declarations to Parquet types", () => {
+    assert.equal(parquetType("INTEGER"), "INT64");
+    assert.equal(parquetType("SERIAL8"), "INT64");
+    assert.equal(parquetType("MONEY(16,2)"), "DOUBLE");
+    assert.equal(parquetType("BOOLEAN"), "BOOLEAN");
+    assert.equal(parquetType("DATETIME YEAR TO SECOND"), "STRING");
+    assert.equal(parquetType("INTERVAL DAY TO SECOND"), "STRING");
+  });
+});
+
+describe("createExportFile", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "informix-mcp-export-"));
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it("writes CSV with one header row", async () => {
+    const file = await createExportFile(join(dir, "a.csv"), "csv", columns);
+    await file.write(rows.slice(0, 1));
+    await file.write(rows.slice(1));
+    assert.ok((await file.finish()) > 0);
+    assert.equal(await readFile(join(dir, "a.csv"), "utf8"), 'id,note,amount\n1,plain,10.50\n2,"with, comma and ""quotes""",\n');
+  });
+
+  it("writes one JSON object per line", async () => {
+    const file = await createExportFile(join(dir, "a.ndjson"), "ndjson", columns);
+    await file.write(rows);
+    await file.finish();
+    const lines = (await readFile(join(dir, "a.ndjson"), "utf8")).trim().split("\n");
+    assert.deepEqual(JSON.parse(lines[1]), { id: 2, note: "with, comma and \"quotes\"", amount: null });
+  });
+
+  it("writes typed Parquet columns, redacted ones as strings", async () => {
+    const file = await createExportFile(join(dir, "a.parquet"), "parquet", [...columns.slice(0, 2), { ...columns[2], redacted: true }]);
+    await file.write([{ id: "7", note: null, amount: "0-10000" }]);
+    await file.finish();
+    const read = await parquetReadObjects({ file: await asyncBufferFromFile(join(dir, "a.parquet")) });
+    assert.deepEqual(read, [{ id: 7n, note: null, amount: "0-10000" }]);
+  });
+
+  it("rejects values that do not fit the column type", async () => {
+    const file = await createExportFile(join(dir, "b.parquet"), "parquet", columns);
+    await file.write([{ id: 1, note: "x", amount: "n/a" }]);
+    await assert.rejects(file.finish(), ExportError);
+    await file.abort();
+  });
+
+  it("deletes the partial file on abort", async () => {
+    const file = await createExportFile(join(dir, "c.csv"), "csv", columns);
+    await file.write(rows);
+    await file.abort();
+    assert.deepEqual((await readdir(dir)).filter((name) => name.startsWith("b.") || name.startsWith("c.")), []);
+  });
+});
@@ -0,0 +1,81 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { MockBridge, startMockBridge } from "../src/mock-bridge.js";
+
+// Runs the real server as a child process over stdio, against a mock bridge in
+// this process, and talks to it through the MCP client. Tests can change the
+// mock's replies between calls with `mock.override()`.
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+
+export interface TestServer {
+  client: Client;
+  mock: MockBridge;
+  /** Scratch directory for snapshots, exports and other files the server writes. */
+  dir: string;
+  /** Call a tool; protocol errors throw, tool errors come back with `isError`. */
+  call(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  /** Read a resource and parse its JSON text. */
+  read(uri: string): Promise<any>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the server with the given extra environment. Retries are off and the
+ * circuit breaker threshold is high so that error tests stay fast and
+ * independent of each other.
+ */
+export async function startTestServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const mock = await startMockBridge({ apiKey: "test-api-key" });
+  const dir = await mkdtemp(join(tmpdir(), "informix-mcp-test-"));
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", "tsx", "src/server.ts"],
+    cwd: ROOT,
+    env: {
+      ...getDefaultEnvironment(),
+      PHP_API_URL: mock.url,
+      INFORMIX_API_KEY: mock.apiKey,
+      BRIDGE_RETRIES: "0",
+      BRIDGE_BREAKER_THRESHOLD: "1000",
+      SCHEMA_SNAPSHOT_DIR: join(dir, "snapshots"),
+      EXPORT_DIR: join(dir, "exports"),
+      ...env
+    },
+    stderr: "ignore"
+  });
+  const client = new Client({ name: "informix-mcp-tests", version: "1.0.0" });
+  try {
+    await client.connect(transport);
+  } catch (error) {
+    await mock.close();
+    throw error;
+  }
+
+  return {
+    client,
+    mock,
+    dir,
+    call: async (name, args = {}) => await client.callTool({ name, arguments: args }) as CallToolResult,
+    async read(uri) {
+      const { contents } = await client.readResource({ uri });
+      return JSON.parse(String(contents[0].text));
+    },
+    async close() {
+      await client.close();
+      await mock.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+/** Text of the first content block of a tool result. */
+export function textOf(result: CallToolResult): string {
+  const [first] = result.content;
+  return first?.type === "text" ? first.text : "";
+}
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeColumnType, decodeQualifier } from "../src/informix-types.js";
+
+// coltype/collength pairs as they appear in syscolumns for known declarations
+const declarations: Array<[number, number, string]> = [
+  [0, 10, "CHAR(10)"],
+  [15, 40, "NCHAR(40)"],
+  [13, 255, "VARCHAR(255)"],
+  [13, 2815, "VARCHAR(255,10)"],
+  [16, 100, "NVARCHAR(100)"],
+  [5, 3074, "DECIMAL(12,2)"],
+  [5, 4351, "DECIMAL(16)"],
+  [8, 4098, "MONEY(16,2)"],
+  [1, 2, "SMALLINT"],
+  [2, 4, "INTEGER"],
+  [3, 8, "FLOAT"],
+  [4, 4, "SMALLFLOAT"],
+  [7, 4, "DATE"],
+  [17, 10, "INT8"],
+  [52, 8, "BIGINT"],
+  [53, 8, "BIGSERIAL"],
+  [11, 56, "BYTE"],
+  [12, 56, "TEXT"],
+  [43, 2048, "LVARCHAR(2048)"],
+  [45, 1, "BOOLEAN"],
+  [10, 3594, "DATETIME YEAR TO SECOND"],
+  [10, 4365, "DATETIME YEAR TO FRACTION(3)"],
+  [10, 1128, "DATETIME HOUR TO MINUTE"],
+  [10, 2052, "DATETIME YEAR TO DAY"],
+  [14, 1538, "INTERVAL YEAR TO MONTH"],
+  [14, 2122, "INTERVAL DAY TO SECOND"],
+  [14, 2890, "INTERVAL DAY(5) TO SECOND"],
+  [14, 2406, "INTERVAL HOUR(9) TO HOUR"]
+];
+
+describe("decodeColumnType", () => {
+  for (const [coltype, collength, expected] of declarations) {
+    it(`decodes coltype ${coltype}, collength ${collength} as ${expected}`, () => {
+      assert.equal(decodeColumnType(coltype, collength).declaration, expected);
+    });
+  }
+
+  it("reads the NOT NULL flag", () => {
+    assert.deepEqual(decodeColumnType(256, 10), { declaration: "CHAR(10)", baseType: "CHAR", notNull: true, length: 10 });
+    assert.equal(decodeColumnType(0, 10).notNull, false);
+    assert.deepEqual(decodeColumnType(262, 4), { declaration: "SERIAL", baseType: "SERIAL", notNull: true });
+    assert.equal(decodeColumnType(266, 3594).declaration, "DATETIME YEAR TO SECOND");
+  });
+
+  it("splits VARCHAR lengths", () => {
+    const decoded = decodeColumnType(269, 2815);
+    assert.equal(decoded.length, 255);
+    assert.equal(decoded.minLength, 10);
+    assert.equal(decoded.notNull, true);
+  });
+
+  it("splits DECIMAL precision and scale", () => {
+    assert.deepEqual(decodeColumnType(5, 3074), { declaration: "DECIMAL(12,2)", baseType: "DECIMAL", notNull: false, precision: 12, scale: 2 });
+    assert.equal(decodeColumnType(5, 4351).scale, undefined);
+  });
+
+  it("names built-in opaque types by extended id", () => {
+    assert.equal(decodeColumnType(41, 1, { id: 5 }).declaration, "BOOLEAN");
+    assert.equal(decodeColumnType(41, 72, { id: 10 }).declaration, "BLOB");
+    assert.equal(decodeColumnType(41, 72, { id: 11 }).declaration, "CLOB");
+    assert.equal(decodeColumnType(40, 2048, { id: 1 }).declaration, "LVARCHAR(2048)");
+  });
+
+  it("uses the extended type name for user-defined types", () => {
+    assert.equal(decodeColumnType(2053, 3074, { id: 23, name: "dollars" }).declaration, "DOLLARS");
+    assert.equal(decodeColumnType(4118, 40, { id: 24, name: "address_t" }).declaration, "ADDRESS_T");
+    assert.equal(decodeColumnType(41, 16, { id: 30, name: "point" }).declaration, "POINT");
+  });
+
+  it("decodes IDSSECURITYLABEL", () => {
+    assert.equal(decodeColumnType(2061, 130).declaration, "IDSSECURITYLABEL");
+    assert.equal(decodeColumnType(2317, 130).notNull, true);
+  });
+
+  it("reports unknown type codes", () => {
+    assert.equal(decodeColumnType(99, 4).declaration, "UNKNOWN(99)");
+  });
+});
+
+describe("decodeQualifier", () => {
+  it("omits INTERVAL precision only when it is the default", () => {
+    assert.equal(decodeQualifier(1538, true), "YEAR TO MONTH");
+    assert.equal(decodeQualifier(2050, true), "YEAR(6) TO MONTH");
+    assert.equal(decodeQualifier(1094, true), "DAY TO HOUR");
+  });
+
+  it("ignores precision for DATETIME", () => {
+    assert.equal(decodeQualifier(3594), "YEAR TO SECOND");
+  });
+
+  it("decodes FRACTION fields", () => {
+    assert.equal(decodeQualifier(1967), "SECOND TO FRACTION(5)");
+    assert.equal(decodeQualifier(973), "FRACTION TO FRACTION(3)");
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { JobContext, createJobManager } from "../src/jobs.js";
+import { QueueFullError } from "../src/resilience.js";
+
+const options = { maxRunning: 1, maxQueued: 1, maxFinished: 2, classify: (error: unknown) => error instanceof TypeError ? "type" : "internal" };
+
+// A task that runs until released, so tests control when jobs finish
+function gate() {
+  let release!: () => void;
+  const opened = new Promise<void>((resolve) => release = resolve);
+  return { release, task: async (context: JobContext) => {
+    await opened;
+    if (context.signal.aborted) {
+      throw new Error("stopped");
+    }
+    return "done";
+  } };
+}
+
+describe("job manager", () => {
+  it("runs jobs one at a time and reports progress to waiters", async () => {
+    const jobs = createJobManager<string>(options);
+    const first = gate();
+    const a = jobs.start("export-table", "alice", async (context) => {
+      context.progress({ rows: 5, total: 10 });
+      return first.task(context);
+    });
+    const b = jobs.start("export-table", "alice", async () => "second");
+    assert.deepEqual([a.state, b.state], ["running", "queued"]);
+
+    const updates: number[] = [];
+    const waiting = jobs.wait(b.id, (job) => updates.push(job.progress.rows));
+    first.release();
+    assert.equal((await waiting)?.result, "second");
+    assert.deepEqual([a.state, a.result, a.progress], ["completed", "done", { rows: 5, total: 10 }]);
+    assert.deepEqual(updates, [0]);
+  });
+
+  it("cancels queued and running jobs", async () => {
+    const jobs = createJobManager<string>(options);
+    const running = gate();
+    const a = jobs.start("export-table", "alice", running.task);
+    let started = false;
+    const b = jobs.start("export-table", "alice", async () => {
+      started = true;
+      return "never";
+    });
+
+    assert.equal(jobs.cancel(b.id)?.state, "cancelled");
+    assert.equal(jobs.cancel(a.id)?.state, "running");
+    running.release();
+    assert.equal((await jobs.wait(a.id))?.state, "cancelled");
+    assert.equal(started, false);
+  });
+
+  it("records the error class of failed jobs", async () => {
+    const jobs = createJobManager<string>(options);
+    const job = jobs.start("export-table", "alice", async () => {
+      throw new TypeError("bad value");
+    });
+    await jobs.wait(job.id);
+    assert.deepEqual([job.state, job.failure], ["failed", { error: "type", message: "bad value" }]);
+  });
+
+  it("rejects jobs when the queue is full", async () => {
+    const jobs = createJobManager<string>(options);
+    const running = gate();
+    jobs.start("export-table", "alice", running.task);
+    jobs.start("export-table", "alice", running.task);
+    assert.throws(() => jobs.start("export-table", "alice", running.task), QueueFullError);
+    running.release();
+  });
+
+  it("lists a client's jobs and forgets the oldest finished ones", async () => {
+    const jobs = createJobManager<string>(options);
+    const ids = [];
+    for (const client of ["alice", "bob", "alice"]) {
+      const job = jobs.start("export-table", client, async () => client);
+      ids.push(job.id);
+      await jobs.wait(job.id);
+    }
+    assert.equal(jobs.get(ids[0]), undefined);
+    assert.deepEqual(jobs.list("alice").map((job) => job.id), [ids[2]]);
+    assert.deepEqual(jobs.list("bob").map((job) => job.id), [ids[1]]);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { configureLogger, logger, withLogContext } from "../src/logger.js";
+
+describe("logger", () => {
+  const lines: string[] = [];
+  const write = (line: string) => {
+    lines.push(line);
+  };
+
+  afterEach(() => {
+    lines.length = 0;
+    configureLogger({ level: "info", format: "text", write });
+  });
+
+  it("writes JSON records with the context fields and drops lower levels", async () => {
+    configureLogger({ level: "info", format: "json", write });
+    await withLogContext({ requestId: "r-1", tool: "list-tables" }, async () => {
+      await Promise.resolve();
+      logger.debug("Listing tables", { database: "ppc" });
+      logger.child({ profile: "default" }).warn("Bridge request failed", { error: new Error("timed out"), skipped: undefined });
+    });
+
+    assert.equal(lines.length, 1);
+    const { timestamp, ...record } = JSON.parse(lines[0]);
+    assert.ok(!Number.isNaN(Date.parse(timestamp)));
+    assert.deepEqual(record, {
+      level: "warn",
+      message: "Bridge request failed",
+      requestId: "r-1",
+      tool: "list-tables",
+      profile: "default",
+      error: "timed out"
+    });
+  });
+
+  it("writes text records as key=value pairs", () => {
+    configureLogger({ level: "debug", format: "text", write });
+    logger.debug("Running SELECT", { database: "eadmin", sql: "SELECT 1", rows: 2, tables: ["a"] });
+    assert.match(lines[0], /^\S+Z DEBUG Running SELECT database=eadmin sql="SELECT 1" rows=2 tables=\["a"\]$/);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { describe, it } from "node:test";
+import { METRICS_CONTENT_TYPE, createMetricsRegistry, startMetricsServer } from "../src/metrics.js";
+
+describe("createMetricsRegistry", () => {
+  it("renders counters and gauges in the Prometheus text format", () => {
+    const registry = createMetricsRegistry();
+    const calls = registry.counter("calls_total", "Calls by tool");
+    const inFlight = registry.gauge("in_flight", "Calls in flight");
+    calls.inc({ tool: "list-tables", outcome: "success" });
+    calls.inc({ outcome: "success", tool: "list-tables" }, 2);
+    calls.inc({ tool: 'say "hi"\n' });
+    inFlight.inc();
+    inFlight.inc();
+    inFlight.dec();
+
+    assert.equal(registry.render(), [
+      "# HELP calls_total Calls by tool",
+      "# TYPE calls_total counter",
+      'calls_total{tool="list-tables",outcome="success"} 3',
+      'calls_total{tool="say \\"hi\\"\\n"} 1',
+      "# HELP in_flight Calls in flight",
+      "# TYPE in_flight gauge",
+      "in_flight 1",
+      ""
+    ].join("\n"));
+  });
+
+  it("renders histograms with cumulative buckets", () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram("latency_seconds", "Latency", [0.1, 1]);
+    for (const value of [0.05, 0.5, 0.5, 3]) {
+      latency.observe({ query: "q" }, value);
+    }
+
+    assert.deepEqual(registry.snapshot()[0].samples, [{ labels: { query: "q" }, count: 4, sum: 4.05, buckets: [{ le: "0.1", count: 1 }, { le: "1", count: 3 }, { le: "+Inf", count: 4 }] }]);
+    assert.match(registry.render(), /latency_seconds_bucket\{query="q",le="0\.1"\} 1\nlatency_seconds_bucket\{query="q",le="1"\} 3\nlatency_seconds_bucket\{query="q",le="\+Inf"\} 4\nlatency_seconds_sum\{query="q"\} 4\.05\nlatency_seconds_count\{query="q"\} 4\n/);
+  });
+
+  it("reads collected metrics when rendered and rejects duplicate names", () => {
+    const registry = createMetricsRegistry();
+    let hits = 1;
+    registry.collect("hits_total", "Cache hits", "counter", () => [{ labels: {}, value: hits }]);
+    hits = 5;
+    assert.match(registry.render(), /^hits_total 5$/m);
+    assert.throws(() => registry.gauge("hits_total", "Again"), /already registered/);
+  });
+});
+
+describe("startMetricsServer", () => {
+  it("serves GET /metrics and nothing else", async () => {
+    const registry = createMetricsRegistry();
+    registry.counter("up_total", "Up").inc();
+    const server = await startMetricsServer({ host: "127.0.0.1", port: 0, registry });
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const response = await fetch(`${base}/metrics`);
+      assert.equal(response.headers.get("content-type"), METRICS_CONTENT_TYPE);
+      assert.match(await response.text(), /^up_total 1$/m);
+      assert.equal((await fetch(`${base}/other`)).status, 404);
+      assert.equal((await fetch(`${base}/metrics`, { method: "POST" })).status, 405);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { BridgeError, createBridgeClient } from "../src/bridge.js";
+import { MockBridge, startMockBridge } from "../src/mock-bridge.js";
+
+// The bridge client against the mock bridge: every fixture must pass the
+// client's result schemas, and each kind of failure must map to its error kind
+
+const fastRetry = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+describe("mock bridge", () => {
+  let mock: MockBridge;
+  const client = () => createBridgeClient({ url: mock.url, apiKey: mock.apiKey, retry: fastRetry });
+
+  before(async () => {
+    mock = await startMockBridge({ apiKey: "secret" });
+  });
+
+  after(() => mock.close());
+
+  beforeEach(() => mock.reset());
+
+  const rejectsWith = (promise: Promise<unknown>, kind: string) =>
+    assert.rejects(promise, (error: unknown) => error instanceof BridgeError && error.kind === kind);
+
+  it("answers every typed query with results the client accepts", async () => {
+    const bridge = client();
+    const table = { tableName: "employee", database: "eadmin" };
+    await bridge.query("test-connection", {});
+    await bridge.query("get-database-count", {});
+    await bridge.query("get-table-constraints", table);
+    await bridge.query("get-table-indexes", table);
+    await bridge.query("get-foreign-keys", table);
+    await bridge.query("get-top-records", { ...table, limit: 2, offset: 1 });
+    await bridge.query("explain-select", { sql: "SELECT * FROM employee", params: [], database: "eadmin" });
+
+    const { results: [databases] } = await bridge.query("list-databases", {});
+    assert.deepEqual(databases.databases.map((database) => database.name), ["eadmin", "payrolldb", "ppc", "auditdb"]);
+
+    for (const { name } of databases.databases) {
+      const { results: [tables] } = await bridge.query("list-tables", { database: name });
+      for (const tableName of tables.tables) {
+        const { results: [schema] } = await bridge.query("get-table-schema", { tableName, database: name });
+        assert.ok(schema.columns.length > 0, `${name}.${tableName} has columns`);
+      }
+    }
+  });
+
+  it("serves view definitions in sysviews pieces", async () => {
+    const bridge = client();
+    const type = await bridge.query("get-object-type", { objectName: "v_active_employees", database: "eadmin" });
+    assert.equal(type.results[0].object_type, "VIEW");
+    const view = await bridge.query("get-view-schema", { viewName: "v_active_employees", database: "eadmin" });
+    assert.ok(view.results.length > 1);
+    assert.ok(view.results.every((row) => String(row.viewtext).length <= 64));
+  });
+
+  it("answers SELECTs on a table, honouring FIRST", async () => {
+    const { results } = await client().query("run-select", { sql: "SELECT FIRST 2 * FROM payrolldb:emp_salary", params: [] });
+    assert.equal(results.length, 2);
+    assert.equal(results[0].run_id, 1);
+  });
+
+  it("records requests", async () => {
+    await client().query("list-tables", { database: "ppc" });
+    assert.deepEqual(mock.requests, [{ queryName: "list-tables", params: { database: "ppc" } }]);
+  });
+
+  it("reports unknown tables and queries as failed queries", async () => {
+    await rejectsWith(client().query("get-table-schema", { tableName: "nosuch", database: "eadmin" }), "query-failed");
+    await rejectsWith(client().queryAny("no-such-query", {}), "query-failed");
+  });
+
+  it("rejects a wrong API key", async () => {
+    const bridge = createBridgeClient({ url: mock.url, apiKey: "wrong", retry: fastRetry });
+    await rejectsWith(bridge.query("test-connection", {}), "auth");
+  });
+
+  it("maps overridden HTTP statuses to error kinds", async () => {
+    for (const [httpStatus, kind] of [[400, "bad-request"], [403, "forbidden"], [418, "http"], [503, "server"]] as const) {
+      mock.override("test-connection", { httpStatus, body: { status: "error", message: "nope" } });
+      await rejectsWith(client().query("test-connection", {}), kind);
+    }
+  });
+
+  it("reports malformed payloads", async () => {
+    mock.override("list-databases", { raw: "<html>Fatal error</html>" });
+    await rejectsWith(client().query("list-databases", {}), "malformed-response");
+    mock.override("list-databases", { results: [{ database_count: 1 }] });
+    await rejectsWith(client().query("list-databases", {}), "malformed-response");
+  });
+
+  it("retries server errors and then succeeds", async () => {
+    let calls = 0;
+    mock.override("test-connection", () => ++calls < 3 ? { httpStatus: 502 } : { results: [{ test_result: 1 }] });
+    const { results } = await client().query("test-connection", {});
+    assert.equal(results[0].test_result, 1);
+    assert.equal(mock.requests.length, 3);
+  });
+
+  it("opens the circuit after repeated failures", async () => {
+    const bridge = createBridgeClient({
+      url: mock.url,
+      apiKey: mock.apiKey,
+      retry: { ...fastRetry, retries: 0 },
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 }
+    });
+    mock.override("test-connection", { httpStatus: 500 });
+    await rejectsWith(bridge.query("test-connection", {}), "server");
+    await rejectsWith(bridge.query("test-connection", {}), "server");
+    await rejectsWith(bridge.query("test-connection", {}), "circuit-open");
+    assert.equal(mock.requests.length, 2);
+    assert.equal(bridge.health().circuit.state, "open");
+  });
+
+  it("leaves the circuit half-open when the trial request is rejected", async () => {
+    const bridge = createBridgeClient({
+      url: mock.url,
+      apiKey: mock.apiKey,
+      retry: { ...fastRetry, retries: 0 },
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 50 }
+    });
+    mock.override("test-connection", { httpStatus: 500 });
+    await rejectsWith(bridge.query("test-connection", {}), "server");
+    await rejectsWith(bridge.query("test-connection", {}), "server");
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    mock.override("test-connection", { httpStatus: 400, body: { status: "error", message: "bad" } });
+    await rejectsWith(bridge.query("test-connection", {}), "bad-request");
+    assert.deepEqual([bridge.health().circuit.state, bridge.health().circuit.consecutiveFailures], ["half-open", 2]);
+    mock.override("test-connection", { results: [{ test_result: 1 }] });
+    await bridge.query("test-connection", {});
+    assert.equal(bridge.health().circuit.state, "closed");
+  });
+
+  it("times out slow replies", async () => {
+    mock.override("test-connection", { results: [{ test_result: 1 }], delayMs: 200 });
+    const bridge = createBridgeClient({ url: mock.url, apiKey: mock.apiKey, timeoutMs: 50, retry: { ...fastRetry, retries: 0 } });
+    await rejectsWith(bridge.query("test-connection", {}), "timeout");
+  });
+});
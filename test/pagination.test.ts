@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+import { CursorError, PageCursor, createCursorCodec, fitToBudget } from "../src/pagination.js";
+
+const cursor: PageCursor = { kind: "sample-data", profile: "default", database: "eadmin", table: "employee", clientId: "alice", offset: 20, pageSize: 10 };
+
+describe("createCursorCodec", () => {
+  const codec = createCursorCodec();
+
+  const rejects = (token: string, clientId: string, message: RegExp) =>
+    assert.throws(() => codec.decode(token, clientId), (error: unknown) => error instanceof CursorError && message.test(error.message));
+
+  it("decodes the cursors it issued", () => {
+    assert.deepEqual(codec.decode(codec.encode(cursor), "alice"), cursor);
+  });
+
+  it("rejects edited, truncated and foreign cursors", () => {
+    const token = codec.encode(cursor);
+    const [payload, signature] = token.split(".");
+    const edited = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), offset: 0 })).toString("base64url");
+    rejects(`${edited}.${signature}`, "alice", /Invalid cursor/);
+    rejects(payload, "alice", /Invalid cursor/);
+    rejects(`${payload}.${signature.slice(1)}`, "alice", /Invalid cursor/);
+    rejects("", "alice", /Invalid cursor/);
+    // Another process signs with another key, as after a restart
+    rejects(createCursorCodec().encode(cursor), "alice", /Invalid cursor/);
+  });
+
+  it("only accepts a cursor from the client it was issued to", () => {
+    rejects(codec.encode(cursor), "bob", /issued to a different client/);
+  });
+
+  it("expires cursors after an hour", () => {
+    const now = Date.now();
+    const token = codec.encode(cursor);
+    const clock = mock.method(Date, "now", () => now + 60 * 60 * 1000 + 1);
+    try {
+      rejects(token, "alice", /Cursor has expired/);
+    } finally {
+      clock.mock.restore();
+    }
+  });
+});
+
+describe("fitToBudget", () => {
+  it("keeps the leading rows that fit, and always the first", () => {
+    const rows = [{ text: "a".repeat(10) }, { text: "b".repeat(10) }, { text: "c".repeat(10) }];
+    assert.deepEqual(fitToBudget(rows, 50), { rows: rows.slice(0, 2), truncated: true });
+    assert.deepEqual(fitToBudget(rows, 1), { rows: rows.slice(0, 1), truncated: true });
+    assert.deepEqual(fitToBudget(rows, 1000), { rows, truncated: false });
+  });
+});
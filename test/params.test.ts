@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CatalogQuery } from "../src/catalog.js";
+import { buildParamsSchema, describeParamIssues, identifierParam, limitParam } from "../src/params.js";
+
+const query: CatalogQuery = {
+  name: "get-top-records",
+  description: "Sample rows",
+  parameters: {
+    tableName: { type: "string", required: true, format: "identifier" },
+    database: { type: "string", required: false, default: "eadmin", format: "database" },
+    limit: { type: "integer", required: false, minimum: 1, maximum: 100 },
+    order: { type: "string", required: false, enum: ["asc", "desc"], maxLength: 4 },
+    withNulls: { type: "boolean", required: false }
+  }
+};
+
+const schema = buildParamsSchema(query, { databases: ["eadmin", "ppc"] });
+
+// The issues a params object fails with
+const issues = (params: unknown) => {
+  const result = schema.safeParse(params);
+  assert.equal(result.success, false, JSON.stringify(params));
+  return describeParamIssues(result.error!);
+};
+
+describe("buildParamsSchema", () => {
+  it("accepts valid parameters and fills in defaults", () => {
+    assert.deepEqual(schema.parse({ tableName: "informix.employee", limit: 5, order: "desc", withNulls: true }),
+      { tableName: "informix.employee", database: "eadmin", limit: 5, order: "desc", withNulls: true });
+  });
+
+  it("names each invalid parameter", () => {
+    assert.deepEqual(issues({ tableName: "employee; drop table x" }), [
+      { field: "params.tableName", message: "tableName must be a valid Informix identifier (letters, digits, '_' or '$', optionally prefixed with 'owner.')" }
+    ]);
+    assert.deepEqual(issues({ tableName: "employee", database: "payrolldb" }), [{ field: "params.database", message: "Database must be one of: eadmin, ppc" }]);
+    assert.deepEqual(issues({ tableName: "employee", limit: 500 }), [{ field: "params.limit", message: "limit must be at most 100" }]);
+    assert.deepEqual(issues({ tableName: "employee", limit: 1.5 }), [{ field: "params.limit", message: "limit must be an integer" }]);
+    assert.deepEqual(issues({ tableName: "employee", order: "up" }), [{ field: "params.order", message: "order must be one of: asc, desc" }]);
+  });
+
+  it("rejects missing and unknown parameters", () => {
+    assert.deepEqual(issues({ table: "employee" }).map((issue) => issue.field), ["params.tableName", "params.table"]);
+    assert.equal(issues({ tableName: "employee", extra: 1 })[0].message, "Unknown parameter");
+  });
+});
+
+describe("identifierParam", () => {
+  it("accepts Informix identifiers, optionally owner-qualified", () => {
+    for (const name of ["employee", "_tmp$1", "informix.systables", "a".repeat(128)]) {
+      assert.equal(identifierParam("name").safeParse(name).success, true, name);
+    }
+    for (const name of ["1table", "a.b.c", "emp-name", "a".repeat(129), ""]) {
+      assert.equal(identifierParam("name").safeParse(name).success, false, name);
+    }
+  });
+});
+
+describe("limitParam", () => {
+  it("accepts whole numbers from 1 to the maximum", () => {
+    assert.deepEqual([0, 1, 1000, 1001, 2.5].map((limit) => limitParam().safeParse(limit).success), [false, true, true, false, false]);
+    assert.equal(limitParam(10).safeParse(11).error?.issues[0].message, "Limit must be at most 10");
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PolicyError, createAccessPolicy } from "../src/policy.js";
+
+const policy = createAccessPolicy("test", {
+  profiles: { allow: ["dev", "uat"], deny: [] },
+  databases: { allow: ["eadmin", "pay*"], deny: ["payroll_archive"] },
+  tables: { deny: ["payrolldb:emp_salary", "*_audit"] },
+  queries: { deny: ["run-select"] }
+}, {
+  // Client rule sets replace the default ones they name
+  auditor: { queries: { deny: [] }, tables: { allow: ["*_audit"], deny: [] } }
+});
+
+describe("createAccessPolicy", () => {
+  it("allows names matching allow and no deny pattern", () => {
+    assert.deepEqual(["dev", "prod"].map((profile) => policy.allowsProfile("alice", profile)), [true, false]);
+    assert.deepEqual(["EADMIN", "payrolldb", "payroll_archive", "ppc"].map((database) => policy.allowsDatabase("alice", database)), [true, true, false, false]);
+    assert.equal(policy.allowsQuery("alice", "run-select"), false);
+  });
+
+  it("matches qualified and bare table patterns, within allowed databases", () => {
+    assert.equal(policy.allowsTable("alice", "payrolldb", "emp_salary"), false);
+    assert.equal(policy.allowsTable("alice", "eadmin", "emp_salary"), true);
+    assert.equal(policy.allowsTable("alice", "eadmin", "employee_audit"), false);
+    assert.equal(policy.allowsTable("alice", "ppc", "project"), false);
+  });
+
+  it("applies a client's own rules over the defaults", () => {
+    assert.equal(policy.allowsQuery("auditor", "run-select"), true);
+    assert.deepEqual(["employee_audit", "employee"].map((table) => policy.allowsTable("auditor", "eadmin", table)), [true, false]);
+    assert.equal(policy.allowsProfile("auditor", "prod"), false);
+  });
+
+  it("names the first denied part of a target", () => {
+    assert.doesNotThrow(() => policy.check("alice", { profile: "dev", queryName: "list-tables", database: "eadmin", table: "employee" }));
+    assert.throws(() => policy.check("alice", { database: "payrolldb", table: "emp_salary" }),
+      (error: unknown) => error instanceof PolicyError && error.message === "Table 'payrolldb:emp_salary' is not allowed for client 'alice'");
+    assert.throws(() => policy.check("alice", { profile: "prod", database: "ppc" }), /Profile 'prod' is not allowed/);
+  });
+
+  it("allows everything without rules", () => {
+    const open = createAccessPolicy("allow-all");
+    assert.ok(open.allowsProfile("anyone", "prod") && open.allowsTable("anyone", "payrolldb", "emp_salary") && open.allowsQuery("anyone", "run-select"));
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { loadProfiles } from "../src/profiles.js";
+
+const databases = ["eadmin", "ppc"];
+
+describe("loadProfiles", () => {
+  let dir: string;
+
+  // Write a profiles file and load it
+  const load = async (text: string, env: NodeJS.ProcessEnv = {}, name = "profiles.yaml") => {
+    const file = join(dir, name);
+    await writeFile(file, text);
+    return loadProfiles({ file, databases, env });
+  };
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "informix-mcp-profiles-"));
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it("builds a default profile from the environment settings", async () => {
+    const set = await loadProfiles({ url: "http://bridge/api.php", apiKey: "secret", databases });
+    assert.equal(set.source, "environment");
+    assert.deepEqual(set.get(), { name: "default", url: "http://bridge/api.php", apiKey: "secret", timeoutMs: 30000, databases, readOnly: false });
+    await assert.rejects(loadProfiles({ url: "http://bridge/api.php", databases }), /INFORMIX_API_KEY/);
+    await assert.rejects(loadProfiles({ apiKey: "secret", databases }), /PHP_API_URL/);
+  });
+
+  it("resolves API keys, defaults and the default profile from a file", async () => {
+    const set = await load([
+      "default: prod",
+      "profiles:",
+      "  dev:",
+      "    url: http://dev/api.php",
+      "    apiKey: dev-key",
+      "  prod:",
+      "    url: http://prod/api.php",
+      "    apiKeyEnv: PROD_KEY",
+      "    databases: [eadmin]",
+      "    readOnly: true",
+      "    timeoutMs: 5000"
+    ].join("\n"), { PROD_KEY: "prod-key" });
+    assert.equal(set.defaultProfile, "prod");
+    assert.deepEqual(set.get(), { name: "prod", url: "http://prod/api.php", apiKey: "prod-key", timeoutMs: 5000, databases: ["eadmin"], readOnly: true, description: undefined });
+    assert.deepEqual([set.get("dev").apiKey, set.get("dev").databases, set.get("dev").timeoutMs], ["dev-key", databases, 30000]);
+    assert.throws(() => set.get("uat"), /Unknown profile 'uat' \(expected one of: dev, prod\)/);
+  });
+
+  it("defaults to the first profile of a JSON file", async () => {
+    const set = await load(JSON.stringify({ profiles: { uat: { url: "http://uat/api.php", apiKey: "k" }, dev: { url: "http://dev/api.php", apiKey: "k" } } }), {}, "profiles.json");
+    assert.equal(set.defaultProfile, "uat");
+  });
+
+  it("rejects invalid profiles", async () => {
+    const profile = (fields: string) => `profiles:\n  dev:\n    url: http://dev/api.php\n${fields}`;
+    await assert.rejects(load(profile("    apiKeyEnv: MISSING_KEY")), /environment variable MISSING_KEY is not set/);
+    await assert.rejects(load(profile("    apiKey: k\n    apiKeyEnv: DEV_KEY")), /give exactly one of apiKey or apiKeyEnv/);
+    await assert.rejects(load(profile("    apiKey: k").replace("dev:", "Dev:")), /Invalid profile name 'Dev'/);
+    await assert.rejects(load(`default: prod\n${profile("    apiKey: k")}`), /Default profile 'prod' is not defined/);
+    await assert.rejects(load("profiles: {}"), /at least one profile is required/);
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { columnKind, histogram, isProfilable, profileColumn, sampleStatement } from "../src/profiling.js";
+
+const options = { topK: 3, bins: 4 };
+
+describe("columnKind", () => {
+  it("classifies declarations", () => {
+    assert.equal(columnKind("DECIMAL(12,2)"), "numeric");
+    assert.equal(columnKind("serial"), "numeric");
+    assert.equal(columnKind("VARCHAR(40)"), "text");
+    assert.equal(columnKind("DATETIME YEAR TO SECOND"), "temporal");
+    assert.equal(columnKind("BOOLEAN"), "boolean");
+    assert.equal(columnKind("ST_POINT"), "other");
+  });
+
+  it("skips large objects", () => {
+    assert.equal(isProfilable("BYTE"), false);
+    assert.equal(isProfilable("TEXT"), false);
+    assert.equal(isProfilable("LVARCHAR(2048)"), true);
+  });
+});
+
+describe("sampleStatement", () => {
+  it("reads a sample or the first rows", () => {
+    assert.equal(sampleStatement("orders", ["id", "total"], 500, "samples-of"), "SELECT id, total FROM orders SAMPLES OF 500 ROWS");
+    assert.equal(sampleStatement("orders", ["id"], 500, "first-rows"), "SELECT FIRST 500 id FROM orders");
+    assert.equal(sampleStatement("orders", ["id"], 500, "none"), "SELECT FIRST 500 id FROM orders");
+  });
+});
+
+describe("histogram", () => {
+  it("splits the range into equal bins", () => {
+    assert.deepEqual(histogram([0, 1, 2, 5, 8], 4), [
+      { from: 0, to: 2, count: 2 },
+      { from: 2, to: 4, count: 1 },
+      { from: 4, to: 6, count: 1 },
+      { from: 6, to: 8, count: 1 }
+    ]);
+  });
+
+  it("uses whole-number bins for lengths", () => {
+    assert.deepEqual(histogram([3, 4, 4, 7], 10, true), [
+      { from: 3, to: 4, count: 1 },
+      { from: 4, to: 5, count: 2 },
+      { from: 5, to: 6, count: 0 },
+      { from: 6, to: 7, count: 0 },
+      { from: 7, to: 7, count: 1 }
+    ]);
+  });
+
+  it("puts equal values in one bin", () => {
+    assert.deepEqual(histogram([2, 2], 4), [{ from: 2, to: 2, count: 2 }]);
+    assert.deepEqual(histogram([], 4), []);
+  });
+});
+
+describe("profileColumn", () => {
+  it("profiles numeric values sent as strings", () => {
+    const profile = profileColumn("total", "DECIMAL(8,2)", ["10.50", "2.00", null, "10.50", "7"], options);
+    assert.equal(profile.kind, "numeric");
+    assert.deepEqual([profile.nullCount, profile.nullRatio, profile.distinctCount], [1, 0.2, 3]);
+    assert.deepEqual([profile.min, profile.max], [2, 10.5]);
+    assert.deepEqual(profile.topValues[0], { value: 10.5, count: 2 });
+    assert.equal(profile.histogram?.reduce((sum, bin) => sum + bin.count, 0), 4);
+    assert.equal(profile.lengths, undefined);
+  });
+
+  it("trims CHAR padding and measures lengths", () => {
+    const profile = profileColumn("code", "CHAR(6)", ["ab    ", "abcd  ", "ab    "], options);
+    assert.deepEqual(profile.topValues, [{ value: "ab", count: 2 }, { value: "abcd", count: 1 }]);
+    assert.deepEqual([profile.min, profile.max], ["ab", "abcd"]);
+    assert.deepEqual(profile.lengths && [profile.lengths.min, profile.lengths.max, profile.lengths.mean], [2, 4, 2.67]);
+  });
+
+  it("handles columns that are all NULL", () => {
+    const profile = profileColumn("note", "VARCHAR(10)", [null, null], options);
+    assert.deepEqual([profile.nullRatio, profile.distinctCount, profile.min, profile.max], [1, 0, null, null]);
+    assert.deepEqual(profile.topValues, []);
+    assert.equal(profile.lengths, undefined);
+  });
+
+  it("keeps the topK most frequent values", () => {
+    const profile = profileColumn("status", "VARCHAR(10)", ["a", "b", "b", "c", "c", "c", "d"], options);
+    assert.deepEqual(profile.topValues.map((entry) => entry.value), ["c", "b", "a"]);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createRedactor, describeRedactions } from "../src/redaction.js";
+
+const redactor = createRedactor("test", [
+  { strategy: "drop", columns: ["*password*"] },
+  { strategy: "mask", columns: ["*ssn*"], keepLast: 4, maskChar: "*" },
+  { strategy: "hash", columns: ["email"] },
+  { strategy: "bucket", columns: ["salary"], tables: ["payrolldb:*"], bucketSize: 10000 }
+], "pepper");
+
+describe("createRedactor", () => {
+  it("applies each strategy and reports the redacted columns", () => {
+    const { rows, redacted } = redactor.redactRows([
+      { id: 1, user_password: "secret", SSN: "123-45-6789", email: "ann@example.com", salary: 54321 },
+      { id: 2, user_password: null, SSN: null, email: "bo@example.com", salary: "n/a" }
+    ], { database: "payrolldb", tables: ["emp_salary"] });
+
+    assert.deepEqual(rows[0], { id: 1, SSN: "*******6789", email: rows[0].email, salary: "50000-60000" });
+    assert.match(String(rows[0].email), /^sha256:[0-9a-f]{16}$/);
+    assert.deepEqual(rows[1], { id: 2, SSN: null, email: rows[1].email, salary: "[redacted]" });
+    assert.notEqual(rows[0].email, rows[1].email);
+    assert.equal(describeRedactions(redacted), "user_password (drop), SSN (mask), email (hash), salary (bucket)");
+  });
+
+  it("hashes equal values equally, with the salt", () => {
+    const scope = { database: "eadmin", tables: ["employee"] };
+    const [first, second] = redactor.redactRows([{ email: "ann@example.com" }, { email: "ann@example.com" }], scope).rows;
+    const unsalted = createRedactor("test", [{ strategy: "hash", columns: ["email"] }]).redactRows([{ email: "ann@example.com" }], scope).rows[0];
+    assert.equal(first.email, second.email);
+    assert.notEqual(first.email, unsalted.email);
+  });
+
+  it("only applies table rules to rows from matching tables", () => {
+    const { rows, redacted } = redactor.redactRows([{ salary: 54321 }], { database: "eadmin", tables: ["employee"] });
+    assert.deepEqual([rows, redacted], [[{ salary: 54321 }], []]);
+    assert.equal(redactor.strategyFor("salary", { database: "eadmin", tables: ["payrolldb:emp_salary"] }), "bucket");
+  });
+
+  it("redacts computed columns as the columns they read", () => {
+    const { rows, redacted } = redactor.redactRows([{ code: "123-45-6789", n: 3 }], {
+      database: "eadmin",
+      tables: ["employee"],
+      sources: { code: ["ssn"], n: ["id"] }
+    });
+    assert.deepEqual(rows, [{ code: "*******6789", n: 3 }]);
+    assert.deepEqual(redacted, [{ column: "code", strategy: "mask" }]);
+  });
+
+  it("returns rows unchanged without rules", () => {
+    const rows = [{ ssn: "123-45-6789" }];
+    assert.equal(createRedactor("none").redactRows(rows, { database: "eadmin", tables: [] }).rows, rows);
+  });
+});
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { QueueFullError, backoffDelay, createCircuitBreaker, createConcurrencyLimiter, withRetry } from "../src/resilience.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("backoffDelay", () => {
+  const options = { retries: 3, baseDelayMs: 100, maxDelayMs: 500 };
+
+  it("waits up to the doubled base delay, capped at the maximum", () => {
+    assert.deepEqual([0, 1, 2, 3, 4].map((attempt) => backoffDelay(attempt, options, () => 1)), [100, 200, 400, 500, 500]);
+    assert.equal(backoffDelay(3, options, () => 0), 0);
+    for (let i = 0; i < 100; i++) {
+      const delay = backoffDelay(2, options);
+      assert.ok(delay >= 0 && delay <= 400, String(delay));
+    }
+  });
+});
+
+describe("withRetry", () => {
+  const options = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+  it("retries the errors it is told to, up to the limit", async () => {
+    let attempts = 0;
+    await assert.rejects(withRetry(async () => {
+      attempts++;
+      throw new Error("down");
+    }, options, () => true), /down/);
+    assert.equal(attempts, 3);
+
+    attempts = 0;
+    assert.equal(await withRetry(async () => ++attempts < 2 ? Promise.reject(new Error("down")) : "up", options, () => true), "up");
+    assert.equal(attempts, 2);
+  });
+
+  it("gives up at once on other errors", async () => {
+    let attempts = 0;
+    await assert.rejects(withRetry(async () => {
+      attempts++;
+      throw new Error("rejected");
+    }, options, () => false), /rejected/);
+    assert.equal(attempts, 1);
+  });
+});
+
+describe("createCircuitBreaker", () => {
+  it("opens after consecutive failures and closes after a successful trial", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 30 });
+    breaker.failure();
+    breaker.success();
+    breaker.failure();
+    assert.deepEqual([breaker.status().state, breaker.status().consecutiveFailures], ["closed", 1]);
+    breaker.failure();
+    assert.equal(breaker.status().state, "open");
+    assert.equal(breaker.allow(), false);
+
+    await sleep(40);
+    assert.equal(breaker.status().state, "half-open");
+    assert.deepEqual([breaker.allow(), breaker.allow()], [true, false], "a single trial request");
+    breaker.success();
+    assert.deepEqual(breaker.status(), { state: "closed", consecutiveFailures: 0, openedAt: null, retryAt: null });
+  });
+
+  it("opens again when the trial fails", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 30 });
+    breaker.failure();
+    await sleep(40);
+    assert.equal(breaker.allow(), true);
+    breaker.failure();
+    assert.equal(breaker.status().state, "open");
+  });
+
+  it("keeps its state when a request is released", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 30 });
+    breaker.failure();
+    await sleep(40);
+    assert.equal(breaker.allow(), true);
+    breaker.release();
+    assert.deepEqual([breaker.status().state, breaker.status().consecutiveFailures], ["half-open", 1]);
+    assert.equal(breaker.allow(), true, "the next request is the trial");
+  });
+});
+
+describe("createConcurrencyLimiter", () => {
+  it("queues tasks beyond the limit and runs them in arrival order", async () => {
+    const limiter = createConcurrencyLimiter({ maxInFlight: 1, maxQueue: 2 });
+    const order: string[] = [];
+    let finish!: () => void;
+    const first = limiter.run(() => new Promise<void>((resolve) => {
+      order.push("first");
+      finish = resolve;
+    }));
+    const second = limiter.run(async () => {
+      order.push("second");
+    });
+    const third = limiter.run(async () => {
+      order.push("third");
+    });
+    assert.deepEqual([limiter.inFlight(), limiter.queued()], [1, 2]);
+    await assert.rejects(limiter.run(async () => undefined), QueueFullError);
+
+    finish();
+    await Promise.all([first, second, third]);
+    assert.deepEqual(order, ["first", "second", "third"]);
+    assert.deepEqual([limiter.inFlight(), limiter.queued()], [0, 0]);
+  });
+
+  it("frees the slot of a failed task", async () => {
+    const limiter = createConcurrencyLimiter({ maxInFlight: 1, maxQueue: 0 });
+    await assert.rejects(limiter.run(async () => {
+      throw new Error("failed");
+    }), /failed/);
+    assert.equal(await limiter.run(async () => "next"), "next");
+  });
+});
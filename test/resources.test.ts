@@ -0,0 +1,247 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestServer, startTestServer } from "./harness.js";
+
+// Every resource, resource template and prompt through the MCP protocol,
+// against the mock bridge fixtures
+
+describe("resources", () => {
+  let server: TestServer;
+  const read = new Set<string>();
+
+  const readJson = (name: string, uri: string) => {
+    read.add(name);
+    return server.read(uri);
+  };
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => server.mock.reset());
+
+  it("server-info describes the server", async () => {
+    const info = await readJson("server-info", "info://server");
+    assert.equal(info.status, "running");
+    assert.deepEqual(info.configuration.profiles, [{ name: "default", phpApiUrl: server.mock.url, apiKeyConfigured: true }]);
+  });
+
+  it("server-info lists what the server offers", async () => {
+    const info = await readJson("server-info", "info://server");
+    const { tools } = await server.client.listTools();
+    const { resources } = await server.client.listResources();
+    const { resourceTemplates } = await server.client.listResourceTemplates();
+    const { prompts } = await server.client.listPrompts();
+    assert.deepEqual(info.capabilities.tools, tools.map((tool) => tool.name));
+    // Resources listed by a template, such as one table's schema, are not
+    // registered resources of their own
+    const fromTemplate = (uri: string) => resourceTemplates.some((template) =>
+      new RegExp(`^${template.uriTemplate.replace(/[.?*+^$()|[\]\\]/g, "\\$&").replace(/\{[^}]+\}/g, ".+")}$`).test(uri));
+    assert.deepEqual([...info.capabilities.resources].sort(),
+      [...resources.filter((resource) => !fromTemplate(resource.uri)), ...resourceTemplates].map((resource) => resource.name).sort());
+    assert.deepEqual(info.capabilities.prompts, prompts.map((prompt) => prompt.name));
+  });
+
+  it("query-reference lists the catalog", async () => {
+    const reference = await readJson("query-reference", "info://queries");
+    assert.equal(reference.catalogSource, "bridge");
+    assert.ok("get-table-schema" in reference.queries);
+  });
+
+  it("database-status reports a healthy bridge", async () => {
+    const status = await readJson("database-status", "info://status");
+    assert.equal(status.status, "healthy");
+    assert.equal(status.profiles[0].bridge.circuit.state, "closed");
+  });
+
+  it("database-status reuses a recent successful request instead of probing", async () => {
+    await server.call("list-databases");
+    const status = await server.read("info://status");
+    assert.equal(status.status, "healthy");
+    assert.equal(status.profiles[0].checkedBy, "recent-request");
+    assert.ok(!server.mock.requests.some((request) => request.queryName === "test-connection"));
+  });
+
+  it("database-status reports an unreachable bridge", async () => {
+    // After a failed request the bridge is probed again
+    server.mock.override("run-select", { httpStatus: 503 });
+    server.mock.override("test-connection", { httpStatus: 503 });
+    await server.call("run-select", { sql: "SELECT * FROM department" });
+    const status = await server.read("info://status");
+    assert.equal(status.status, "unhealthy");
+    assert.equal(status.profiles[0].checkedBy, "probe");
+    assert.equal(status.profiles[0].errorClass, "server");
+  });
+
+  it("metrics counts tool calls, errors and bridge requests", async () => {
+    await server.call("list-tables", { database: "ppc" });
+    await server.call("get-table-schema", { tableName: "nosuch" });
+    const { metrics } = await readJson("metrics", "info://metrics");
+    const metric = (name: string) => metrics.find((entry: any) => entry.name === name);
+    const sample = (name: string, labels: Record<string, string>) =>
+      metric(name).samples.find((entry: any) => Object.entries(labels).every(([key, value]) => entry.labels[key] === value));
+
+    assert.ok(sample("informix_mcp_tool_calls_total", { tool: "list-tables", outcome: "success" }).value >= 1);
+    assert.ok(sample("informix_mcp_tool_errors_total", { tool: "get-table-schema", error_class: "query-failed" }).value >= 1);
+    assert.ok(sample("informix_mcp_bridge_requests_total", { query: "get-table-schema", result: "query-failed" }).value >= 1);
+    const latency = sample("informix_mcp_bridge_request_duration_seconds", { profile: "default", query: "list-tables" });
+    assert.ok(latency.count >= 1);
+    assert.deepEqual(latency.buckets.at(-1), { le: "+Inf", count: latency.count });
+    assert.equal(sample("informix_mcp_bridge_circuit_state", { profile: "default" }).value, 0);
+    assert.ok(metric("informix_mcp_metadata_cache_hit_ratio"));
+  });
+
+  it("recent-activity and recent-activity-by-tool read the audit log", async () => {
+    await server.call("list-databases");
+    await server.call("test-connection");
+    const all = await readJson("recent-activity", "info://activity");
+    assert.deepEqual(all.entries.slice(0, 2).map((entry: any) => entry.tool), ["test-connection", "list-databases"]);
+    const byTool = await readJson("recent-activity-by-tool", "info://activity/list-databases");
+    assert.ok(byTool.entries.length > 0);
+    assert.ok(byTool.entries.every((entry: any) => entry.tool === "list-databases"));
+  });
+
+  it("database-tables lists tables", async () => {
+    const tables = await readJson("database-tables", "informix://ppc/tables");
+    assert.deepEqual(tables.tables, ["project", "timesheet"]);
+  });
+
+  it("table-schema describes columns", async () => {
+    const schema = await readJson("table-schema", "informix://auditdb/table/employee_audit/schema");
+    assert.deepEqual(schema.columns.at(-1), { name: "changed_at", type: "DATETIME YEAR TO SECOND", length: null, nullable: false });
+  });
+
+  it("table-sample returns rows", async () => {
+    const sample = await readJson("table-sample", "informix://payrolldb/table/payroll_run/sample");
+    assert.deepEqual(sample.rows.map((row: any) => row.period), ["2024-01", "2024-02", "2024-03"]);
+  });
+
+  it("view-definition joins the view text", async () => {
+    const view = await readJson("view-definition", "informix://eadmin/view/v_active_employees/definition");
+    assert.match(view.definition, /^create view v_active_employees .* where \(x0\.active = 'Y'\);$/);
+  });
+
+  it("export-file serves the files of finished exports", async () => {
+    read.add("export-file");
+    const csv = (await server.call("export-table", { tableName: "project", database: "ppc", fileFormat: "csv", columns: ["id", "code"], wait: true })).structuredContent as any;
+    const { contents: [text] } = await server.client.readResource({ uri: csv.job.result.uri });
+    assert.deepEqual([text.mimeType, text.text], ["text/csv", "id,code\n1,PPC-001\n2,PPC-002\n"]);
+
+    const parquet = (await server.call("export-table", { tableName: "project", database: "ppc", fileFormat: "parquet", wait: true })).structuredContent as any;
+    const { contents: [blob] } = await server.client.readResource({ uri: parquet.job.result.uri });
+    assert.equal(blob.mimeType, "application/vnd.apache.parquet");
+    assert.equal(Buffer.from(String(blob.blob), "base64").subarray(0, 4).toString(), "PAR1");
+
+    const { resources } = await server.client.listResources();
+    assert.ok(resources.some((resource) => resource.uri === parquet.job.result.uri));
+    await assert.rejects(server.client.readResource({ uri: "export://nosuch.csv" }), /not found/);
+  });
+
+  it("surfaces bridge failures as errors", async () => {
+    await assert.rejects(server.read("informix://eadmin/table/nosuch/schema"), /not found/);
+  });
+
+  it("lists resources for every table and view", async () => {
+    const { resources } = await server.client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+    assert.ok(uris.includes("informix://eadmin/table/employee/sample"));
+    assert.ok(uris.includes("informix://eadmin/view/v_active_employees/definition"));
+    assert.ok(!uris.includes("informix://eadmin/view/employee/definition"));
+  });
+
+  it("completes databases and tables", async () => {
+    const databases = await server.client.complete({
+      ref: { type: "ref/resource", uri: "informix://{database}/tables" },
+      argument: { name: "database", value: "pa" }
+    });
+    assert.deepEqual(databases.completion.values, ["payrolldb"]);
+    const tables = await server.client.complete({
+      ref: { type: "ref/resource", uri: "informix://{database}/table/{table}/schema" },
+      argument: { name: "table", value: "emp" },
+      context: { arguments: { database: "eadmin" } }
+    });
+    assert.deepEqual(tables.completion.values, ["employee"]);
+  });
+
+  it("reads every registered resource", async () => {
+    const [{ resources }, { resourceTemplates }] = await Promise.all([server.client.listResources(), server.client.listResourceTemplates()]);
+    const registered = new Set([
+      ...resources.filter((resource) => resource.uri.startsWith("info://")).map((resource) => resource.name),
+      ...resourceTemplates.map((template) => template.name)
+    ]);
+    assert.deepEqual([...registered].sort(), [...read].sort());
+  });
+});
+
+describe("resources with an access policy", () => {
+  let server: TestServer;
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "informix-mcp-policy-"));
+    await writeFile(join(dir, "policy.yaml"), "default:\n  profiles:\n    deny: [default]\n");
+    server = await startTestServer({ ACCESS_POLICY_FILE: join(dir, "policy.yaml") });
+  });
+
+  after(async () => {
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("server-info leaves out the profiles the client may not use", async () => {
+    const info = await server.read("info://server");
+    assert.deepEqual(info.configuration.profiles, []);
+    assert.ok(!JSON.stringify(info).includes(server.mock.url));
+  });
+});
+
+describe("prompts", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(() => server.close());
+
+  const texts = (messages: { content: any }[]) =>
+    messages.map((message) => message.content.type === "resource" ? message.content.resource.uri : message.content.text);
+
+  it("lists every prompt", async () => {
+    const { prompts } = await server.client.listPrompts();
+    assert.deepEqual(prompts.map((prompt) => prompt.name).sort(), ["draft-select", "explain-table", "investigate-audit-trail"]);
+  });
+
+  it("explain-table attaches schema, keys and sample rows", async () => {
+    const { messages } = await server.client.getPrompt({ name: "explain-table", arguments: { database: "eadmin", table: "employee" } });
+    const parts = texts(messages);
+    assert.ok(parts.includes("informix://eadmin/table/employee/schema"));
+    assert.ok(parts.includes("informix://eadmin/table/employee/sample"));
+    assert.ok(parts.some((part) => part.includes("fk_employee_dept: employee.dept_id = department.id")));
+  });
+
+  it("draft-select picks the tables the question mentions", async () => {
+    const { messages } = await server.client.getPrompt({
+      name: "draft-select",
+      arguments: { question: "Hours per project from timesheet", database: "ppc" }
+    });
+    const parts = texts(messages);
+    assert.ok(parts.includes("informix://ppc/table/project/schema"));
+    assert.ok(parts.includes("informix://ppc/table/timesheet/schema"));
+    assert.ok(parts.some((part) => part.includes("timesheet.project_id = project.id")));
+  });
+
+  it("investigate-audit-trail attaches the audit tables", async () => {
+    const { messages } = await server.client.getPrompt({ name: "investigate-audit-trail", arguments: { entity: "employee 1003" } });
+    assert.ok(texts(messages).includes("informix://auditdb/table/employee_audit/schema"));
+  });
+
+  it("rejects unknown databases", async () => {
+    await assert.rejects(server.client.getPrompt({ name: "explain-table", arguments: { database: "nosuchdb", table: "employee" } }));
+  });
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { IndexedDatabase, createSchemaIndex, planRefresh, queryTerms, schemaWords, searchSchema } from "../src/schema-index.js";
+
+const eadmin: IndexedDatabase = {
+  profile: "default",
+  database: "eadmin",
+  refreshedAt: 0,
+  tables: [
+    {
+      name: "department",
+      kind: "table",
+      stamp: "100:1",
+      columns: [
+        { name: "id", type: "SERIAL", nullable: false },
+        { name: "dept_name", type: "VARCHAR(40)", nullable: false }
+      ]
+    },
+    {
+      name: "employee",
+      kind: "table",
+      stamp: "101:1",
+      comment: "Current and former employees",
+      columns: [
+        { name: "id", type: "INTEGER", nullable: false },
+        { name: "last_name", type: "VARCHAR(40)", nullable: false },
+        { name: "term_dt", type: "DATE", nullable: true },
+        { name: "active", type: "CHAR(1)", nullable: false, comment: "Y while employed" }
+      ]
+    },
+    {
+      name: "v_active_employees",
+      kind: "view",
+      stamp: "102:1",
+      definition: "create view v_active_employees as select id, last_name from employee where active = 'Y'",
+      columns: [{ name: "id", type: "INTEGER", nullable: true }]
+    }
+  ]
+};
+
+describe("planRefresh", () => {
+  it("reads added and changed tables and keeps the rest", () => {
+    const plan = planRefresh(eadmin, [
+      { name: "department", kind: "table", stamp: "100:1" },
+      { name: "EMPLOYEE", kind: "table", stamp: "101:2" },
+      { name: "payroll", kind: "table", stamp: "103:1" }
+    ]);
+    assert.deepEqual(plan.added.map((stamp) => stamp.name), ["payroll"]);
+    assert.deepEqual(plan.changed.map((stamp) => stamp.name), ["EMPLOYEE"]);
+    assert.deepEqual(plan.unchanged.map((table) => table.name), ["department"]);
+    assert.deepEqual(plan.removed, ["v_active_employees"]);
+  });
+
+  it("reads every table of a database not indexed yet", () => {
+    const plan = planRefresh(undefined, [{ name: "employee", kind: "table", stamp: "101:1" }]);
+    assert.equal(plan.added.length, 1);
+    assert.deepEqual([plan.changed, plan.unchanged, plan.removed], [[], [], []]);
+  });
+});
+
+describe("schemaWords", () => {
+  it("splits identifiers and folds plurals", () => {
+    assert.deepEqual(schemaWords("v_activeEmployees"), ["v", "active", "employee"]);
+    assert.deepEqual(schemaWords("addr2 lines, addresses"), ["addr", "2", "line", "address"]);
+    assert.deepEqual(queryTerms("Where is the employee termination date stored?"), ["employee", "termination", "date"]);
+  });
+});
+
+describe("searchSchema", () => {
+  it("matches abbreviations in column names and ranks them with their table", () => {
+    const hits = searchSchema([eadmin], "employee termination date", { limit: 3 });
+    assert.equal(hits[0].path, "eadmin.employee.term_dt");
+    assert.deepEqual([hits[0].type, hits[0].nullable], ["DATE", true]);
+    assert.deepEqual(hits[0].matches.map((match) => [match.word, match.field, match.kind]), [
+      ["employee", "table", "exact"],
+      ["term", "column", "abbreviation"],
+      ["dt", "column", "abbreviation"]
+    ]);
+  });
+
+  it("searches comments, view text and misspelt words", () => {
+    assert.equal(searchSchema([eadmin], "employed", { limit: 1 })[0].path, "eadmin.employee.active");
+    assert.equal(searchSchema([eadmin], "departmnt", { limit: 1 })[0].path, "eadmin.department");
+    const view = searchSchema([eadmin], "last name", { limit: 5 }).find((hit) => hit.kind === "view");
+    assert.equal(view?.path, "eadmin.v_active_employees");
+  });
+
+  it("leaves out tables that are not visible", () => {
+    const hits = searchSchema([eadmin], "department", { limit: 10, visible: (_, table) => table !== "department" });
+    assert.ok(hits.every((hit) => hit.table !== "department"));
+    assert.deepEqual(searchSchema([eadmin], "the", { limit: 10 }), []);
+  });
+});
+
+describe("createSchemaIndex", () => {
+  it("keeps the index in its file across restarts", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "informix-mcp-index-"));
+    try {
+      const file = join(dir, "index.json");
+      const index = await createSchemaIndex({ file });
+      index.put(eadmin);
+      // Writes are asynchronous; wait for the file
+      for (let attempt = 0; attempt < 50 && !(await createSchemaIndex({ file })).get("default", "eadmin"); attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      const restored = await createSchemaIndex({ file });
+      assert.deepEqual(restored.get("default", "eadmin"), eadmin);
+      assert.deepEqual(restored.stats(), { databases: 1, tables: 3, columns: 7 });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SqlGuardError, guardSelect } from "../src/sql-guard.js";
+
+describe("guardSelect", () => {
+  const rejected: [string, string, RegExp][] = [
+    ["writes", "INSERT INTO employee VALUES (1)", /Only SELECT statements/],
+    ["SELECT INTO TEMP", "SELECT * FROM employee INTO TEMP t1", /'INTO' is not allowed/],
+    ["FOR UPDATE", "SELECT * FROM employee FOR UPDATE", /'UPDATE' is not allowed/],
+    ["EXECUTE in a subquery", "SELECT * FROM employee WHERE id IN (EXECUTE FUNCTION ids())", /'EXECUTE' is not allowed/],
+    ["set operators", "SELECT id FROM employee UNION SELECT id FROM department", /UNION queries are not supported/],
+    ["routine calls", "SELECT myproc(1) FROM employee", /Call to 'myproc' is not allowed/],
+    ["quoted routine calls", 'SELECT "myproc"(1) FROM employee', /Call to "myproc" is not allowed/],
+    ["owner-qualified quoted routine calls", 'SELECT "informix"."myproc" (1) FROM employee', /Call to "myproc" is not allowed/],
+    ["owner-qualified built-in names", "SELECT someowner.lower(last_name) FROM employee", /Call to qualified routine 'lower' is not allowed/],
+    ["database-qualified built-in names", "SELECT db:owner.trim(last_name) FROM employee", /Call to qualified routine 'trim' is not allowed/],
+    ["database-qualified routine calls", "SELECT db:upper(last_name) FROM employee", /Call to qualified routine 'upper' is not allowed/],
+    ["a second statement", "SELECT 1 FROM employee; DELETE FROM employee", /Multiple statements/],
+    ["a second statement after a comment", "SELECT 1 FROM employee; -- trailing\nSELECT 2 FROM employee", /Multiple statements/],
+    ["unterminated comments", "SELECT 1 FROM employee /* drop table", /Unterminated \/\* comment/],
+    ["unterminated strings", "SELECT 'abc FROM employee", /Unterminated string literal/],
+    ["unbalanced parentheses", "SELECT (1 FROM employee", /Unbalanced parentheses/],
+    ["FIRST without a literal count", "SELECT FIRST ? * FROM employee", /FIRST must be followed by a literal row count/],
+    ["empty statements", "  ; ", /Statement is empty/]
+  ];
+
+  for (const [name, sql, message] of rejected) {
+    it(`rejects ${name}`, () => {
+      assert.throws(() => guardSelect(sql, 100), (error: unknown) => error instanceof SqlGuardError && message.test(error.message));
+    });
+  }
+
+  it("ignores keywords inside comments and strings", () => {
+    const guarded = guardSelect("SELECT name, 'drop table x' AS note -- delete\nFROM employee /* update */ { insert };", 100);
+    assert.equal(guarded.sql, "SELECT FIRST 100 name, 'drop table x' AS note FROM employee");
+  });
+
+  const capped: [string, string, string, number][] = [
+    ["adds FIRST", "SELECT id FROM employee", "SELECT FIRST 50 id FROM employee", 50],
+    ["lowers a larger FIRST", "SELECT FIRST 500 id FROM employee", "SELECT FIRST 50 id FROM employee", 50],
+    ["keeps a smaller FIRST", "SELECT FIRST 5 id FROM employee", "SELECT FIRST 5 id FROM employee", 5],
+    ["turns LIMIT into FIRST", "SELECT LIMIT 10 id FROM employee", "SELECT FIRST 10 id FROM employee", 10],
+    ["keeps SKIP", "SELECT SKIP 10 FIRST 500 id FROM employee", "SELECT SKIP 10 FIRST 50 id FROM employee", 50],
+    ["reads first as a column", "SELECT first FROM t", "SELECT FIRST 50 first FROM t", 50],
+    ["reads a qualified first as a column", "SELECT t.first, skip FROM t", "SELECT FIRST 50 t.first, skip FROM t", 50]
+  ];
+
+  for (const [name, sql, expected, rowCap] of capped) {
+    it(`caps rows: ${name}`, () => {
+      const guarded = guardSelect(sql, 50);
+      assert.deepEqual([guarded.sql, guarded.rowCap], [expected, rowCap]);
+    });
+  }
+
+  it("counts placeholders and allows built-in functions", () => {
+    const guarded = guardSelect("SELECT COUNT(*), UPPER(last_name) FROM employee WHERE dept_id = ? AND hired_on > ?", 10);
+    assert.equal(guarded.placeholderCount, 2);
+  });
+
+  it("reports the columns each select item reads", () => {
+    const { selectItems } = guardSelect('SELECT DISTINCT e.ssn, UPPER(e.last_name) AS name, "ssn" || \'\', x FROM (SELECT email AS x FROM employee) e', 10);
+    assert.deepEqual(selectItems.map((item) => [item.direct, item.alias, item.columns, item.outermost]), [
+      [true, undefined, ["ssn"], true],
+      [false, "name", ["last_name"], true],
+      [false, undefined, ["ssn"], true],
+      [true, undefined, ["x"], true],
+      [false, "x", ["email"], false]
+    ]);
+  });
+
+  it("reports the tables read, including other databases", () => {
+    const guarded = guardSelect("SELECT * FROM employee e JOIN payrolldb:emp_salary s ON s.emp_id = e.id, ppc@prod:informix.orders WHERE e.id IN (SELECT id FROM department)", 10);
+    assert.deepEqual(guarded.tables, [
+      { database: undefined, table: "employee", alias: "e" },
+      { database: "payrolldb", table: "emp_salary", alias: "s" },
+      { database: "ppc", table: "informix.orders" },
+      { database: undefined, table: "department" }
+    ]);
+  });
+});
@@ -0,0 +1,583 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type { CallToolResult, Progress } from "@modelcontextprotocol/sdk/types.js";
+import { asyncBufferFromFile, parquetReadObjects } from "hyparquet";
+import { DEFAULT_MOCK_FIXTURES } from "../src/mock-fixtures.js";
+import { TestServer, startTestServer, textOf } from "./harness.js";
+
+// Every tool through the MCP protocol, against the mock bridge fixtures
+
+describe("tools", () => {
+  let server: TestServer;
+  const called = new Set<string>();
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    called.add(name);
+    const result = await server.call(name, args);
+    assert.ok(!result.isError, `${name} failed: ${textOf(result)}`);
+    return result.structuredContent as any;
+  };
+
+  const callFails = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await server.call(name, args);
+    assert.equal(result.isError, true, `${name} should fail`);
+    assert.match(textOf(result), /^❌/);
+    return result.structuredContent as any;
+  };
+
+  before(async () => {
+    // Small enough that the larger fixture tables are sampled, and exported in
+    // pages; the cost limit refuses full scans of the auditdb tables
+    server = await startTestServer({ PROFILE_SAMPLE_ROWS: "4", EXPORT_PAGE_ROWS: "2", MAX_QUERY_COST: "1000" });
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => server.mock.reset());
+
+  it("test-connection echoes the message", async () => {
+    const result = await call("test-connection", { message: "ping" });
+    assert.equal(result.message, "ping");
+  });
+
+  it("list-databases lists the fixture databases", async () => {
+    const result = await call("list-databases");
+    assert.deepEqual(result.databases, ["eadmin", "payrolldb", "ppc", "auditdb"]);
+    assert.equal(result.count, 4);
+  });
+
+  it("list-tables pages through the tables of a database", async () => {
+    const first = await call("list-tables", { database: "eadmin", limit: 2 });
+    assert.deepEqual(first.tables, ["department", "employee"]);
+    assert.equal(first.total, 3);
+    const next = await call("fetch-next-page", { cursor: first.nextCursor });
+    assert.deepEqual(next.rows, [{ table: "v_active_employees" }]);
+  });
+
+  it("get-table-schema decodes column types", async () => {
+    const result = await call("get-table-schema", { tableName: "emp_salary", database: "payrolldb" });
+    assert.deepEqual(result.columns[2], { name: "gross", type: "DECIMAL(12,2)", length: null, nullable: false });
+  });
+
+  it("get-table-constraints groups constraints by kind", async () => {
+    const result = await call("get-table-constraints", { tableName: "employee" });
+    assert.deepEqual(result.primaryKey, { name: "pk_employee", columns: ["id"] });
+    assert.equal(result.foreignKeys[0].referencedTable, "department");
+    assert.equal(result.checkConstraints.length, 1);
+  });
+
+  it("get-table-indexes lists indexes", async () => {
+    const result = await call("get-table-indexes", { tableName: "employee" });
+    assert.deepEqual(result.indexes.map((index: any) => [index.name, index.unique]),
+      [["ix_employee_pk", true], ["ix_employee_email", true], ["ix_employee_dept_id", false]]);
+  });
+
+  it("describe-relationships follows foreign keys", async () => {
+    const result = await call("describe-relationships", { tableName: "department" });
+    assert.deepEqual(result.relationships.map((relationship: any) => relationship.join), ["employee.dept_id = department.id"]);
+  });
+
+  it("get-sample-data pages with fetch-next-page", async () => {
+    const first = await call("get-sample-data", { tableName: "employee", limit: 2 });
+    assert.deepEqual(first.rows.map((row: any) => row.id), [1001, 1002]);
+    const second = await call("fetch-next-page", { cursor: first.nextCursor });
+    assert.deepEqual(second.rows.map((row: any) => row.id), [1003, 1004]);
+    assert.equal(server.mock.requests.at(-1)?.params.offset, 2);
+  });
+
+  it("get-sample-data reads a full page of the largest size without going over the bridge's row limit", async () => {
+    server.mock.override("get-top-records", (params) => ({
+      results: [{ records: Array.from({ length: Number(params.limit) }, (_, index) => ({ id: Number(params.offset ?? 0) + index })) }]
+    }));
+    const result = await call("get-sample-data", { tableName: "employee", limit: 1000 });
+    assert.equal(result.rows.length, 1000);
+    assert.ok(result.nextCursor);
+    assert.deepEqual(server.mock.requests.map((request) => [request.params.limit, request.params.offset]), [[1000, undefined], [1, 1000]]);
+  });
+
+  it("profile-table profiles every row of a small table", async () => {
+    const result = await call("profile-table", { tableName: "emp_salary", database: "payrolldb" });
+    assert.deepEqual([result.rowCount, result.sampleRows, result.sampling], [4, 4, "none"]);
+    const net = result.columns.find((column: any) => column.column === "net");
+    assert.deepEqual([net.nullCount, net.nullRatio, net.distinctCount, net.min, net.max], [1, 0.25, 2, 3990.1, 4870.25]);
+    const gross = result.columns.find((column: any) => column.column === "gross");
+    assert.deepEqual(gross.topValues[0], { value: 6500, count: 2 });
+    assert.equal(gross.histogram.reduce((sum: number, bin: any) => sum + bin.count, 0), 4);
+  });
+
+  it("profile-table samples large tables and caches the profile", async () => {
+    const result = await call("profile-table", { tableName: "employee", columns: ["last_name", "active"], topK: 1 });
+    assert.deepEqual([result.rowCount, result.sampleRows, result.sampling], [5, 4, "samples-of"]);
+    assert.deepEqual(result.columns.map((column: any) => column.column), ["last_name", "active"]);
+    assert.deepEqual(result.columns[1].topValues, [{ value: "Y", count: 3 }]);
+    assert.deepEqual(result.columns[0].lengths, { min: 2, max: 5, mean: 3.75, histogram: result.columns[0].lengths.histogram });
+    assert.match(server.mock.requests.at(-1)?.params.sql, /SAMPLES OF 4 ROWS$/);
+
+    const again = await call("profile-table", { tableName: "employee" });
+    assert.equal(again.cache.hit, true);
+    assert.equal(again.columns.length, 8);
+  });
+
+  it("profile-table falls back to the first rows without SAMPLES OF", async () => {
+    await call("refresh-metadata", { queryName: "profile-table" });
+    server.mock.override("run-select", (params) => /SAMPLES OF/.test(params.sql)
+      ? { error: "SQL error -201: A syntax error has occurred" }
+      : DEFAULT_MOCK_FIXTURES["run-select"](params));
+    const result = await call("profile-table", { tableName: "employee", columns: ["id"] });
+    assert.equal(result.sampling, "first-rows");
+    assert.deepEqual([result.columns[0].min, result.columns[0].max], [1001, 1004]);
+  });
+
+  const exported = (file: string) => join(server.dir, "exports", file);
+
+  it("export-table pages through a table into a CSV file", async () => {
+    const result = await server.call("export-table", { tableName: "employee", fileFormat: "csv", columns: ["id", "last_name"], wait: true });
+    called.add("export-table");
+    const { job } = result.structuredContent as any;
+    assert.equal(job.state, "completed");
+    assert.deepEqual([job.progress, job.result.rows, job.result.columns], [{ rows: 5, total: 5 }, 5, ["id", "last_name"]]);
+    assert.deepEqual(server.mock.requests.map((request) => request.params.sql).filter(Boolean).slice(-3), [
+      "SELECT SKIP 0 FIRST 2 id, last_name FROM employee ORDER BY id",
+      "SELECT SKIP 2 FIRST 2 id, last_name FROM employee ORDER BY id",
+      "SELECT SKIP 4 FIRST 2 id, last_name FROM employee ORDER BY id"
+    ]);
+    assert.equal(await readFile(exported(job.result.file), "utf8"), "id,last_name\n1001,Lee\n1002,Ortiz\n1003,Wu\n1004,Smith\n1005,Novak\n");
+    assert.deepEqual(result.content.at(-1), {
+      type: "resource_link",
+      uri: `export://${job.result.file}`,
+      name: job.result.file,
+      description: "Export of table 'employee' in database 'eadmin' (5 rows)",
+      mimeType: "text/csv"
+    });
+  });
+
+  it("export-table reports progress and writes NDJSON", async () => {
+    const progress: Progress[] = [];
+    const result = await server.client.callTool(
+      { name: "export-table", arguments: { tableName: "project", database: "ppc", fileFormat: "ndjson", where: "budget > ?", params: [1000] } },
+      undefined,
+      { onprogress: (update) => progress.push(update) }
+    );
+    const { job } = result.structuredContent as any;
+    assert.equal(job.state, "completed");
+    assert.deepEqual(progress.map((update) => [update.progress, update.total, update.message]), [[2, 2, "2 rows exported"]]);
+    assert.match(server.mock.requests.find((request) => request.queryName === "run-select")?.params.sql, /^SELECT FIRST 1 COUNT\(\*\) AS row_count FROM project WHERE budget > \?$/);
+    const lines = (await readFile(exported(job.result.file), "utf8")).trim().split("\n").map((line) => JSON.parse(line));
+    assert.deepEqual(lines[1], { id: 2, code: "PPC-002", title: "Payroll upgrade", budget: 45000 });
+  });
+
+  it("export-table writes typed Parquet columns", async () => {
+    const { job } = await call("export-table", { tableName: "emp_salary", database: "payrolldb", fileFormat: "parquet", orderBy: ["run_id", "emp_id"], wait: true });
+    assert.match(server.mock.requests.at(-1)?.params.sql, /ORDER BY run_id, emp_id$/);
+    const rows = await parquetReadObjects({ file: await asyncBufferFromFile(exported(job.result.file)) });
+    assert.deepEqual(rows.at(-1), { run_id: 2n, emp_id: 1002n, gross: 5400, net: null });
+  });
+
+  it("export-table orders pages by ROWID when the table has no primary key", async () => {
+    const { job } = await call("export-table", { tableName: "login_log", database: "auditdb", fileFormat: "csv", maxRows: 3, wait: true });
+    assert.equal(job.state, "completed");
+    assert.match(server.mock.requests.at(-1)?.params.sql, /^SELECT SKIP 2 FIRST 1 .* FROM login_log ORDER BY ROWID$/);
+  });
+
+  it("job-status and cancel-job follow a background export", async () => {
+    server.mock.override("run-select", (params) => ({ ...DEFAULT_MOCK_FIXTURES["run-select"](params), delayMs: 200 }));
+    const { job } = await call("export-table", { tableName: "employee", fileFormat: "csv", wait: false });
+    assert.ok(["queued", "running"].includes(job.state));
+
+    const status = await call("job-status", { jobId: job.id });
+    assert.deepEqual(status.jobs.map((entry: any) => entry.id), [job.id]);
+
+    const cancelled = await call("cancel-job", { jobId: job.id });
+    assert.equal(cancelled.job.state, "cancelled");
+    assert.ok((await readdir(join(server.dir, "exports"))).every((file) => !file.endsWith(".partial")));
+
+    const all = await call("job-status");
+    assert.equal(all.jobs[0].id, job.id);
+    assert.ok(all.jobs.some((entry: any) => entry.state === "completed"));
+  });
+
+  it("run-select caps the statement and returns rows", async () => {
+    const result = await call("run-select", { sql: "SELECT * FROM department", maxRows: 2 });
+    assert.equal(result.statement, "SELECT FIRST 2 * FROM department");
+    assert.equal(result.rowCount, 2);
+    assert.equal(result.estimatedCost, 2);
+  });
+
+  it("explain-query parses the plan and warns about large scans", async () => {
+    const result = await call("explain-query", { sql: "SELECT * FROM employee_audit a WHERE a.action = ? ORDER BY changed_at", params: ["UPDATE"], database: "auditdb" });
+    assert.equal(result.statement, "SELECT FIRST 100 * FROM employee_audit a WHERE a.action = ? ORDER BY changed_at");
+    assert.deepEqual([result.estimatedCost, result.estimatedRows, result.temporaryFiles, result.maxCost], [600001, 100, ["Order By"], 1000]);
+    assert.deepEqual(result.steps.map((step: any) => [step.table, step.tableName, step.tableRows, step.accessPath, step.filters]), [
+      ["a", "employee_audit", 2400000, "SEQUENTIAL SCAN", ["a.action = ?"]]
+    ]);
+    assert.deepEqual(result.warnings, [
+      "Estimated cost 600001 is above the configured maximum of 1000; 'run-select' refuses this statement",
+      "Sequential scan on large table 'employee_audit' (2400000 rows); an index on the filtered columns may help: a.action = ?"
+    ]);
+    assert.match(result.plan, /^QUERY:/);
+    assert.deepEqual(server.mock.requests.map((request) => request.queryName), ["explain-select", "run-select"]);
+  });
+
+  it("explain-query reports index paths", async () => {
+    const result = await call("explain-query", { sql: "SELECT first_name FROM employee WHERE id = ?", params: [1001] });
+    assert.deepEqual([result.steps[0].accessPath, result.steps[0].index, result.steps[0].indexKeys], ["INDEX PATH", "ix_employee_pk", ["id"]]);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it("query-informix runs a catalog query", async () => {
+    const result = await call("query-informix", { queryName: "get-database-count" });
+    assert.deepEqual(result.results, [{ database_count: 4 }]);
+  });
+
+  it("renders markdown, csv and json", async () => {
+    const markdown = await server.call("list-tables", { database: "ppc", format: "markdown" });
+    assert.match(textOf(markdown), /\| project \|/);
+    const csv = await server.call("get-sample-data", { tableName: "project", database: "ppc", format: "csv" });
+    assert.match(textOf(csv), /^id,code,title,budget/m);
+    const json = await server.call("list-databases", { format: "json" });
+    assert.deepEqual(JSON.parse(textOf(json)).databases, ["eadmin", "payrolldb", "ppc", "auditdb"]);
+  });
+
+  it("snapshot-schema, list-snapshots and diff-schema compare schemas", async () => {
+    const snapshot = await call("snapshot-schema", { database: "eadmin" });
+    assert.deepEqual([snapshot.tables, snapshot.views], [2, 1]);
+
+    const list = await call("list-snapshots", { database: "eadmin" });
+    assert.deepEqual(list.snapshots.map((entry: any) => entry.name), [snapshot.snapshot]);
+
+    const same = await call("diff-schema", { fromSnapshot: snapshot.snapshot, toDatabase: "eadmin" });
+    assert.equal(same.identical, true);
+
+    server.mock.override("list-tables", { results: [{ table_count: 2, tables: ["employee", "v_active_employees"] }] });
+    await call("refresh-metadata", { database: "eadmin" });
+    const changed = await call("diff-schema", { fromSnapshot: snapshot.snapshot, toDatabase: "eadmin" });
+    assert.deepEqual(changed.removedTables, [{ name: "department", kind: "table" }]);
+  });
+
+  it("search-schema finds columns by description across databases", async () => {
+    const result = await call("search-schema", { query: "when did an employee join" });
+    assert.deepEqual(result.hits[0], {
+      database: "eadmin",
+      table: "employee",
+      column: "hired_on",
+      path: "eadmin.employee.hired_on",
+      kind: "column",
+      type: "DATE",
+      nullable: true,
+      comment: "Date the employee joined",
+      score: result.hits[0].score,
+      matches: result.hits[0].matches
+    });
+    assert.deepEqual(result.databases.map((entry: any) => [entry.database, entry.checked]),
+      [["eadmin", true], ["payrolldb", true], ["ppc", true], ["auditdb", true]]);
+
+    const termination = await call("search-schema", { query: "employee termination", database: "auditdb" });
+    assert.equal(termination.hits[0].path, "auditdb.employee_audit.action");
+    assert.equal(termination.databases[0].checked, false, "searched the recent index");
+  });
+
+  it("search-schema indexes catalogs without comment tables", async () => {
+    server.mock.override("run-select", (params) => {
+      if (/\bsyscomments\b/.test(params.sql)) {
+        return { error: "SQL error -206: The specified table (syscomments) is not in the database." };
+      }
+      if (/\bsyscolcomments\b/.test(params.sql)) {
+        return { httpStatus: 500, body: { status: "error", message: "SQL error -206" } };
+      }
+      return DEFAULT_MOCK_FIXTURES["run-select"](params);
+    });
+    const result = await call("search-schema", { query: "employee hired", database: "eadmin", refresh: true });
+    assert.equal(result.databases[0].checked, true);
+    assert.equal(result.hits[0].path, "eadmin.employee.hired_on");
+    assert.ok(result.hits.every((hit: any) => hit.comment === undefined));
+  });
+
+  it("search-schema only reads tables whose stamp changed", async () => {
+    await call("search-schema", { query: "department", database: "eadmin" });
+    const stamps = DEFAULT_MOCK_FIXTURES["run-select"];
+    server.mock.override("run-select", (params) => {
+      const reply = stamps(params) as any;
+      return /\bversion\b/.test(params.sql)
+        ? { results: reply.results.map((row: any) => row.tabname === "department" ? { ...row, version: 2 } : row) }
+        : reply;
+    });
+    const seen = server.mock.requests.length;
+
+    const result = await call("search-schema", { query: "department", database: "eadmin", refresh: true });
+    assert.deepEqual(result.databases[0], { ...result.databases[0], added: 0, changed: 1, removed: 0, tables: 3 });
+    assert.deepEqual(server.mock.requests.slice(seen).filter((request) => request.queryName !== "run-select").map((request) => [request.queryName, request.params.tableName]),
+      [["get-table-schema", "department"]]);
+  });
+
+  it("refresh-metadata drops cached answers", async () => {
+    await call("list-databases");
+    await call("list-databases");
+    assert.equal(server.mock.requests.length, 0, "served from the cache");
+    const result = await call("refresh-metadata", { queryName: "list-databases" });
+    assert.equal(result.dropped, 1);
+    await call("list-databases");
+    assert.equal(server.mock.requests.length, 1);
+  });
+
+  it("list-profiles shows the environment profile", async () => {
+    const result = await call("list-profiles");
+    assert.equal(result.defaultProfile, "default");
+    assert.equal(result.profiles[0].url, server.mock.url);
+  });
+
+  it("sends each call's correlation ID to the bridge and the audit log", async () => {
+    const result = await server.call("run-select", { sql: "SELECT name FROM department" });
+    const requestId = result._meta?.requestId;
+    assert.match(String(requestId), /^[0-9a-f-]{36}$/);
+    // The cost check and the statement itself
+    assert.deepEqual(server.mock.requests.map((request) => request.requestId), [requestId, requestId]);
+    const { entries } = await server.read("info://activity/run-select");
+    assert.equal(entries[0].requestId, requestId);
+  });
+
+  it("calls every registered tool", async () => {
+    const { tools } = await server.client.listTools();
+    assert.deepEqual(tools.map((tool) => tool.name).sort(), [...called].sort());
+  });
+
+  describe("errors", () => {
+    const bridgeFailures: [string, object, string][] = [
+      ["HTTP 401", { httpStatus: 401 }, "auth"],
+      ["HTTP 403", { httpStatus: 403 }, "forbidden"],
+      ["HTTP 400", { httpStatus: 400, body: { status: "error", message: "bad" } }, "bad-request"],
+      ["HTTP 500", { httpStatus: 500, body: { status: "error", message: "boom" } }, "server"],
+      ["a failed query", { error: "SQL error -206" }, "query-failed"],
+      ["a non-JSON body", { raw: "<html>Fatal error</html>" }, "malformed-response"],
+      ["rows of the wrong shape", { results: [{ databases: "eadmin" }] }, "malformed-response"],
+      ["no rows", { results: [] }, "malformed-response"]
+    ];
+
+    for (const [label, reply, error] of bridgeFailures) {
+      it(`reports ${label} as ${error}`, async () => {
+        await call("refresh-metadata");
+        server.mock.override("list-databases", reply as any);
+        const result = await callFails("list-databases");
+        assert.equal(result.error, error);
+      });
+    }
+
+    it("reports missing tables from the bridge", async () => {
+      const result = await callFails("get-table-schema", { tableName: "nosuch" });
+      assert.equal(result.error, "query-failed");
+      assert.match(result.message, /nosuch/);
+    });
+
+    it("rejects arguments that fail the input schema", async () => {
+      await assert.rejects(server.call("get-table-schema", { tableName: "employee; DROP TABLE x" }), /Invalid arguments/);
+      await assert.rejects(server.call("list-tables", { database: "nosuchdb" }), /Invalid arguments/);
+    });
+
+    it("rejects invalid catalog parameters", async () => {
+      const result = await callFails("query-informix", { queryName: "get-table-schema", params: {} });
+      assert.equal(result.error, "invalid-params");
+      assert.deepEqual(result.issues, [{ field: "params.tableName", message: "Required" }]);
+    });
+
+    it("rejects unknown profile columns", async () => {
+      const result = await callFails("profile-table", { tableName: "department", columns: ["name", "budget"] });
+      assert.equal(result.error, "invalid-params");
+      assert.deepEqual(result.issues, [{ field: "columns", message: "Table 'department' has no column 'budget'" }]);
+    });
+
+    it("rejects statements other than SELECT", async () => {
+      const result = await callFails("run-select", { sql: "DELETE FROM employee" });
+      assert.equal(result.error, "sql-rejected");
+      assert.equal(server.mock.requests.length, 0);
+    });
+
+    it("refuses statements above the cost limit", async () => {
+      const result = await callFails("run-select", { sql: "SELECT * FROM login_log", database: "auditdb" });
+      assert.deepEqual([result.error, result.estimatedCost, result.message], ["cost-exceeded", 2450001, "Estimated cost 2450001 is above the maximum of 1000"]);
+      assert.deepEqual(server.mock.requests.map((request) => request.queryName), ["explain-select"]);
+      assert.equal((await callFails("explain-query", { sql: "SELECT * FROM employee; SELECT 1" })).error, "sql-rejected");
+    });
+
+    it("rejects unknown export columns and unsafe conditions", async () => {
+      const columns = await callFails("export-table", { tableName: "employee", fileFormat: "csv", orderBy: ["salary"] });
+      assert.deepEqual(columns.issues, [{ field: "orderBy", message: "Table 'employee' has no column 'salary'" }]);
+      const where = await callFails("export-table", { tableName: "employee", fileFormat: "csv", where: "1 = 1; DELETE FROM employee" });
+      assert.equal(where.error, "sql-rejected");
+      const params = await callFails("export-table", { tableName: "employee", fileFormat: "csv", where: "dept_id = ?" });
+      assert.equal(params.error, "sql-rejected");
+    });
+
+    it("reports failed exports and leaves no file behind", async () => {
+      const before = await readdir(join(server.dir, "exports"));
+      server.mock.override("run-select", (params) => /SKIP 2/.test(params.sql)
+        ? { error: "SQL error -244: Could not do a physical-order read" }
+        : DEFAULT_MOCK_FIXTURES["run-select"](params));
+      const result = await callFails("export-table", { tableName: "employee", database: "eadmin", fileFormat: "ndjson", wait: true });
+      assert.deepEqual([result.error, result.job.state, result.job.progress.rows], ["query-failed", "failed", 2]);
+      assert.deepEqual(await readdir(join(server.dir, "exports")), before);
+    });
+
+    it("reports unknown jobs", async () => {
+      assert.equal((await callFails("job-status", { jobId: "no-such-job" })).error, "unknown-job");
+      assert.equal((await callFails("cancel-job", { jobId: "no-such-job" })).error, "unknown-job");
+    });
+
+    it("rejects tampered cursors", async () => {
+      const result = await callFails("fetch-next-page", { cursor: "not-a-cursor" });
+      assert.equal(result.error, "invalid-cursor");
+    });
+
+    it("reports missing snapshots", async () => {
+      const result = await callFails("diff-schema", { fromSnapshot: "missing.json", toDatabase: "eadmin" });
+      assert.equal(result.error, "invalid-snapshot");
+    });
+  });
+});
+
+describe("tools with an access policy and redaction", () => {
+  let server: TestServer;
+  let dir: string;
+
+  const structured = (result: CallToolResult) => result.structuredContent as any;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "informix-mcp-policy-"));
+    await writeFile(join(dir, "policy.yaml"), [
+      "default:",
+      "  databases:",
+      "    allow: [eadmin, ppc]",
+      "  tables:",
+      "    deny: [\"eadmin:department\"]",
+      "  queries:",
+      "    deny: [run-select]"
+    ].join("\n"));
+    await writeFile(join(dir, "redaction.yaml"), [
+      "salt: test",
+      "rules:",
+      "  - strategy: mask",
+      "    columns: [ssn]",
+      "    keepLast: 4",
+      "  - strategy: drop",
+      "    columns: [email]"
+    ].join("\n"));
+    server = await startTestServer({ ACCESS_POLICY_FILE: join(dir, "policy.yaml"), REDACTION_FILE: join(dir, "redaction.yaml") });
+  });
+
+  after(async () => {
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("denies databases, tables and queries outside the policy", async () => {
+    const database = await server.call("list-tables", { database: "payrolldb" });
+    assert.equal(structured(database).error, "policy-denied");
+    const table = await server.call("get-table-schema", { tableName: "department" });
+    assert.equal(structured(table).error, "policy-denied");
+    const query = await server.call("run-select", { sql: "SELECT * FROM employee" });
+    assert.equal(structured(query).error, "policy-denied");
+    const refresh = await server.call("refresh-metadata", { database: "payrolldb" });
+    assert.equal(structured(refresh).error, "policy-denied");
+  });
+
+  it("hides denied tables from listings", async () => {
+    const result = await server.call("list-tables", { database: "eadmin" });
+    assert.deepEqual(structured(result).tables, ["employee", "v_active_employees"]);
+  });
+
+  it("leaves denied databases and tables out of schema searches", async () => {
+    const result = structured(await server.call("search-schema", { query: "department" }));
+    assert.deepEqual(result.databases.map((entry: any) => entry.database), ["eadmin", "ppc"]);
+    assert.ok(result.hits.length > 0);
+    assert.ok(result.hits.every((hit: any) => hit.table !== "department"));
+  });
+
+  it("redacts the values a table profile shows", async () => {
+    const result = structured(await server.call("profile-table", { tableName: "employee" }));
+    assert.equal(result.columns.some((column: any) => column.column === "email"), false);
+    const ssn = result.columns.find((column: any) => column.column === "ssn");
+    assert.deepEqual([ssn.min, ssn.distinctCount, ssn.lengths], ["*******6789", 5, undefined]);
+    assert.ok(ssn.topValues.every((entry: any) => /^\*{7}\d{4}$/.test(entry.value)));
+    assert.deepEqual(result.redactedColumns.map((column: any) => column.column).sort(), ["email", "ssn"]);
+  });
+
+  it("redacts exports and checks the condition's tables", async () => {
+    const result = structured(await server.call("export-table", { tableName: "employee", fileFormat: "csv", wait: true }));
+    const lines = (await readFile(join(server.dir, "exports", result.job.result.file), "utf8")).split("\n");
+    assert.equal(lines[0], "id,first_name,last_name,ssn,dept_id,hired_on,active");
+    assert.match(lines[1], /^1001,Ann,Lee,\*{7}6789,/);
+    assert.deepEqual(result.job.result.redactedColumns.map((column: any) => column.column).sort(), ["email", "ssn"]);
+
+    const subquery = await server.call("export-table", { tableName: "employee", fileFormat: "csv", where: "dept_id IN (SELECT id FROM department)" });
+    assert.equal(structured(subquery).error, "policy-denied");
+  });
+
+  it("redacts sample data", async () => {
+    const result = structured(await server.call("get-sample-data", { tableName: "employee", limit: 1 }));
+    assert.equal(result.rows[0].ssn, "*******6789");
+    assert.equal("email" in result.rows[0], false);
+    assert.deepEqual(result.redactedColumns.map((column: any) => column.column).sort(), ["email", "ssn"]);
+  });
+});
+
+describe("run-select with redaction", () => {
+  let server: TestServer;
+  let dir: string;
+
+  const structured = (result: CallToolResult) => result.structuredContent as any;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "informix-mcp-redaction-"));
+    await writeFile(join(dir, "redaction.yaml"), [
+      "rules:",
+      "  - strategy: mask",
+      "    columns: [ssn]",
+      "    keepLast: 4",
+      "  - strategy: drop",
+      "    columns: [email]"
+    ].join("\n"));
+    server = await startTestServer({ REDACTION_FILE: join(dir, "redaction.yaml") });
+  });
+
+  after(async () => {
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => server.mock.reset());
+
+  it("redacts a redacted column selected under an alias", async () => {
+    // The mock ignores the select list; answer as Informix would
+    server.mock.override("run-select", { results: [{ x: "123-45-6789", id: 1001, mail: "ann@example.com" }] });
+    const result = structured(await server.call("run-select", { sql: "SELECT ssn AS x, id, e.email AS mail FROM employee e" }));
+    assert.deepEqual(result.rows, [{ x: "*******6789", id: 1001 }]);
+    assert.deepEqual(result.redactedColumns, [{ column: "x", strategy: "mask" }, { column: "mail", strategy: "drop" }]);
+  });
+
+  it("redacts expressions over a redacted column", async () => {
+    server.mock.override("run-select", { results: [{ code: "123-45-6789" }] });
+    const result = structured(await server.call("run-select", { sql: "SELECT UPPER(ssn || '') AS code FROM employee" }));
+    assert.deepEqual(result.rows, [{ code: "*******6789" }]);
+  });
+
+  it("rejects items that would return a redacted column under an unknown name", async () => {
+    for (const sql of [
+      "SELECT ssn || '' FROM employee",
+      "SELECT UPPER(ssn) FROM employee",
+      "SELECT ssn x FROM employee",
+      'SELECT "ssn" || \'\' FROM employee',
+      "SELECT x FROM (SELECT ssn AS x FROM employee)"
+    ]) {
+      const result = structured(await server.call("run-select", { sql }));
+      assert.equal(result.error, "sql-rejected", sql);
+      assert.match(result.message, /reads redacted column 'ssn'/);
+    }
+    assert.equal(server.mock.requests.length, 0);
+  });
+
+  it("still redacts columns selected directly", async () => {
+    const result = structured(await server.call("run-select", { sql: "SELECT e.ssn, id FROM employee e" }));
+    assert.equal(result.rows[0].ssn, "*******6789");
+  });
+});